@@ -67,28 +67,24 @@ async function main() {
     // 'new', 'fill', 'partial_fill', 'canceled', 'expired', 'rejected'
     console.log(`[Trade Update] Event: ${update.event}`)
 
-    // The order field contains the full order object, but the SDK types it
-    // as `unknown` because it comes from the WebSocket without schema
-    // validation. We cast to a record to access its properties. In
-    // production, consider defining a typed interface for the order shape.
-    const order = update.order as Record<string, string> | null
-    if (order) {
-      console.log(`  Order ID:    ${order.id}`)
-      console.log(`  Symbol:      ${order.symbol}`)
-      console.log(`  Side:        ${order.side}`)
-      console.log(`  Type:        ${order.type}`)
-      console.log(`  Qty:         ${order.qty}`)
-      console.log(`  Status:      ${order.status}`)
-    }
+    // The order field contains the full order object as it stands after
+    // this event, typed as the trading API's Order.
+    const order = update.order
+    console.log(`  Order ID:    ${order.id ?? ''}`)
+    console.log(`  Symbol:      ${order.symbol ?? ''}`)
+    console.log(`  Side:        ${order.side ?? ''}`)
+    console.log(`  Type:        ${order.type}`)
+    console.log(`  Qty:         ${order.qty ?? ''}`)
+    console.log(`  Status:      ${order.status ?? ''}`)
 
     // For fill and partial_fill events, the update includes the execution
     // price and quantity. These are critical for tracking your actual
-    // execution prices (which may differ from limit prices).
-    if (update.price) {
+    // execution prices (which may differ from limit prices). Checking the
+    // event narrows the update so these fields are no longer optional.
+    if (update.event === 'fill' || update.event === 'partial_fill') {
       console.log(`  Fill Price:  $${update.price}`)
-    }
-    if (update.qty) {
       console.log(`  Fill Qty:    ${update.qty}`)
+      console.log(`  Position:    ${update.position_qty}`)
     }
     if (update.timestamp) {
       console.log(`  Timestamp:   ${update.timestamp}`)
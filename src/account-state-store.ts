@@ -0,0 +1,466 @@
+/**
+ * Local account state
+ *
+ * Keeps open orders, positions and cash in memory. The store is seeded over
+ * REST, kept current by trade updates, and periodically reconciled against
+ * REST so drift between the local view and the account is reported.
+ */
+
+import type { Order, TradingClient } from './trading'
+import { isFillUpdate, type TradeUpdate, type TradeUpdatesStream } from './streaming'
+import { isTerminalOrder } from './order-tracker'
+
+/** Default interval between REST reconciliations */
+const RECONCILE_INTERVAL = 60_000
+
+/** Contracts per option; option prices are quoted per share */
+const OPTION_MULTIPLIER = 100
+
+/** Differences smaller than this are treated as rounding, not drift */
+const DRIFT_TOLERANCE = 1e-6
+
+export interface AccountStateStoreOptions {
+  /** Milliseconds between REST reconciliations; 0 disables them (default: 60000) */
+  reconcileIntervalMs?: number
+}
+
+/** Position as tracked locally */
+export interface PositionState {
+  symbol: string
+  assetClass?: string
+  /** Signed quantity: negative for short positions */
+  qty: number
+  side: 'long' | 'short'
+  avgEntryPrice: number
+}
+
+/** One difference between local state and the account found during reconciliation */
+export interface StateDrift {
+  kind: 'order' | 'position' | 'cash'
+  /** Order id, position symbol, or `cash` */
+  key: string
+  field: 'exists' | 'status' | 'filled_qty' | 'qty' | 'avg_entry_price' | 'cash'
+  local: string | number | boolean | null
+  remote: string | number | boolean | null
+}
+
+export interface AccountStateStore {
+  /** Seed from REST, start applying trade updates and schedule reconciliation */
+  start: () => Promise<void>
+  /** Stop applying trade updates and reconciling */
+  stop: () => void
+  /** Open orders */
+  getOpenOrders: () => Order[]
+  /** Open order by id */
+  getOrder: (orderId: string) => Order | undefined
+  /** Open positions */
+  getPositions: () => PositionState[]
+  /** Position by symbol */
+  getPosition: (symbol: string) => PositionState | undefined
+  /** Cash balance */
+  getCash: () => number
+  /** Compare with REST now, adopt the REST state and return the differences found (none while seeding) */
+  reconcile: () => Promise<StateDrift[]>
+  /** Register a handler called whenever the state changes */
+  onChange: (handler: () => void) => void
+  /** Register a handler called when a reconciliation finds drift */
+  onDrift: (handler: (drift: StateDrift[]) => void) => void
+  /** Register a handler for reconciliation failures */
+  onError: (handler: (error: Error) => void) => void
+}
+
+interface Snapshot {
+  orders: Map<string, Order>
+  positions: Map<string, PositionState>
+  cash: number
+}
+
+function toPositionState(position: {
+  symbol: string
+  asset_class?: string
+  qty: string
+  side: string
+  avg_entry_price: string
+}): PositionState {
+  const qty = Math.abs(Number(position.qty))
+  const side = position.side === 'short' ? 'short' : 'long'
+  return {
+    symbol: position.symbol,
+    assetClass: position.asset_class,
+    qty: side === 'short' ? -qty : qty,
+    side,
+    avgEntryPrice: Number(position.avg_entry_price),
+  }
+}
+
+function differs(a: number, b: number): boolean {
+  return Math.abs(a - b) > DRIFT_TOLERANCE
+}
+
+/** Differences between two snapshots, from the point of view of `local` */
+function diffSnapshots(local: Snapshot, remote: Snapshot): StateDrift[] {
+  const drift: StateDrift[] = []
+
+  for (const id of new Set([...local.orders.keys(), ...remote.orders.keys()])) {
+    const mine = local.orders.get(id)
+    const theirs = remote.orders.get(id)
+    if (!mine || !theirs) {
+      drift.push({ kind: 'order', key: id, field: 'exists', local: !!mine, remote: !!theirs })
+      continue
+    }
+    if (mine.status !== theirs.status) {
+      drift.push({
+        kind: 'order',
+        key: id,
+        field: 'status',
+        local: mine.status ?? null,
+        remote: theirs.status ?? null,
+      })
+    }
+    if (differs(Number(mine.filled_qty ?? 0), Number(theirs.filled_qty ?? 0))) {
+      drift.push({
+        kind: 'order',
+        key: id,
+        field: 'filled_qty',
+        local: mine.filled_qty ?? null,
+        remote: theirs.filled_qty ?? null,
+      })
+    }
+  }
+
+  for (const symbol of new Set([...local.positions.keys(), ...remote.positions.keys()])) {
+    const mine = local.positions.get(symbol)
+    const theirs = remote.positions.get(symbol)
+    if (!mine || !theirs) {
+      drift.push({
+        kind: 'position',
+        key: symbol,
+        field: 'exists',
+        local: !!mine,
+        remote: !!theirs,
+      })
+      continue
+    }
+    if (differs(mine.qty, theirs.qty)) {
+      drift.push({
+        kind: 'position',
+        key: symbol,
+        field: 'qty',
+        local: mine.qty,
+        remote: theirs.qty,
+      })
+    }
+    if (differs(mine.avgEntryPrice, theirs.avgEntryPrice)) {
+      drift.push({
+        kind: 'position',
+        key: symbol,
+        field: 'avg_entry_price',
+        local: mine.avgEntryPrice,
+        remote: theirs.avgEntryPrice,
+      })
+    }
+  }
+
+  if (differs(local.cash, remote.cash)) {
+    drift.push({ kind: 'cash', key: 'cash', field: 'cash', local: local.cash, remote: remote.cash })
+  }
+
+  return drift
+}
+
+/** Position after a fill of signed quantity `filled` at `price` */
+function applyFill(
+  position: PositionState | undefined,
+  symbol: string,
+  assetClass: string | undefined,
+  filled: number,
+  price: number
+): PositionState | undefined {
+  const previousQty = position?.qty ?? 0
+  const qty = previousQty + filled
+  if (Math.abs(qty) < DRIFT_TOLERANCE) return undefined
+
+  let avgEntryPrice: number
+  if (!position || Math.sign(qty) !== Math.sign(previousQty)) {
+    // Opening, or flipping from long to short (or back): the remainder was entered at this price
+    avgEntryPrice = price
+  } else if (Math.abs(qty) > Math.abs(previousQty)) {
+    avgEntryPrice =
+      (Math.abs(previousQty) * position.avgEntryPrice + Math.abs(filled) * price) / Math.abs(qty)
+  } else {
+    // Reducing a position does not change its entry price
+    avgEntryPrice = position.avgEntryPrice
+  }
+
+  return {
+    symbol,
+    assetClass: assetClass ?? position?.assetClass,
+    qty,
+    side: qty < 0 ? 'short' : 'long',
+    avgEntryPrice,
+  }
+}
+
+/**
+ * Create an in-memory store of open orders, positions and cash.
+ *
+ * Fills are applied from the change in each order's `filled_qty`, so
+ * duplicate or replayed trade updates do not double count.
+ *
+ * @example
+ * ```ts
+ * const store = createAccountStateStore(trading, tradeUpdates)
+ * store.onDrift((drift) => console.warn('state drift', drift))
+ * await store.start()
+ * store.getPosition('AAPL')
+ * ```
+ */
+export function createAccountStateStore(
+  trading: Pick<TradingClient, 'orders' | 'positions' | 'account'>,
+  stream: TradeUpdatesStream,
+  options?: AccountStateStoreOptions
+): AccountStateStore {
+  const reconcileIntervalMs = options?.reconcileIntervalMs ?? RECONCILE_INTERVAL
+  const changeHandlers = new Set<() => void>()
+  const driftHandlers = new Set<(drift: StateDrift[]) => void>()
+  const errorHandlers = new Set<(error: Error) => void>()
+
+  let state: Snapshot = { orders: new Map(), positions: new Map(), cash: 0 }
+  /** Last seen `filled_qty` per order, kept after orders close to ignore late duplicates */
+  const filledQty = new Map<string, number>()
+  /** Updates received while a REST snapshot is in flight; re-applied on top of it */
+  let pending: TradeUpdate[] | null = null
+  let running = false
+  let removeHandlers: (() => void)[] = []
+  let reconcileTimer: ReturnType<typeof setTimeout> | null = null
+
+  const emitChange = () => {
+    for (const handler of changeHandlers) handler()
+  }
+
+  const emitError = (error: unknown) => {
+    const wrapped = error instanceof Error ? error : new Error(String(error))
+    for (const handler of errorHandlers) handler(wrapped)
+  }
+
+  const applyUpdate = (update: TradeUpdate) => {
+    const order = update.order
+    if (order.id === undefined) return
+
+    const totalFilled = Number(order.filled_qty ?? 0)
+    const previousFilled = filledQty.get(order.id)
+    filledQty.set(order.id, Math.max(totalFilled, previousFilled ?? 0))
+
+    if (isTerminalOrder(order)) {
+      state.orders.delete(order.id)
+    } else {
+      state.orders.set(order.id, order)
+    }
+
+    if (!isFillUpdate(update) || !order.symbol) {
+      emitChange()
+      return
+    }
+    const filled = previousFilled === undefined ? Number(update.qty) : totalFilled - previousFilled
+    if (filled > 0) {
+      const price = Number(update.price)
+      const signed = order.side === 'sell' ? -filled : filled
+      const multiplier = order.asset_class === 'us_option' ? OPTION_MULTIPLIER : 1
+      let position = applyFill(
+        state.positions.get(order.symbol),
+        order.symbol,
+        order.asset_class,
+        signed,
+        price
+      )
+      // The stream reports the resulting position size; trust it over local arithmetic
+      const reportedQty = Number(update.position_qty)
+      if (position && Number.isFinite(reportedQty)) {
+        position =
+          Math.abs(reportedQty) < DRIFT_TOLERANCE
+            ? undefined
+            : { ...position, qty: reportedQty, side: reportedQty < 0 ? 'short' : 'long' }
+      }
+      if (position) {
+        state.positions.set(order.symbol, position)
+      } else {
+        state.positions.delete(order.symbol)
+      }
+      state.cash -= signed * price * multiplier
+    }
+
+    emitChange()
+  }
+
+  const loadSnapshot = async (): Promise<Snapshot> => {
+    const [orders, positions, account] = await Promise.all([
+      trading.orders.list({ status: 'open' }),
+      trading.positions.list(),
+      trading.account.get(),
+    ])
+    const snapshot: Snapshot = {
+      orders: new Map(),
+      positions: new Map(),
+      cash: Number(account.cash ?? 0),
+    }
+    for (const order of orders) {
+      if (order.id !== undefined) snapshot.orders.set(order.id, order)
+    }
+    for (const position of positions) {
+      snapshot.positions.set(position.symbol, toPositionState(position))
+    }
+    return snapshot
+  }
+
+  /**
+   * `filled_qty` of every open order in the snapshot and of every order with a
+   * pending update. Orders missing from the snapshot closed before it was
+   * taken, so their fills are already in its positions and cash; they are
+   * fetched to learn how much that is. A fill this treats as included when it
+   * was not shows up as drift at the next reconciliation.
+   */
+  const loadFillBaselines = async (snapshot: Snapshot): Promise<Map<string, number>> => {
+    const baselines = new Map<string, number>()
+    for (const order of snapshot.orders.values()) {
+      if (order.id !== undefined) baselines.set(order.id, Number(order.filled_qty ?? 0))
+    }
+
+    const unknownIds = () => [
+      ...new Set(
+        (pending ?? []).flatMap(({ order }) =>
+          order.id !== undefined && !baselines.has(order.id) ? [order.id] : []
+        )
+      ),
+    ]
+    // Updates keep arriving while orders are fetched
+    for (let ids = unknownIds(); ids.length > 0; ids = unknownIds()) {
+      await Promise.all(
+        ids.map(async (id) => {
+          const order = await trading.orders.get(id)
+          baselines.set(id, Number(order.filled_qty ?? 0))
+        })
+      )
+    }
+    return baselines
+  }
+
+  /**
+   * Replace local state with a REST snapshot, replaying updates that arrived
+   * meanwhile. Fills the snapshot already includes are not applied again.
+   */
+  const adopt = async (): Promise<StateDrift[]> => {
+    pending = []
+    let snapshot: Snapshot
+    let baselines: Map<string, number>
+    try {
+      snapshot = await loadSnapshot()
+      baselines = await loadFillBaselines(snapshot)
+    } catch (error) {
+      const missed = pending
+      pending = null
+      for (const update of missed) applyUpdate(update)
+      throw error
+    }
+    const drift = diffSnapshots(state, snapshot)
+    state = snapshot
+    for (const [orderId, filled] of baselines) filledQty.set(orderId, filled)
+    const missed = pending
+    pending = null
+    for (const update of missed) applyUpdate(update)
+    emitChange()
+    return drift
+  }
+
+  let inFlight: Promise<StateDrift[]> | null = null
+  let seeded = false
+
+  /**
+   * Adopt the REST state. Overlapping calls (seed, timer, reconnect, caller)
+   * share one REST round trip, so a reconciliation during the seed waits for it.
+   */
+  const adoptShared = (reportDrift: boolean) => {
+    inFlight ??= adopt()
+      .then((drift) => {
+        // The initial load seeds the store; differences from the empty state are not drift
+        if (!reportDrift) return []
+        if (drift.length > 0) {
+          for (const handler of driftHandlers) handler(drift)
+        }
+        return drift
+      })
+      .finally(() => {
+        inFlight = null
+      })
+    return inFlight
+  }
+
+  const reconcile = () => adoptShared(true)
+
+  const scheduleReconcile = () => {
+    if (!running || reconcileIntervalMs <= 0) return
+    reconcileTimer = setTimeout(() => {
+      void reconcile()
+        .catch(emitError)
+        .finally(() => {
+          scheduleReconcile()
+        })
+    }, reconcileIntervalMs)
+  }
+
+  const stop = () => {
+    running = false
+    for (const remove of removeHandlers) remove()
+    removeHandlers = []
+    if (reconcileTimer) {
+      clearTimeout(reconcileTimer)
+      reconcileTimer = null
+    }
+  }
+
+  return {
+    async start() {
+      if (running) return
+      running = true
+      removeHandlers = [
+        stream.onTradeUpdate((update) => {
+          if (pending) {
+            pending.push(update)
+          } else {
+            applyUpdate(update)
+          }
+        }),
+        stream.onConnect(() => {
+          // Catch up on anything missed while disconnected
+          if (seeded) void reconcile().catch(emitError)
+        }),
+      ]
+      stream.connect()
+      stream.subscribe()
+
+      try {
+        await adoptShared(false)
+      } catch (error) {
+        stop()
+        throw error
+      }
+      seeded = true
+      scheduleReconcile()
+    },
+    stop,
+    getOpenOrders: () => [...state.orders.values()],
+    getOrder: (orderId) => state.orders.get(orderId),
+    getPositions: () => [...state.positions.values()],
+    getPosition: (symbol) => state.positions.get(symbol),
+    getCash: () => state.cash,
+    reconcile,
+    onChange: (handler) => {
+      changeHandlers.add(handler)
+    },
+    onDrift: (handler) => {
+      driftHandlers.add(handler)
+    },
+    onError: (handler) => {
+      errorHandlers.add(handler)
+    },
+  }
+}
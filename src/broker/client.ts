@@ -4,9 +4,15 @@
 
 import createClient from 'openapi-fetch'
 import {
-  type AlpacaConfig,
+  type AlpacaClientOptions,
+  type ApiKeyCredentials,
   resolveConfig,
   createBasicAuth,
+  createAlpacaFetch,
+  createFetchOptions,
+  createSafeClient,
+  paginateByCursor,
+  type IterateOptions,
   type RequestOptions,
   unwrap,
   unwrapList,
@@ -40,6 +46,8 @@ export type OrderStatus = components['schemas']['OrderStatus']
 
 // Position types
 export type Position = components['schemas']['Position']
+export type ExerciseRequest = components['schemas']['ExerciseRequest']
+export type ExerciseResponse = components['schemas']['ExerciseResponse']
 
 // Transfer types
 export type Transfer = components['schemas']['Transfer']
@@ -65,24 +73,28 @@ export type TrustedContact = components['schemas']['TrustedContact']
 export type Calendar = components['schemas']['Calendar']
 export type Clock = components['schemas']['Clock']
 
-export type BrokerClientConfig = AlpacaConfig
+/** The Broker API uses HTTP Basic auth, so it takes a key pair and not an OAuth token */
+export type BrokerClientConfig = ApiKeyCredentials & AlpacaClientOptions
+
+/** Page size requested by `activities.iterate` when none is given */
+const ACTIVITIES_PAGE_SIZE = 100
 
 /**
  * Create a Broker API client
  */
 export function createBrokerClient(config: BrokerClientConfig) {
   const resolvedConfig = resolveConfig(config, 'broker')
-  const auth = createBasicAuth(resolvedConfig.keyId, resolvedConfig.secretKey)
+  const auth = createBasicAuth(config.keyId, config.secretKey)
 
   const client = createClient<paths>({
     baseUrl: resolvedConfig.baseUrl,
     headers: auth,
+    fetch: createAlpacaFetch(resolvedConfig),
   })
+  client.use(...resolvedConfig.middleware)
+  const fetchOptions = createFetchOptions(resolvedConfig)
 
-  return {
-    /** Raw openapi-fetch client for advanced usage */
-    raw: client,
-
+  const api = {
     /** Account operations */
     accounts: {
       /** List all accounts */
@@ -93,17 +105,48 @@ export function createBrokerClient(config: BrokerClientConfig) {
         return unwrapList(
           await client.GET('/v1/accounts', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
 
+      /**
+       * Iterate all accounts by moving the `created_after`/`created_before` window
+       * past the last account of each response. Accounts on a window boundary are
+       * only yielded once. Stop early with `maxItems`.
+       */
+      iterate(
+        params?: operations['getAllAccounts']['parameters']['query'],
+        options?: IterateOptions
+      ) {
+        const sort = params?.sort ?? 'desc'
+        return paginateByCursor(
+          async (bound: string | undefined) =>
+            unwrapList(
+              await client.GET('/v1/accounts', {
+                params: {
+                  query: {
+                    ...params,
+                    // Both bounds are inclusive, so the boundary account is fetched again and skipped
+                    ...(bound &&
+                      (sort === 'asc' ? { created_after: bound } : { created_before: bound })),
+                  },
+                },
+                ...fetchOptions(options),
+              })
+            ),
+          (page) => page[page.length - 1]?.created_at,
+          (account) => account.id,
+          options
+        )
+      },
+
       /** Get account by ID */
       async get(accountId: string, options?: RequestOptions) {
         return unwrap(
           await client.GET('/v1/accounts/{account_id}', {
             params: { path: { account_id: accountId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -113,7 +156,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
         return unwrap(
           await client.POST('/v1/accounts', {
             body: account,
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -124,7 +167,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
           await client.PATCH('/v1/accounts/{account_id}', {
             params: { path: { account_id: accountId } },
             body: updates,
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -134,7 +177,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
         return unwrap(
           await client.GET('/v1/trading/accounts/{account_id}/account', {
             params: { path: { account_id: accountId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -150,11 +193,34 @@ export function createBrokerClient(config: BrokerClientConfig) {
         return unwrapList(
           await client.GET('/v1/accounts/activities', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
 
+      /**
+       * Iterate activities across all pages, following `page_token`.
+       * Bound the range with `after`/`until`, or stop early with `maxItems`.
+       */
+      iterate(
+        params?: operations['getAccountActivities']['parameters']['query'],
+        options?: IterateOptions
+      ) {
+        const pageSize = params?.page_size ?? ACTIVITIES_PAGE_SIZE
+        return paginateByCursor(
+          async (pageToken: string | undefined) =>
+            unwrapList(
+              await client.GET('/v1/accounts/activities', {
+                params: { query: { ...params, page_size: pageSize, page_token: pageToken } },
+                ...fetchOptions(options),
+              })
+            ),
+          (page) => (page.length < pageSize ? undefined : page[page.length - 1]?.id),
+          (activity) => activity.id,
+          options
+        )
+      },
+
       /** Get activities by type */
       async getByType(
         activityType: ActivityType,
@@ -164,7 +230,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
         return unwrapList(
           await client.GET('/v1/accounts/activities/{activity_type}', {
             params: { path: { activity_type: activityType }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -181,7 +247,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
         return unwrapList(
           await client.GET('/v1/accounts/{account_id}/transfers', {
             params: { path: { account_id: accountId }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -192,7 +258,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
           await client.POST('/v1/accounts/{account_id}/transfers', {
             params: { path: { account_id: accountId } },
             body: transfer,
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -202,7 +268,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
         unwrapOptional(
           await client.DELETE('/v1/accounts/{account_id}/transfers/{transfer_id}', {
             params: { path: { account_id: accountId, transfer_id: transferId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -215,7 +281,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
         return unwrapList(
           await client.GET('/v1/accounts/{account_id}/ach_relationships', {
             params: { path: { account_id: accountId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -230,7 +296,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
           await client.POST('/v1/accounts/{account_id}/ach_relationships', {
             params: { path: { account_id: accountId } },
             body: relationship,
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -244,7 +310,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
         unwrapOptional(
           await client.DELETE('/v1/accounts/{account_id}/ach_relationships/{ach_relationship_id}', {
             params: { path: { account_id: accountId, ach_relationship_id: achRelationshipId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -263,7 +329,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
           return unwrapList(
             await client.GET('/v1/trading/accounts/{account_id}/orders', {
               params: { path: { account_id: accountId }, query: params },
-              signal: options?.signal,
+              ...fetchOptions(options),
             })
           )
         },
@@ -273,7 +339,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
           return unwrap(
             await client.GET('/v1/trading/accounts/{account_id}/orders/{order_id}', {
               params: { path: { account_id: accountId, order_id: orderId } },
-              signal: options?.signal,
+              ...fetchOptions(options),
             })
           )
         },
@@ -284,7 +350,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
             await client.POST('/v1/trading/accounts/{account_id}/orders', {
               params: { path: { account_id: accountId } },
               body: order,
-              signal: options?.signal,
+              ...fetchOptions(options),
             })
           )
         },
@@ -300,7 +366,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
             await client.PATCH('/v1/trading/accounts/{account_id}/orders/{order_id}', {
               params: { path: { account_id: accountId, order_id: orderId } },
               body: updates,
-              signal: options?.signal,
+              ...fetchOptions(options),
             })
           )
         },
@@ -310,7 +376,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
           unwrapOptional(
             await client.DELETE('/v1/trading/accounts/{account_id}/orders/{order_id}', {
               params: { path: { account_id: accountId, order_id: orderId } },
-              signal: options?.signal,
+              ...fetchOptions(options),
             })
           )
         },
@@ -320,7 +386,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
           return unwrapList(
             await client.DELETE('/v1/trading/accounts/{account_id}/orders', {
               params: { path: { account_id: accountId } },
-              signal: options?.signal,
+              ...fetchOptions(options),
             })
           )
         },
@@ -333,7 +399,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
           return unwrapList(
             await client.GET('/v1/trading/accounts/{account_id}/positions', {
               params: { path: { account_id: accountId } },
-              signal: options?.signal,
+              ...fetchOptions(options),
             })
           )
         },
@@ -343,7 +409,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
           return unwrap(
             await client.GET('/v1/trading/accounts/{account_id}/positions/{symbol_or_asset_id}', {
               params: { path: { account_id: accountId, symbol_or_asset_id: symbolOrAssetId } },
-              signal: options?.signal,
+              ...fetchOptions(options),
             })
           )
         },
@@ -363,7 +429,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
                   path: { account_id: accountId, symbol_or_asset_id: symbolOrAssetId },
                   query: params,
                 },
-                signal: options?.signal,
+                ...fetchOptions(options),
               }
             )
           )
@@ -378,10 +444,59 @@ export function createBrokerClient(config: BrokerClientConfig) {
           return unwrapList(
             await client.DELETE('/v1/trading/accounts/{account_id}/positions', {
               params: { path: { account_id: accountId }, query: params },
-              signal: options?.signal,
+              ...fetchOptions(options),
             })
           )
         },
+
+        /**
+         * Exercise a held option contract. Exercises every contract of the
+         * position unless `params.qty` is set.
+         */
+        async exercise(
+          accountId: string,
+          symbolOrContractId: string,
+          params?: ExerciseRequest,
+          options?: RequestOptions
+        ) {
+          return unwrap(
+            await client.POST(
+              '/v1/trading/accounts/{account_id}/positions/{symbol_or_contract_id}/exercise',
+              {
+                params: {
+                  path: { account_id: accountId, symbol_or_contract_id: symbolOrContractId },
+                },
+                body: params ?? {},
+                ...fetchOptions(options),
+              }
+            )
+          )
+        },
+
+        /**
+         * Submit a do-not-exercise instruction, so an in-the-money contract is
+         * not exercised automatically at expiry
+         */
+        async doNotExercise(
+          accountId: string,
+          symbolOrContractId: string,
+          options?: RequestOptions
+        ): Promise<void> {
+          unwrapOptional(
+            await client.POST(
+              '/v1/trading/accounts/{account_id}/positions/{symbol_or_contract_id}/do-not-exercise',
+              {
+                params: {
+                  path: { account_id: accountId, symbol_or_contract_id: symbolOrContractId },
+                },
+                body: {},
+                // Success responses have an empty body
+                parseAs: 'text',
+                ...fetchOptions(options),
+              }
+            )
+          )
+        },
       },
     },
 
@@ -396,7 +511,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
         return unwrapList(
           await client.GET('/v1/accounts/{account_id}/documents', {
             params: { path: { account_id: accountId }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -406,7 +521,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
         return unwrap(
           await client.GET('/v1/accounts/{account_id}/documents/{document_id}/download', {
             params: { path: { account_id: accountId, document_id: documentId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -422,7 +537,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
         return unwrapList(
           await client.GET('/v1/assets', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -432,7 +547,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
         return unwrap(
           await client.GET('/v1/assets/{symbol_or_asset_id}', {
             params: { path: { symbol_or_asset_id: symbolOrAssetId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -448,7 +563,7 @@ export function createBrokerClient(config: BrokerClientConfig) {
         return unwrapList(
           await client.GET('/v1/calendar', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -460,12 +575,20 @@ export function createBrokerClient(config: BrokerClientConfig) {
       async get(options?: RequestOptions) {
         return unwrap(
           await client.GET('/v1/clock', {
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
     },
   }
+
+  return {
+    /** Raw openapi-fetch client for advanced usage */
+    raw: client,
+    ...api,
+    /** Result-returning variants of every method (never throw) */
+    safe: createSafeClient(api),
+  }
 }
 
 /** Type inference helper for the broker client */
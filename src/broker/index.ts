@@ -32,7 +32,7 @@ export type {
 } from './client'
 
 // Position types
-export type { Position } from './client'
+export type { Position, ExerciseRequest, ExerciseResponse } from './client'
 
 // Transfer types
 export type { Transfer, CreateTransferRequest, TransferDirection, TransferType } from './client'
@@ -2,17 +2,28 @@
  * Unified Alpaca client
  */
 
-import type { AlpacaConfig } from './core'
+import { resolveCredentials } from './core'
+import type { AlpacaConfig, ApiKeyCredentials, OAuthCredentials } from './core'
 import { createTradingClient } from './trading'
 import type { TradingClient } from './trading'
 import { createBrokerClient } from './broker'
 import type { BrokerClient } from './broker'
 import { createMarketDataClient } from './market-data'
-import type { MarketDataClient } from './market-data'
+import type { MarketDataClient, MarketDataClientConfig } from './market-data'
 import { createStockStream, createCryptoStream, createTradeUpdatesStream } from './streaming'
-import type { StockStream, CryptoStream, TradeUpdatesStream } from './streaming'
+import type {
+  StockStream,
+  CryptoStream,
+  TradeUpdatesStream,
+  StreamConfig,
+  OAuthStreamConfig,
+} from './streaming'
+import { submitAndTrack } from './order-tracker'
+import type { SubmitAndTrackOptions, TrackedOrder } from './order-tracker'
+import type { OrderRequest } from './trading'
+import type { OrderBuilder } from './trading/order-builder'
 
-export type AlpacaClientConfig = AlpacaConfig
+export type AlpacaClientConfig = AlpacaConfig & Pick<MarketDataClientConfig, 'barCache'>
 
 export interface AlpacaClient {
   trading: TradingClient
@@ -23,26 +34,49 @@ export interface AlpacaClient {
     crypto: CryptoStream
     tradeUpdates: TradeUpdatesStream
   }
+  /** Submit an order and track it to a terminal state via `streams.tradeUpdates` */
+  submitAndTrack: (
+    order: OrderRequest | OrderBuilder,
+    options?: SubmitAndTrackOptions
+  ) => Promise<TrackedOrder>
+}
+
+/** Unified client created with an OAuth access token */
+export interface OAuthAlpacaClient extends Omit<AlpacaClient, 'broker'> {
+  /** Always `undefined`: the Broker API only accepts a key pair */
+  broker: undefined
 }
 
 /**
  * Create a unified Alpaca client with all APIs
+ *
+ * Pass either `keyId`/`secretKey` or an OAuth `accessToken`. The Broker API
+ * only accepts a key pair, so `broker` is `undefined` with an access token.
  */
-export function createAlpacaClient(config: AlpacaClientConfig): AlpacaClient {
-  const streamConfig = {
-    keyId: config.keyId,
-    secretKey: config.secretKey,
+export function createAlpacaClient(config: AlpacaClientConfig & ApiKeyCredentials): AlpacaClient
+export function createAlpacaClient(config: AlpacaClientConfig & OAuthCredentials): OAuthAlpacaClient
+export function createAlpacaClient(config: AlpacaClientConfig): AlpacaClient | OAuthAlpacaClient
+export function createAlpacaClient(config: AlpacaClientConfig): AlpacaClient | OAuthAlpacaClient {
+  const streamConfig: StreamConfig | OAuthStreamConfig = {
+    ...resolveCredentials(config),
     paper: config.paper,
   }
 
-  return {
-    trading: createTradingClient(config),
-    broker: createBrokerClient(config),
+  const trading = createTradingClient(config)
+  const tradeUpdates = createTradeUpdatesStream(streamConfig)
+  const client = {
+    trading,
     marketData: createMarketDataClient(config),
     streams: {
       stocks: createStockStream(streamConfig),
       crypto: createCryptoStream(streamConfig),
-      tradeUpdates: createTradeUpdatesStream(streamConfig),
+      tradeUpdates,
     },
+    submitAndTrack: (order: OrderRequest | OrderBuilder, options?: SubmitAndTrackOptions) =>
+      submitAndTrack(trading, tradeUpdates, order, options),
   }
+
+  return config.accessToken === undefined
+    ? { ...client, broker: createBrokerClient(config) }
+    : { ...client, broker: undefined }
 }
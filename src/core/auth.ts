@@ -2,6 +2,8 @@
  * Authentication strategies for Alpaca APIs
  */
 
+import type { AlpacaCredentials } from './types'
+
 /**
  * Validates that a credential string is non-empty
  * @throws Error if the credential is empty or whitespace-only
@@ -30,6 +32,40 @@ export type OAuthAuth = {
 
 export type AuthHeaders = ApiKeyAuth | BasicAuth | OAuthAuth
 
+/**
+ * Extract the credentials from a client or stream config.
+ *
+ * The config types already make the key pair and the access token mutually
+ * exclusive; this also catches untyped callers that pass both or neither.
+ * @throws Error if both or neither kind of credentials are present
+ */
+export function resolveCredentials(config: AlpacaCredentials): AlpacaCredentials {
+  const { keyId, secretKey, accessToken } = config as Partial<
+    Record<'keyId' | 'secretKey' | 'accessToken', string>
+  >
+  if (accessToken !== undefined) {
+    if (keyId !== undefined || secretKey !== undefined) {
+      throw new Error('Provide either keyId and secretKey or accessToken, not both')
+    }
+    return { accessToken }
+  }
+  if (keyId === undefined || secretKey === undefined) {
+    throw new Error('Provide either keyId and secretKey or accessToken')
+  }
+  return { keyId, secretKey }
+}
+
+/**
+ * Create authentication headers for the Trading and Market Data APIs from
+ * either kind of credentials
+ * @throws Error if a credential is empty
+ */
+export function createCredentialsAuth(credentials: AlpacaCredentials): ApiKeyAuth | OAuthAuth {
+  return credentials.accessToken !== undefined
+    ? createOAuthAuth(credentials.accessToken)
+    : createApiKeyAuth(credentials.keyId, credentials.secretKey)
+}
+
 /**
  * Create API Key authentication headers
  * @throws Error if keyId or secretKey is empty
@@ -102,3 +138,42 @@ export function createWebSocketOAuth(token: string): WebSocketAuthMessage {
     secret: token,
   }
 }
+
+/**
+ * Create the WebSocket authentication message for market data streams from
+ * either kind of credentials
+ * @throws Error if a credential is empty
+ */
+export function createWebSocketCredentialsAuth(
+  credentials: AlpacaCredentials
+): WebSocketAuthMessage {
+  return credentials.accessToken !== undefined
+    ? createWebSocketOAuth(credentials.accessToken)
+    : createWebSocketAuth(credentials.keyId, credentials.secretKey)
+}
+
+/**
+ * Trading stream (trade updates) authentication message
+ */
+export interface TradingStreamAuthMessage {
+  action: 'authenticate'
+  data: { key_id: string; secret_key: string } | { oauth_token: string }
+}
+
+/**
+ * Create the trading stream authentication message from either kind of
+ * credentials
+ * @throws Error if a credential is empty
+ */
+export function createTradingStreamAuth(credentials: AlpacaCredentials): TradingStreamAuthMessage {
+  if (credentials.accessToken !== undefined) {
+    validateCredential(credentials.accessToken, 'OAuth token')
+    return { action: 'authenticate', data: { oauth_token: credentials.accessToken } }
+  }
+  validateCredential(credentials.keyId, 'API Key ID')
+  validateCredential(credentials.secretKey, 'Secret Key')
+  return {
+    action: 'authenticate',
+    data: { key_id: credentials.keyId, secret_key: credentials.secretKey },
+  }
+}
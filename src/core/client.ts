@@ -4,8 +4,11 @@
 
 import type { AlpacaConfig, ResolvedAlpacaConfig, RequestOptions } from './types'
 import { createAlpacaError, AlpacaError } from './errors'
-import { createApiKeyAuth, createBasicAuth } from './auth'
+import { createBasicAuth, createCredentialsAuth, resolveCredentials } from './auth'
 import type { AuthHeaders } from './auth'
+import type { RequestPriority } from './rate-limiter'
+import { getResponseMeta } from './response'
+import { sleep } from './sleep'
 
 /** Base URLs for Alpaca APIs */
 export const ALPACA_URLS = {
@@ -39,11 +42,13 @@ const MAX_RETRY_BACKOFF_MS = 5 * 60 * 1000
 
 /**
  * Resolve configuration with defaults
+ * @throws Error if the config has both or neither of a key pair and an access token
  */
 export function resolveConfig(
   config: AlpacaConfig,
   apiType: 'trading' | 'broker' | 'marketData'
 ): ResolvedAlpacaConfig {
+  const credentials = resolveCredentials(config)
   const paper = config.paper ?? DEFAULT_CONFIG.paper
 
   let baseUrl: string
@@ -58,22 +63,16 @@ export function resolveConfig(
   }
 
   return {
-    keyId: config.keyId,
-    secretKey: config.secretKey,
+    ...credentials,
     paper,
     timeout: config.timeout ?? DEFAULT_CONFIG.timeout,
     maxRetries: config.maxRetries ?? DEFAULT_CONFIG.maxRetries,
     baseUrl,
+    middleware: config.middleware ?? [],
+    rateLimiter: config.rateLimiter,
   }
 }
 
-/**
- * Sleep utility for retry backoff
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms))
-}
-
 /**
  * Calculate exponential backoff with jitter
  */
@@ -90,110 +89,219 @@ function isRetryable(status: number): boolean {
   return status === 429 || status >= 500
 }
 
+/** HTTP methods that can be safely replayed after a server error */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'])
+
+/**
+ * Check if a request may be retried for the given response status.
+ *
+ * A 429 means the request was never processed, so it is always safe to retry.
+ * A 5xx on a POST/PATCH may have been processed, so it is only retried when the
+ * request carries an Idempotency-Key that lets the server deduplicate it.
+ */
+function canRetry(request: Request, status: number): boolean {
+  if (!isRetryable(status)) {
+    return false
+  }
+  if (status === 429 || IDEMPOTENT_METHODS.has(request.method.toUpperCase())) {
+    return true
+  }
+  return request.headers.has('Idempotency-Key')
+}
+
+/**
+ * Parse the retry-after header into milliseconds
+ */
+function parseRetryAfterMs(response: Response): number | undefined {
+  const retryAfter = response.headers.get('retry-after')
+  return retryAfter ? parseInt(retryAfter, 10) * 1000 : undefined
+}
+
 interface AlpacaApiError {
   code: number
   message: string
 }
 
+/** Fetch implementation used by all REST clients */
+export type AlpacaFetch = (input: Request) => Promise<Response>
+
 /**
- * Base fetch client with retry logic
+ * Default rate limiter priority: state-changing requests (e.g. order submission)
+ * jump ahead of reads such as bulk market-data pulls.
  */
-export async function fetchWithRetry<T>(
-  url: string,
-  init: RequestInit,
-  config: ResolvedAlpacaConfig,
-  options?: RequestOptions
-): Promise<T> {
-  const timeout = options?.timeout ?? config.timeout
-  let lastError: AlpacaError | null = null
-
-  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => {
-      controller.abort()
-    }, timeout)
+function defaultPriority(request: Request): RequestPriority {
+  return request.method.toUpperCase() === 'GET' ? 'normal' : 'high'
+}
 
-    // Combine signals if user provided one
-    const signal = options?.signal
-      ? AbortSignal.any([options.signal, controller.signal])
-      : controller.signal
+/**
+ * Convert a fetch or abort failure into an AlpacaError
+ */
+function toRequestError(error: unknown): AlpacaError {
+  if (error instanceof AlpacaError) {
+    return error
+  }
 
-    try {
-      const response = await fetch(url, {
-        ...init,
-        signal,
-      })
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new AlpacaError('Request timeout', 'unknown', 0, 408)
+  }
 
-      clearTimeout(timeoutId)
+  return new AlpacaError(error instanceof Error ? error.message : 'Unknown error', 'unknown', 0, 0)
+}
 
-      const requestId = response.headers.get('x-request-id') ?? undefined
+/**
+ * Create the fetch layer shared by all REST clients (including `.raw`).
+ *
+ * Applies a per-attempt timeout and retries 429 and 5xx responses with
+ * exponential backoff (honoring retry-after). When a rate limiter is
+ * configured, every attempt waits for a slot and feeds the response headers
+ * back to it. The final response is returned as-is, so callers remain
+ * responsible for turning error statuses into errors.
+ */
+export function createAlpacaFetch(
+  config: ResolvedAlpacaConfig,
+  options?: RequestOptions
+): AlpacaFetch {
+  const timeout = options?.timeout ?? config.timeout
+  const rateLimiter = config.rateLimiter
 
-      if (!response.ok) {
-        const retryAfter = response.headers.get('retry-after')
-        const retryAfterMs = retryAfter ? parseInt(retryAfter, 10) * 1000 : undefined
+  return async function alpacaFetch(request: Request): Promise<Response> {
+    const priority = options?.priority ?? defaultPriority(request)
+    const startedAt = Date.now()
 
-        let errorBody: AlpacaApiError
+    for (let attempt = 0; ; attempt++) {
+      if (rateLimiter) {
         try {
-          errorBody = (await response.json()) as AlpacaApiError
-        } catch (parseError) {
-          // Only handle JSON parse errors (non-JSON responses like HTML error pages)
-          // Re-throw other errors (network issues, memory errors, etc.)
-          if (parseError instanceof SyntaxError) {
-            errorBody = { code: 0, message: response.statusText }
-          } else {
-            throw parseError
-          }
+          await rateLimiter.acquire(priority, request.signal)
+        } catch (error) {
+          throw toRequestError(error)
         }
-
-        const error = createAlpacaError(
-          errorBody.message,
-          errorBody.code,
-          response.status,
-          requestId,
-          retryAfterMs ? retryAfterMs / 1000 : undefined
-        )
-
-        if (isRetryable(response.status) && attempt < config.maxRetries) {
-          lastError = error
-          // Cap backoff to prevent DoS via malicious retry-after headers
-          const rawBackoff = retryAfterMs ?? calculateBackoff(attempt)
-          const backoff = Math.min(rawBackoff, MAX_RETRY_BACKOFF_MS)
-          await sleep(backoff)
-          continue
-        }
-
-        throw error
       }
 
-      // Handle empty responses (204 No Content)
-      // Note: Callers expecting 204 responses should type T to include undefined,
-      // or use this function only for endpoints that don't return 204.
-      if (response.status === 204) {
-        return undefined as unknown as T
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => {
+        controller.abort()
+      }, timeout)
+
+      let response: Response
+      try {
+        response = await fetch(request.clone(), {
+          signal: AbortSignal.any([request.signal, controller.signal]),
+        })
+      } catch (error) {
+        throw toRequestError(error)
+      } finally {
+        clearTimeout(timeoutId)
       }
 
-      return (await response.json()) as T
-    } catch (error) {
-      clearTimeout(timeoutId)
+      rateLimiter?.update(response)
 
-      if (error instanceof AlpacaError) {
-        throw error
+      if (attempt >= config.maxRetries || !canRetry(request, response.status)) {
+        options?.onMeta?.(getResponseMeta(response, Date.now() - startedAt))
+        return response
       }
 
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new AlpacaError('Request timeout', 'unknown', 0, 408)
+      // Cap backoff to prevent DoS via malicious retry-after headers
+      const rawBackoff = parseRetryAfterMs(response) ?? calculateBackoff(attempt)
+      const backoff = Math.min(rawBackoff, MAX_RETRY_BACKOFF_MS)
+      // Release the discarded body without waiting on it (some runtimes never settle the cancel)
+      response.body?.cancel().catch(() => undefined)
+      // An abort during the backoff ends the call now, not after the wait
+      await sleep(backoff, request.signal)
+    }
+  }
+}
+
+/** Per-call options understood by openapi-fetch client methods */
+export interface FetchOptions {
+  signal?: AbortSignal
+  headers?: Record<string, string>
+  fetch?: AlpacaFetch
+}
+
+/**
+ * Check if request options need a per-call fetch layer
+ */
+function needsDedicatedFetch(options?: RequestOptions): boolean {
+  return (
+    options?.timeout !== undefined ||
+    options?.priority !== undefined ||
+    options?.onMeta !== undefined
+  )
+}
+
+/**
+ * Create a function that maps `RequestOptions` onto openapi-fetch call options.
+ *
+ * Per-request timeouts, priorities and metadata callbacks get their own fetch
+ * layer; everything else uses the client-level fetch configured in the factory.
+ */
+export function createFetchOptions(config: ResolvedAlpacaConfig) {
+  return function fetchOptions(options?: RequestOptions): FetchOptions {
+    return {
+      signal: options?.signal,
+      headers: options?.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : undefined,
+      fetch: needsDedicatedFetch(options) ? createAlpacaFetch(config, options) : undefined,
+    }
+  }
+}
+
+/**
+ * Base fetch client with retry logic
+ */
+export async function fetchWithRetry<T>(
+  url: string,
+  init: RequestInit,
+  config: ResolvedAlpacaConfig,
+  options?: RequestOptions
+): Promise<T> {
+  const response = await createAlpacaFetch(
+    config,
+    options
+  )(new Request(url, { ...init, signal: options?.signal ?? init.signal }))
+
+  try {
+    const requestId = response.headers.get('x-request-id') ?? undefined
+
+    if (!response.ok) {
+      const retryAfterMs = parseRetryAfterMs(response)
+
+      let errorBody: AlpacaApiError
+      try {
+        errorBody = (await response.json()) as AlpacaApiError
+      } catch (parseError) {
+        // Only handle JSON parse errors (non-JSON responses like HTML error pages)
+        // Re-throw other errors (network issues, memory errors, etc.)
+        if (parseError instanceof SyntaxError) {
+          errorBody = { code: 0, message: response.statusText }
+        } else {
+          throw parseError
+        }
       }
 
-      throw new AlpacaError(
-        error instanceof Error ? error.message : 'Unknown error',
-        'unknown',
-        0,
-        0
+      throw createAlpacaError(
+        errorBody.message,
+        errorBody.code,
+        response.status,
+        requestId,
+        retryAfterMs ? retryAfterMs / 1000 : undefined
       )
     }
-  }
 
-  throw lastError ?? new AlpacaError('Max retries exceeded', 'unknown', 0, 0)
+    // Handle empty responses (204 No Content)
+    // Note: Callers expecting 204 responses should type T to include undefined,
+    // or use this function only for endpoints that don't return 204.
+    if (response.status === 204) {
+      return undefined as unknown as T
+    }
+
+    return (await response.json()) as T
+  } catch (error) {
+    if (error instanceof AlpacaError) {
+      throw error
+    }
+
+    throw new AlpacaError(error instanceof Error ? error.message : 'Unknown error', 'unknown', 0, 0)
+  }
 }
 
 /**
@@ -219,10 +327,15 @@ export function createApiFetch(
   config: ResolvedAlpacaConfig,
   authType: 'apiKey' | 'basic' = 'apiKey'
 ) {
-  const auth =
-    authType === 'basic'
-      ? createBasicAuth(config.keyId, config.secretKey)
-      : createApiKeyAuth(config.keyId, config.secretKey)
+  let auth: AuthHeaders
+  if (authType === 'basic') {
+    if (config.accessToken !== undefined) {
+      throw new Error('Basic authentication requires keyId and secretKey, not an access token')
+    }
+    auth = createBasicAuth(config.keyId, config.secretKey)
+  } else {
+    auth = createCredentialsAuth(config)
+  }
 
   return async function apiFetch<T>(
     path: string,
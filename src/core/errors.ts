@@ -15,6 +15,10 @@ export const ErrorType = {
   RateLimit: 'rate_limit',
   InsufficientFunds: 'insufficient_funds',
   MarketClosed: 'market_closed',
+  PatternDayTrader: 'pattern_day_trader',
+  WashTrade: 'wash_trade',
+  NotShortable: 'not_shortable',
+  PositionNotFound: 'position_not_found',
   Server: 'server',
   Unknown: 'unknown',
 } as const
@@ -68,6 +72,26 @@ export interface MarketClosedApiError extends BaseApiError {
   status: 403
 }
 
+export interface PatternDayTraderApiError extends BaseApiError {
+  type: typeof ErrorType.PatternDayTrader
+  status: 403
+}
+
+export interface WashTradeApiError extends BaseApiError {
+  type: typeof ErrorType.WashTrade
+  status: 403
+}
+
+export interface NotShortableApiError extends BaseApiError {
+  type: typeof ErrorType.NotShortable
+  status: 403
+}
+
+export interface PositionNotFoundApiError extends BaseApiError {
+  type: typeof ErrorType.PositionNotFound
+  status: 404
+}
+
 export interface ServerApiError extends BaseApiError {
   type: typeof ErrorType.Server
   status: number // 500+
@@ -86,6 +110,10 @@ export type ApiError =
   | RateLimitApiError
   | InsufficientFundsApiError
   | MarketClosedApiError
+  | PatternDayTraderApiError
+  | WashTradeApiError
+  | NotShortableApiError
+  | PositionNotFoundApiError
   | ServerApiError
   | UnknownApiError
 
@@ -237,6 +265,54 @@ export class MarketClosedError extends AlpacaError {
   }
 }
 
+/** Order rejected by pattern day trader protection */
+export class PatternDayTraderError extends AlpacaError {
+  declare readonly type: typeof ErrorType.PatternDayTrader
+  declare readonly status: 403
+
+  constructor(message: string, code: number, requestId?: string) {
+    super(message, ErrorType.PatternDayTrader, code, 403, requestId)
+    this.name = 'PatternDayTraderError'
+    Object.setPrototypeOf(this, PatternDayTraderError.prototype)
+  }
+}
+
+/** Order rejected as a potential wash trade */
+export class WashTradeError extends AlpacaError {
+  declare readonly type: typeof ErrorType.WashTrade
+  declare readonly status: 403
+
+  constructor(message: string, code: number, requestId?: string) {
+    super(message, ErrorType.WashTrade, code, 403, requestId)
+    this.name = 'WashTradeError'
+    Object.setPrototypeOf(this, WashTradeError.prototype)
+  }
+}
+
+/** Asset is not shortable or not easy to borrow */
+export class NotShortableError extends AlpacaError {
+  declare readonly type: typeof ErrorType.NotShortable
+  declare readonly status: 403
+
+  constructor(message: string, code: number, requestId?: string) {
+    super(message, ErrorType.NotShortable, code, 403, requestId)
+    this.name = 'NotShortableError'
+    Object.setPrototypeOf(this, NotShortableError.prototype)
+  }
+}
+
+/** Position does not exist (404) */
+export class PositionNotFoundError extends AlpacaError {
+  declare readonly type: typeof ErrorType.PositionNotFound
+  declare readonly status: 404
+
+  constructor(message: string, code: number, requestId?: string) {
+    super(message, ErrorType.PositionNotFound, code, 404, requestId)
+    this.name = 'PositionNotFoundError'
+    Object.setPrototypeOf(this, PositionNotFoundError.prototype)
+  }
+}
+
 /** Internal server error (500+) */
 export class ServerError extends AlpacaError {
   declare readonly type: typeof ErrorType.Server
@@ -270,6 +346,136 @@ export class NotImplementedError extends AlpacaError {
   }
 }
 
+// =============================================================================
+// Error Code Registry
+// =============================================================================
+
+/**
+ * Maps an Alpaca error code (from the response body) to an error type.
+ *
+ * A mapping only matches responses with the HTTP status of its error type
+ * (401 for `authentication`, 403 for `forbidden`, `insufficient_funds`,
+ * `market_closed`, `pattern_day_trader`, `wash_trade` and `not_shortable`, 404
+ * for `not_found` and `position_not_found`, 422 for `validation`, 429 for
+ * `rate_limit`, 500+ for `server`), so an error's `status` is always the one
+ * the API responded with.
+ */
+export interface ErrorCodeMapping {
+  /** Alpaca error code, e.g. 40310000 */
+  code: number
+  /** Error type to classify matching responses as */
+  type: ErrorType
+  /**
+   * Only match when the message also matches this pattern. Alpaca shares some
+   * codes between several rejections (40310000 covers buying power, PDT, wash trades...).
+   */
+  message?: RegExp
+}
+
+/** Known Alpaca error codes, most specific first */
+const BUILT_IN_ERROR_CODES: readonly ErrorCodeMapping[] = [
+  { code: 40310100, type: ErrorType.PatternDayTrader },
+  { code: 40310000, type: ErrorType.PatternDayTrader, message: /pattern day trad/i },
+  { code: 40310000, type: ErrorType.WashTrade, message: /wash trade/i },
+  {
+    code: 40310000,
+    type: ErrorType.NotShortable,
+    message: /not shortable|cannot be sold short|easy to borrow|hard to borrow/i,
+  },
+  { code: 40310000, type: ErrorType.InsufficientFunds, message: /insufficient/i },
+  { code: 40310000, type: ErrorType.MarketClosed, message: /\bmarket\b.*\bclosed\b/i },
+  { code: 40410000, type: ErrorType.PositionNotFound, message: /position/i },
+]
+
+/** HTTP status of the error types that have a fixed one */
+const ERROR_TYPE_STATUS: Partial<Record<ErrorType, number>> = {
+  [ErrorType.Authentication]: 401,
+  [ErrorType.Forbidden]: 403,
+  [ErrorType.InsufficientFunds]: 403,
+  [ErrorType.MarketClosed]: 403,
+  [ErrorType.PatternDayTrader]: 403,
+  [ErrorType.WashTrade]: 403,
+  [ErrorType.NotShortable]: 403,
+  [ErrorType.NotFound]: 404,
+  [ErrorType.PositionNotFound]: 404,
+  [ErrorType.Validation]: 422,
+  [ErrorType.RateLimit]: 429,
+}
+
+/** User-registered mappings, checked before the built-in ones (latest first) */
+const customErrorCodes: ErrorCodeMapping[] = []
+
+/**
+ * Register an extra error code mapping.
+ *
+ * Custom mappings take precedence over the built-in ones, so they can also be
+ * used to override how a known code is classified.
+ *
+ * @returns A function that removes the mapping again
+ *
+ * @example
+ * ```typescript
+ * registerErrorCode({ code: 40310000, type: 'market_closed', message: /outside market hours/i })
+ * ```
+ */
+export function registerErrorCode(mapping: ErrorCodeMapping): () => void {
+  customErrorCodes.unshift(mapping)
+
+  return () => {
+    const index = customErrorCodes.indexOf(mapping)
+    if (index !== -1) {
+      customErrorCodes.splice(index, 1)
+    }
+  }
+}
+
+/**
+ * Classify an API error response.
+ *
+ * Uses the Alpaca error code together with the HTTP status first, then falls
+ * back to the HTTP status (and, for 403 responses, to the message text).
+ */
+export function classifyError(message: string, code: number, status: number): ErrorType {
+  const mapping = [...customErrorCodes, ...BUILT_IN_ERROR_CODES].find(
+    (m) =>
+      m.code === code && matchesStatus(m.type, status) && (!m.message || m.message.test(message))
+  )
+  if (mapping) {
+    return mapping.type
+  }
+
+  switch (status) {
+    case 401:
+      return ErrorType.Authentication
+    case 403:
+      // Last resort for codes the registry does not know
+      if (message.toLowerCase().includes('insufficient')) {
+        return ErrorType.InsufficientFunds
+      }
+      if (message.toLowerCase().includes('market') && message.toLowerCase().includes('closed')) {
+        return ErrorType.MarketClosed
+      }
+      return ErrorType.Forbidden
+    case 404:
+      return ErrorType.NotFound
+    case 422:
+      return ErrorType.Validation
+    case 429:
+      return ErrorType.RateLimit
+    default:
+      return status >= 500 ? ErrorType.Server : ErrorType.Unknown
+  }
+}
+
+/** Whether a response with this HTTP status can be classified as `type` */
+function matchesStatus(type: ErrorType, status: number): boolean {
+  if (type === ErrorType.Server) {
+    return status >= 500
+  }
+  const expected = ERROR_TYPE_STATUS[type]
+  return expected === undefined || expected === status
+}
+
 // =============================================================================
 // Error Factory Functions
 // =============================================================================
@@ -284,27 +490,32 @@ export function createAlpacaError(
   requestId?: string,
   retryAfter?: number
 ): AlpacaError {
-  switch (status) {
-    case 401:
+  switch (classifyError(message, code, status)) {
+    case ErrorType.Authentication:
       return new AuthenticationError(message, code, requestId)
-    case 403:
-      if (message.toLowerCase().includes('insufficient')) {
-        return new InsufficientFundsError(message, code, requestId)
-      }
-      if (message.toLowerCase().includes('market') && message.toLowerCase().includes('closed')) {
-        return new MarketClosedError(message, code, requestId)
-      }
+    case ErrorType.Forbidden:
       return new ForbiddenError(message, code, requestId)
-    case 404:
+    case ErrorType.NotFound:
       return new NotFoundError(message, code, requestId)
-    case 422:
+    case ErrorType.Validation:
       return new ValidationError(message, code, requestId)
-    case 429:
+    case ErrorType.RateLimit:
       return new RateLimitError(message, code, requestId, retryAfter)
-    default:
-      if (status >= 500) {
-        return new ServerError(message, code, status, requestId)
-      }
+    case ErrorType.InsufficientFunds:
+      return new InsufficientFundsError(message, code, requestId)
+    case ErrorType.MarketClosed:
+      return new MarketClosedError(message, code, requestId)
+    case ErrorType.PatternDayTrader:
+      return new PatternDayTraderError(message, code, requestId)
+    case ErrorType.WashTrade:
+      return new WashTradeError(message, code, requestId)
+    case ErrorType.NotShortable:
+      return new NotShortableError(message, code, requestId)
+    case ErrorType.PositionNotFound:
+      return new PositionNotFoundError(message, code, requestId)
+    case ErrorType.Server:
+      return new ServerError(message, code, status, requestId)
+    case ErrorType.Unknown:
       return new AlpacaError(message, ErrorType.Unknown, code, status, requestId)
   }
 }
@@ -319,29 +530,7 @@ export function createApiError(
   requestId?: string,
   retryAfter?: number
 ): ApiError {
-  switch (status) {
-    case 401:
-      return { type: ErrorType.Authentication, message, code, status: 401, requestId }
-    case 403:
-      if (message.toLowerCase().includes('insufficient')) {
-        return { type: ErrorType.InsufficientFunds, message, code, status: 403, requestId }
-      }
-      if (message.toLowerCase().includes('market') && message.toLowerCase().includes('closed')) {
-        return { type: ErrorType.MarketClosed, message, code, status: 403, requestId }
-      }
-      return { type: ErrorType.Forbidden, message, code, status: 403, requestId }
-    case 404:
-      return { type: ErrorType.NotFound, message, code, status: 404, requestId }
-    case 422:
-      return { type: ErrorType.Validation, message, code, status: 422, requestId }
-    case 429:
-      return { type: ErrorType.RateLimit, message, code, status: 429, requestId, retryAfter }
-    default:
-      if (status >= 500) {
-        return { type: ErrorType.Server, message, code, status, requestId }
-      }
-      return { type: ErrorType.Unknown, message, code, status, requestId }
-  }
+  return createAlpacaError(message, code, status, requestId, retryAfter).toApiError()
 }
 
 /**
@@ -405,4 +594,16 @@ export const isInsufficientFundsError = (e: ApiError): e is InsufficientFundsApi
 export const isMarketClosedError = (e: ApiError): e is MarketClosedApiError =>
   e.type === ErrorType.MarketClosed
 
+export const isPatternDayTraderError = (e: ApiError): e is PatternDayTraderApiError =>
+  e.type === ErrorType.PatternDayTrader
+
+export const isWashTradeError = (e: ApiError): e is WashTradeApiError =>
+  e.type === ErrorType.WashTrade
+
+export const isNotShortableError = (e: ApiError): e is NotShortableApiError =>
+  e.type === ErrorType.NotShortable
+
+export const isPositionNotFoundError = (e: ApiError): e is PositionNotFoundApiError =>
+  e.type === ErrorType.PositionNotFound
+
 export const isServerError = (e: ApiError): e is ServerApiError => e.type === ErrorType.Server
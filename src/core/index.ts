@@ -8,3 +8,7 @@ export * from './errors'
 export * from './auth'
 export * from './client'
 export * from './response'
+export * from './rate-limiter'
+export * from './safe'
+export * from './pagination'
+export * from './option-symbol'
@@ -0,0 +1,135 @@
+/**
+ * OCC option symbols
+ *
+ * Contracts are identified by an OCC (OSI) symbol: the option root, the
+ * expiration as YYMMDD, `C` or `P`, and the strike times 1000 padded to eight
+ * digits. `AAPL240119C00190000` is the AAPL $190 call expiring 2024-01-19.
+ */
+
+export type OptionType = 'call' | 'put'
+
+export interface OptionSymbol {
+  /** Option root exactly as it appears in the symbol (e.g. `AAPL`, `AAPL1`, `SPXW`) */
+  root: string
+  /**
+   * Underlying inferred from the root by dropping the trailing digit(s) that
+   * mark an adjusted contract (`AAPL1` -> `AAPL`). Other non-standard roots
+   * such as `SPXW` are returned unchanged.
+   */
+  underlying: string
+  /** True when the root carries an adjustment digit, e.g. after a split or special dividend */
+  adjusted: boolean
+  /** Expiration date as `YYYY-MM-DD` */
+  expiration: string
+  type: OptionType
+  /** Strike price in dollars, to a precision of 1/1000 */
+  strike: number
+}
+
+export interface FormatOptionSymbolParams {
+  /** Option root; for adjusted contracts this includes the adjustment digit */
+  root: string
+  /** Expiration as `YYYY-MM-DD` or a `Date` (its UTC date is used) */
+  expiration: string | Date
+  type: OptionType
+  strike: number
+}
+
+/** Roots are 1-6 uppercase letters or digits; OSI pads them to six with spaces */
+const ROOT_PATTERN = /^[A-Z0-9]{1,6}$/
+const OCC_PATTERN = /^([A-Z0-9]{1,6}) *(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+
+/** Highest strike the eight-digit field can hold (99999.999) */
+const MAX_STRIKE_THOUSANDTHS = 99_999_999
+
+/** True when year/month/day is a real calendar date */
+function isCalendarDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return (
+    date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+  )
+}
+
+/**
+ * Parse an OCC option symbol. The space-padded OSI form (`AAPL  240119C00190000`)
+ * is accepted as well.
+ *
+ * @throws Error if the symbol is malformed or the expiration is not a real date
+ */
+export function parseOptionSymbol(symbol: string): OptionSymbol {
+  const match = OCC_PATTERN.exec(symbol)
+  if (!match) {
+    throw new Error(
+      `Invalid option symbol "${symbol}": expected ROOT + YYMMDD + C/P + 8-digit strike, e.g. AAPL240119C00190000`
+    )
+  }
+  const [, root = '', yy = '', mm = '', dd = '', type = '', strike = ''] = match
+  if (!isCalendarDate(2000 + Number(yy), Number(mm), Number(dd))) {
+    throw new Error(`Invalid option symbol "${symbol}": 20${yy}-${mm}-${dd} is not a valid date`)
+  }
+  const thousandths = Number(strike)
+  if (thousandths === 0) {
+    throw new Error(`Invalid option symbol "${symbol}": strike must be greater than zero`)
+  }
+
+  const underlying = root.replace(/\d+$/, '')
+  return {
+    root,
+    underlying: underlying === '' ? root : underlying,
+    adjusted: underlying !== '' && underlying !== root,
+    expiration: `20${yy}-${mm}-${dd}`,
+    type: type === 'C' ? 'call' : 'put',
+    strike: thousandths / 1000,
+  }
+}
+
+/** Check whether a string is a well-formed OCC option symbol */
+export function isOptionSymbol(symbol: string): boolean {
+  try {
+    parseOptionSymbol(symbol)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Build an OCC option symbol (without OSI space padding).
+ *
+ * @throws Error if the root, expiration or strike cannot be represented
+ */
+export function formatOptionSymbol(params: FormatOptionSymbolParams): string {
+  const { root, type, strike } = params
+  if (!ROOT_PATTERN.test(root)) {
+    throw new Error(`Invalid option root "${root}": expected 1-6 uppercase letters or digits`)
+  }
+
+  let expiration: string
+  if (params.expiration instanceof Date) {
+    if (Number.isNaN(params.expiration.getTime())) {
+      throw new Error('Invalid option expiration: date is invalid')
+    }
+    expiration = params.expiration.toISOString().slice(0, 10)
+  } else {
+    expiration = params.expiration
+  }
+  const date = DATE_PATTERN.exec(expiration)
+  const [, year = '', month = '', day = ''] = date ?? []
+  if (!date || !isCalendarDate(Number(year), Number(month), Number(day))) {
+    throw new Error(`Invalid option expiration "${expiration}": expected YYYY-MM-DD`)
+  }
+  if (!year.startsWith('20')) {
+    throw new Error(`Invalid option expiration "${expiration}": year must be between 2000 and 2099`)
+  }
+
+  const thousandths = Math.round(strike * 1000)
+  if (!Number.isFinite(strike) || thousandths <= 0 || thousandths > MAX_STRIKE_THOUSANDTHS) {
+    throw new Error(`Invalid option strike ${String(strike)}: must be between 0.001 and 99999.999`)
+  }
+  if (Math.abs(thousandths - strike * 1000) > 1e-6) {
+    throw new Error(`Invalid option strike ${String(strike)}: at most 3 decimal places`)
+  }
+
+  return `${root}${year.slice(2)}${month}${day}${type === 'call' ? 'C' : 'P'}${String(thousandths).padStart(8, '0')}`
+}
@@ -0,0 +1,189 @@
+/**
+ * Auto-pagination helpers
+ *
+ * Wraps paginated endpoints in async iterables that walk every page: either by
+ * following a `next_page_token`, or by moving an endpoint-specific cursor
+ * (an id or a timestamp window) past the last item of each page.
+ */
+
+import type { RequestOptions } from './types'
+
+/** Response shape of endpoints paginated with `next_page_token` */
+export interface TokenPage {
+  next_page_token?: string | null
+}
+
+/**
+ * Async iterable over every item of a paginated endpoint.
+ *
+ * Pages are fetched lazily: breaking out of a `for await` loop stops fetching.
+ */
+export interface Paginator<TItem, TPage> extends AsyncIterable<TItem> {
+  /** Iterate page by page instead of item by item */
+  pages: () => AsyncIterable<TPage>
+  /** Fetch every page and collect all items into one array */
+  toArray: () => Promise<TItem[]>
+}
+
+/**
+ * Create a paginator over a `next_page_token`-paginated endpoint.
+ *
+ * @param fetchPage - Fetches one page. Receives `undefined` for the first page.
+ * @param getItems - Extracts the items of a page.
+ * @param signal - Stops the iteration (rejecting with the abort reason) between pages.
+ *
+ * @example
+ * ```typescript
+ * const articles = paginate(
+ *   (pageToken) => marketData.news.get({ symbols: 'AAPL', page_token: pageToken }),
+ *   (page) => page.news
+ * )
+ *
+ * for await (const article of articles) {
+ *   console.log(article.headline)
+ * }
+ * ```
+ */
+export function paginate<TPage extends TokenPage, TItem>(
+  fetchPage: (pageToken: string | undefined) => Promise<TPage>,
+  getItems: (page: TPage) => Iterable<TItem>,
+  signal?: AbortSignal
+): Paginator<TItem, TPage> {
+  async function* pages(): AsyncGenerator<TPage> {
+    let pageToken: string | undefined
+
+    do {
+      signal?.throwIfAborted()
+      const page = await fetchPage(pageToken)
+      yield page
+      pageToken = page.next_page_token ?? undefined
+    } while (pageToken)
+  }
+
+  async function* items(): AsyncGenerator<TItem> {
+    for await (const page of pages()) {
+      yield* getItems(page)
+    }
+  }
+
+  return {
+    [Symbol.asyncIterator]: () => items(),
+    pages,
+    toArray: async () => {
+      const all: TItem[] = []
+      for await (const item of items()) {
+        all.push(item)
+      }
+      return all
+    },
+  }
+}
+
+/** Options for cursor-based iterators */
+export interface IterateOptions extends RequestOptions {
+  /** Stop after yielding this many items */
+  maxItems?: number
+}
+
+/**
+ * Create a paginator over an endpoint that returns plain arrays and pages with a cursor.
+ *
+ * Cursors may be inclusive (e.g. timestamp windows), so items already yielded
+ * by the previous page are skipped. Iteration stops when `getNextCursor`
+ * returns `undefined`, when a page adds no new items, or after `maxItems`.
+ *
+ * @param fetchPage - Fetches one page. Receives `undefined` for the first page.
+ * @param getNextCursor - Derives the next cursor from the (non-empty) page just fetched.
+ * @param getId - Identifies items for boundary deduplication.
+ *
+ * @example
+ * ```typescript
+ * const activities = paginateByCursor(
+ *   (pageToken) => trading.account.getActivities({ page_size: 100, page_token: pageToken }),
+ *   (page) => (page.length < 100 ? undefined : page[page.length - 1]?.id),
+ *   (activity) => activity.id,
+ *   { maxItems: 1000 }
+ * )
+ * ```
+ */
+export function paginateByCursor<T, TCursor>(
+  fetchPage: (cursor: TCursor | undefined) => Promise<T[]>,
+  getNextCursor: (page: T[]) => TCursor | undefined,
+  getId: (item: T) => string | undefined,
+  options?: IterateOptions
+): Paginator<T, T[]> {
+  const signal = options?.signal
+  const maxItems = options?.maxItems ?? Infinity
+
+  async function* pages(): AsyncGenerator<T[]> {
+    let cursor: TCursor | undefined
+    let previousIds = new Set<string>()
+    let remaining = maxItems
+
+    while (remaining > 0) {
+      signal?.throwIfAborted()
+      const page = await fetchPage(cursor)
+
+      const ids = new Set<string>()
+      const fresh = page.filter((item) => {
+        const id = getId(item)
+        if (id === undefined) {
+          return true
+        }
+        ids.add(id)
+        return !previousIds.has(id)
+      })
+      if (fresh.length === 0) {
+        return
+      }
+
+      const limited = fresh.slice(0, remaining)
+      remaining -= limited.length
+      yield limited
+
+      cursor = getNextCursor(page)
+      if (cursor === undefined) {
+        return
+      }
+      previousIds = ids
+    }
+  }
+
+  async function* items(): AsyncGenerator<T> {
+    for await (const page of pages()) {
+      yield* page
+    }
+  }
+
+  return {
+    [Symbol.asyncIterator]: () => items(),
+    pages,
+    toArray: async () => {
+      const all: T[] = []
+      for await (const item of items()) {
+        all.push(item)
+      }
+      return all
+    },
+  }
+}
+
+/**
+ * Turn the timestamp of a page's last item into the next exclusive window bound.
+ *
+ * Alpaca's `after`/`until` filters are exclusive, so the bound is moved 1ms
+ * outwards to keep items sharing the boundary timestamp; `paginateByCursor`
+ * then skips the ones already yielded.
+ *
+ * @param direction - Sort direction: `'asc'` moves `after` forward, `'desc'` moves `until` back
+ */
+export function nextWindowBound(
+  timestamp: string | null | undefined,
+  direction: 'asc' | 'desc'
+): string | undefined {
+  const time = timestamp ? Date.parse(timestamp) : NaN
+  if (Number.isNaN(time)) {
+    return undefined
+  }
+  return new Date(direction === 'asc' ? time - 1 : time + 1).toISOString()
+}
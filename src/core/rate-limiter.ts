@@ -0,0 +1,263 @@
+/**
+ * Client-side token-bucket rate limiter for Alpaca REST APIs
+ *
+ * Throttles requests before they hit Alpaca's per-account budget and adapts to
+ * the X-RateLimit-* headers returned by the server.
+ */
+
+import { parseRateLimitHeaders } from './response'
+
+/** Priority lanes for queued requests, served highest first */
+export type RequestPriority = 'high' | 'normal' | 'low'
+
+const PRIORITIES: readonly RequestPriority[] = ['high', 'normal', 'low']
+
+/** Alpaca's default per-account budget (requests per minute) */
+const DEFAULT_REQUESTS_PER_MINUTE = 200
+
+const MS_PER_MINUTE = 60_000
+
+/** Maximum time the server can pause the limiter (5 minutes), guards against malicious headers */
+const MAX_BLOCK_MS = 5 * 60 * 1000
+
+export interface RateLimiterOptions {
+  /** Sustained request budget per minute (default: 200). Replaced by X-RateLimit-Limit when seen. */
+  requestsPerMinute?: number
+  /** Maximum number of requests sent back-to-back (default: the per-minute budget) */
+  burst?: number
+}
+
+export interface RateLimiterMetrics {
+  /** Total number of requests waiting for a slot */
+  queueDepth: number
+  /** Waiting requests per priority lane */
+  queueDepthByPriority: Record<RequestPriority, number>
+  /** Request slots currently available */
+  availableTokens: number
+  /** Current requests-per-minute budget */
+  limit: number
+  /** Last X-RateLimit-Remaining value received, if any */
+  remaining?: number
+  /** When the server-side budget resets (epoch milliseconds), if known */
+  resetAt?: number
+}
+
+export interface RateLimiter {
+  /** Wait for a request slot. Queued requests are served by priority, then in FIFO order. */
+  acquire: (priority?: RequestPriority, signal?: AbortSignal) => Promise<void>
+  /** Adapt the budget from a response's X-RateLimit-* and retry-after headers */
+  update: (response: Response) => void
+  /** Get a snapshot of the queue and budget */
+  getMetrics: () => RateLimiterMetrics
+}
+
+interface Waiter {
+  resolve: () => void
+  signal?: AbortSignal
+  onAbort?: () => void
+}
+
+/**
+ * Internal implementation of the rate limiter.
+ */
+class RateLimiterImpl {
+  private limit: number
+  private capacity: number
+  private tokens: number
+  private readonly burst?: number
+  private lastRefill = Date.now()
+  private blockedUntil = 0
+  private remaining?: number
+  private resetAt?: number
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private queues: Record<RequestPriority, Waiter[]> = { high: [], normal: [], low: [] }
+
+  constructor(options: RateLimiterOptions) {
+    this.limit = options.requestsPerMinute ?? DEFAULT_REQUESTS_PER_MINUTE
+    this.burst = options.burst
+    this.capacity = this.burst ?? this.limit
+    this.tokens = this.capacity
+  }
+
+  acquire(priority: RequestPriority = 'normal', signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason as Error)
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve }
+      const queue = this.queues[priority]
+
+      if (signal) {
+        waiter.signal = signal
+        waiter.onAbort = () => {
+          const index = queue.indexOf(waiter)
+          if (index !== -1) {
+            queue.splice(index, 1)
+          }
+          reject(signal.reason as Error)
+        }
+        signal.addEventListener('abort', waiter.onAbort, { once: true })
+      }
+
+      queue.push(waiter)
+      this.drain()
+    })
+  }
+
+  update(response: Response): void {
+    const { limit, remaining, reset } = parseRateLimitHeaders(response.headers)
+    const now = Date.now()
+
+    this.refill()
+
+    if (limit !== undefined && limit > 0 && limit !== this.limit) {
+      this.limit = limit
+      this.capacity = this.burst ?? limit
+      this.tokens = Math.min(this.tokens, this.capacity)
+    }
+
+    if (reset !== undefined) {
+      // X-RateLimit-Reset is a unix timestamp in seconds
+      this.resetAt = reset * 1000
+    }
+
+    if (remaining !== undefined) {
+      this.remaining = remaining
+      // Other processes may share the account budget, so trust the server when it is lower
+      this.tokens = Math.min(this.tokens, remaining)
+      if (remaining <= 0 && this.resetAt !== undefined) {
+        this.blockUntil(this.resetAt, now)
+      }
+    }
+
+    if (response.status === 429) {
+      this.tokens = 0
+      const retryAfter = parseInt(response.headers.get('retry-after') ?? '', 10)
+      if (!Number.isNaN(retryAfter)) {
+        this.blockUntil(now + retryAfter * 1000, now)
+      }
+    }
+
+    // The budget changed, so the next slot may be sooner or later than scheduled
+    this.clearTimer()
+    this.drain()
+  }
+
+  getMetrics(): RateLimiterMetrics {
+    this.refill()
+    return {
+      queueDepth: this.getQueueDepth(),
+      queueDepthByPriority: {
+        high: this.queues.high.length,
+        normal: this.queues.normal.length,
+        low: this.queues.low.length,
+      },
+      availableTokens: Math.floor(this.tokens),
+      limit: this.limit,
+      remaining: this.remaining,
+      resetAt: this.resetAt,
+    }
+  }
+
+  /**
+   * Hand out available tokens to queued requests, then schedule the next drain.
+   */
+  private drain(): void {
+    this.refill()
+
+    while (this.getQueueDepth() > 0 && Date.now() >= this.blockedUntil && this.tokens >= 1) {
+      const waiter = this.dequeue()
+      if (!waiter) {
+        break
+      }
+      this.tokens -= 1
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort)
+      }
+      waiter.resolve()
+    }
+
+    this.scheduleDrain()
+  }
+
+  /**
+   * Schedule a drain for when the next token becomes available.
+   */
+  private scheduleDrain(): void {
+    if (this.timer || this.getQueueDepth() === 0) {
+      return
+    }
+
+    const tokenWait =
+      this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * MS_PER_MINUTE) / this.limit)
+    const delay = Math.max(this.blockedUntil - Date.now(), tokenWait, 0)
+
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.drain()
+    }, delay)
+  }
+
+  private dequeue(): Waiter | undefined {
+    for (const priority of PRIORITIES) {
+      const waiter = this.queues[priority].shift()
+      if (waiter) {
+        return waiter
+      }
+    }
+    return undefined
+  }
+
+  private getQueueDepth(): number {
+    return this.queues.high.length + this.queues.normal.length + this.queues.low.length
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    const elapsed = now - this.lastRefill
+    this.lastRefill = now
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.limit) / MS_PER_MINUTE)
+  }
+
+  private blockUntil(until: number, now: number): void {
+    if (until > now) {
+      this.blockedUntil = Math.max(this.blockedUntil, Math.min(until, now + MAX_BLOCK_MS))
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+}
+
+/**
+ * Create a token-bucket rate limiter.
+ *
+ * Pass the same instance to several clients (or to `createAlpacaClient`) to
+ * share one budget between them.
+ *
+ * @example
+ * ```typescript
+ * const rateLimiter = createRateLimiter({ requestsPerMinute: 200 })
+ *
+ * const trading = createTradingClient({ keyId, secretKey, rateLimiter })
+ * const marketData = createMarketDataClient({ keyId, secretKey, rateLimiter })
+ *
+ * console.log(rateLimiter.getMetrics().queueDepth)
+ * ```
+ */
+export function createRateLimiter(options: RateLimiterOptions = {}): RateLimiter {
+  const impl = new RateLimiterImpl(options)
+
+  return {
+    acquire: (priority, signal) => impl.acquire(priority, signal),
+    update: (response) => {
+      impl.update(response)
+    },
+    getMetrics: () => impl.getMetrics(),
+  }
+}
@@ -5,9 +5,13 @@
  * 1. Converting openapi-fetch errors to AlpacaError instances
  * 2. Extracting request metadata (requestId, retryAfter) from headers
  * 3. Throwing explicit errors for unexpected null data
+ *
+ * They also expose response metadata (request id, rate-limit headers, timing)
+ * for successful calls.
  */
 
 import { createAlpacaError, AlpacaError } from './errors'
+import type { RequestOptions } from './types'
 
 /**
  * Response shape from openapi-fetch
@@ -111,3 +115,98 @@ export function unwrapOptional<T>(result: OpenApiFetchResponse<T>): T | undefine
 
   return result.data
 }
+
+/**
+ * Rate-limit state reported by the X-RateLimit-* response headers
+ */
+export interface RateLimitInfo {
+  /** Requests allowed per window (X-RateLimit-Limit) */
+  limit?: number
+  /** Requests left in the current window (X-RateLimit-Remaining) */
+  remaining?: number
+  /** When the window resets, as a unix timestamp in seconds (X-RateLimit-Reset) */
+  reset?: number
+}
+
+/**
+ * Metadata about a completed API response
+ */
+export interface ResponseMeta {
+  /** Alpaca request id (x-request-id), quote this when contacting support */
+  requestId?: string
+  /** HTTP status code */
+  status: number
+  /** Parsed rate-limit headers */
+  rateLimit: RateLimitInfo
+  /** All response headers */
+  headers: Headers
+  /** Time from the first attempt to the final response, including retries */
+  durationMs: number
+}
+
+/**
+ * Parse a numeric header, returning undefined when missing or malformed
+ */
+function parseNumericHeader(headers: Headers, name: string): number | undefined {
+  const value = headers.get(name)
+  if (value === null) {
+    return undefined
+  }
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * Parse the X-RateLimit-* headers from a response
+ */
+export function parseRateLimitHeaders(headers: Headers): RateLimitInfo {
+  return {
+    limit: parseNumericHeader(headers, 'x-ratelimit-limit'),
+    remaining: parseNumericHeader(headers, 'x-ratelimit-remaining'),
+    reset: parseNumericHeader(headers, 'x-ratelimit-reset'),
+  }
+}
+
+/**
+ * Build response metadata from a fetch Response
+ */
+export function getResponseMeta(response: Response, durationMs: number): ResponseMeta {
+  return {
+    requestId: response.headers.get('x-request-id') ?? undefined,
+    status: response.status,
+    rateLimit: parseRateLimitHeaders(response.headers),
+    headers: response.headers,
+    durationMs,
+  }
+}
+
+/**
+ * Call a wrapped client method and return its data together with response metadata.
+ *
+ * The callback receives request options with `onMeta` set; pass them through to
+ * the client method. `meta` is undefined when no response was recorded, e.g.
+ * when the options were not passed on or the call made no request.
+ *
+ * @example
+ * ```typescript
+ * const { data: order, meta } = await withMeta((options) =>
+ *   trading.orders.create(orderRequest, options)
+ * )
+ * console.log(meta?.requestId, meta?.rateLimit.remaining)
+ * ```
+ */
+export async function withMeta<T>(
+  call: (options: RequestOptions) => Promise<T>,
+  options?: RequestOptions
+): Promise<{ data: T; meta: ResponseMeta | undefined }> {
+  let meta: ResponseMeta | undefined
+  const data = await call({
+    ...options,
+    onMeta: (received) => {
+      meta = received
+      options?.onMeta?.(received)
+    },
+  })
+
+  return { data, meta }
+}
@@ -0,0 +1,60 @@
+/**
+ * Result-returning ("safe") client variants
+ *
+ * Wraps every promise-returning client method so it resolves to a
+ * `Result<T, ApiError>` instead of throwing.
+ */
+
+import { ok, err, toApiError } from './errors'
+import type { Result } from './errors'
+
+/**
+ * Maps a client namespace to its Result-returning twin.
+ *
+ * Promise-returning methods resolve to `Result<T, ApiError>`; other functions
+ * (e.g. iterators) are passed through unchanged; nested namespaces are mapped recursively.
+ */
+export type SafeClient<T> = {
+  [K in keyof T]: T[K] extends (...args: infer A) => Promise<infer R>
+    ? (...args: A) => Promise<Result<R>>
+    : T[K] extends (...args: never[]) => unknown
+      ? T[K]
+      : SafeClient<T[K]>
+}
+
+/**
+ * Create a Result-returning twin of a client's namespaces.
+ *
+ * Errors are converted with `toApiError`, so the `ApiError` discriminated union
+ * can be handled with an exhaustive `switch` on `error.type`.
+ *
+ * @example
+ * ```typescript
+ * const result = await trading.safe.orders.create(order)
+ * if (!result.ok) {
+ *   switch (result.error.type) {
+ *     case 'insufficient_funds':
+ *       // ...
+ *   }
+ * }
+ * ```
+ */
+export function createSafeClient<T extends object>(api: T): SafeClient<T> {
+  const safe: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(api)) {
+    if (typeof value === 'function') {
+      const method = value as (...args: unknown[]) => unknown
+      safe[key] = (...args: unknown[]) => {
+        const result = method(...args)
+        return result instanceof Promise
+          ? result.then(ok, (error: unknown) => err(toApiError(error)))
+          : result
+      }
+    } else if (value !== null && typeof value === 'object') {
+      safe[key] = createSafeClient(value as object)
+    }
+  }
+
+  return safe as SafeClient<T>
+}
@@ -2,15 +2,44 @@
  * Core configuration types for Alpaca SDK
  */
 
+import type { Middleware } from 'openapi-fetch'
+import type { RateLimiter, RequestPriority } from './rate-limiter'
+import type { ResponseMeta } from './response'
+
+/**
+ * Request/response middleware for REST clients.
+ *
+ * `onRequest` hooks run in registration order and may return a modified `Request`,
+ * or a `Response` to short-circuit the network call. `onResponse` hooks run in
+ * reverse order and may return a replacement `Response`.
+ */
+export type { Middleware }
+
 /** Environment for Alpaca API */
 export type AlpacaEnvironment = 'paper' | 'live'
 
-/** Base configuration for all Alpaca clients */
-export interface AlpacaConfig {
+/** Authenticate with an API key pair */
+export interface ApiKeyCredentials {
   /** API Key ID */
   keyId: string
   /** API Secret Key */
   secretKey: string
+  accessToken?: never
+}
+
+/** Authenticate on behalf of a user with an access token issued to your OAuth app */
+export interface OAuthCredentials {
+  /** OAuth access token */
+  accessToken: string
+  keyId?: never
+  secretKey?: never
+}
+
+/** Either an API key pair or an OAuth access token, never both */
+export type AlpacaCredentials = ApiKeyCredentials | OAuthCredentials
+
+/** Client options shared by all Alpaca clients, independent of the credentials */
+export interface AlpacaClientOptions {
   /** Use paper trading environment (default: true) */
   paper?: boolean
   /** Request timeout in milliseconds (default: 30000) */
@@ -19,16 +48,23 @@ export interface AlpacaConfig {
   maxRetries?: number
   /** Custom base URL override */
   baseUrl?: string
+  /** Middleware applied to every REST request, including `.raw` (default: none) */
+  middleware?: Middleware[]
+  /** Client-side rate limiter; share one instance across clients to share a budget */
+  rateLimiter?: RateLimiter
 }
 
+/** Base configuration for all Alpaca clients */
+export type AlpacaConfig = AlpacaCredentials & AlpacaClientOptions
+
 /** Configuration resolved with defaults */
-export interface ResolvedAlpacaConfig {
-  keyId: string
-  secretKey: string
+export type ResolvedAlpacaConfig = AlpacaCredentials & {
   paper: boolean
   timeout: number
   maxRetries: number
   baseUrl: string
+  middleware: Middleware[]
+  rateLimiter?: RateLimiter
 }
 
 /** Request options for individual API calls */
@@ -39,4 +75,8 @@ export interface RequestOptions {
   idempotencyKey?: string
   /** AbortSignal for request cancellation */
   signal?: AbortSignal
+  /** Rate limiter queue priority (default: 'high' for POST/PATCH/PUT/DELETE, 'normal' otherwise) */
+  priority?: RequestPriority
+  /** Called with response metadata (request id, rate-limit headers, timing) once the response arrives */
+  onMeta?: (meta: ResponseMeta) => void
 }
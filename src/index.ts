@@ -23,12 +23,76 @@ export type {
   AccountActivity,
   TradingActivity,
   NonTradeActivity,
+  AccountActivityType,
+  ActivityOfType,
+  NonTradeActivityType,
+  FillActivity,
+  DividendActivity,
+  DividendActivityType,
+  InterestActivity,
+  InterestActivityType,
+  FeeActivity,
+  FeeActivityType,
+  CashTransferActivity,
+  CashTransferActivityType,
   OrderRequest,
   PatchOrderRequest,
   OrderSide as TradingOrderSide,
   OrderType as TradingOrderType,
   TimeInForce as TradingTimeInForce,
   OrderClass as TradingOrderClass,
+  OptionContract,
+  OptionDeliverable,
+  OptionContractsQuery,
+  ExpiringInTheMoneyParams,
+  ExpiringOptionPosition,
+  CryptoWallet,
+  CryptoTransfer,
+  CryptoTransferStatus,
+  CreateCryptoTransferRequest,
+  WhitelistedAddress,
+  WaitForTransferOptions,
+  PerpLeverage,
+  PerpAccountVitals,
+  CorporateActionAnnouncement,
+  CorporateActionAnnouncementsQuery,
+  UsTreasury,
+  UsCorporate,
+  TreasurySubtype,
+  BondStatus,
+  UsTreasuriesQuery,
+  UsCorporatesQuery,
+} from './trading'
+
+// Trading order builder
+export {
+  OrderBuilder,
+  validateOrderRequest,
+  type OrderValue,
+  type TakeProfitLeg,
+  type StopLossLeg,
+} from './trading'
+
+// Multi-leg options strategies
+export {
+  OptionStrategy,
+  buildMultiLegOrder,
+  getMultiLegQuote,
+  type MultiLegOrderLeg,
+  type MultiLegOrderParams,
+  type MultiLegQuote,
+  type LegIntent,
+} from './trading'
+
+// Trading account activity type guards
+export {
+  isActivityOfType,
+  isFillActivity,
+  isNonTradeActivity,
+  isDividendActivity,
+  isInterestActivity,
+  isFeeActivity,
+  isCashTransferActivity,
 } from './trading'
 
 // Market Data - Export client factory and types
@@ -36,6 +100,9 @@ export {
   createMarketDataClient,
   type MarketDataClient,
   type MarketDataClientConfig,
+  type BarCache,
+  type BarCacheFilter,
+  type BarSeriesKey,
 } from './market-data'
 
 export type {
@@ -49,6 +116,7 @@ export type {
   CryptoQuote,
   CryptoSnapshot,
   CryptoOrderbook,
+  CryptoPerpFuturesPricing,
   OptionBar,
   OptionTrade,
   OptionQuote,
@@ -59,6 +127,8 @@ export type {
   MostActive,
   Mover,
   CorporateActions,
+  WithSymbol,
+  SymbolPaginator,
 } from './market-data'
 
 // Broker - Export client factory and types
@@ -85,6 +155,8 @@ export type {
   OrderClass as BrokerOrderClass,
   OrderStatus,
   Position as BrokerPosition,
+  ExerciseRequest,
+  ExerciseResponse,
   Transfer,
   CreateTransferRequest,
   TransferDirection,
@@ -110,16 +182,41 @@ export {
   createTradeUpdatesStream,
   type TradeUpdatesStream,
   type StreamConfig,
+  type OAuthStreamConfig,
   type StreamState,
   // Type guards for streaming messages
   isTrade,
   isQuote,
   isBar,
+  isFillUpdate,
   type Trade,
   type Quote,
   type Bar,
   type TradeUpdate,
+  type TradeUpdateEvent,
+  type FillTradeUpdate,
+  type CanceledTradeUpdate,
+  type OrderTradeUpdate,
+  type TradeUpdatesStreamMessage,
 } from './streaming'
 
 // Unified client
-export { createAlpacaClient, type AlpacaClient, type AlpacaClientConfig } from './client'
+export {
+  createAlpacaClient,
+  type AlpacaClient,
+  type AlpacaClientConfig,
+  type OAuthAlpacaClient,
+} from './client'
+export {
+  submitAndTrack,
+  type SubmitAndTrackOptions,
+  type AwaitTerminalOptions,
+  type TrackedOrder,
+} from './order-tracker'
+export {
+  createAccountStateStore,
+  type AccountStateStore,
+  type AccountStateStoreOptions,
+  type PositionState,
+  type StateDrift,
+} from './account-state-store'
@@ -0,0 +1,278 @@
+/**
+ * Historical bar cache
+ *
+ * Completed days are stored per symbol and day, keyed by market, feed (or
+ * crypto location), adjustment and timeframe. Requests only fetch the days that
+ * are not cached yet. The current session is never cached.
+ *
+ * This module has no Node dependencies; the on-disk `BarCache` lives in
+ * `./disk-bar-cache` and is exported from `@luisjpf/alpaca-sdk/node`.
+ */
+
+/** Identifies a cached bar series. Every field is part of the cache key. */
+export interface BarSeriesKey {
+  market: 'stocks' | 'crypto'
+  symbol: string
+  timeframe: string
+  /** Stock feed, or crypto location (default: 'default') */
+  feed?: string
+  /** Stock corporate action adjustment (default: 'raw') */
+  adjustment?: string
+}
+
+/** Selects cache entries to invalidate. Omitted fields match everything. */
+export interface BarCacheFilter extends Partial<BarSeriesKey> {
+  /** First day to remove (YYYY-MM-DD, inclusive) */
+  from?: string
+  /** Last day to remove (YYYY-MM-DD, inclusive) */
+  to?: string
+}
+
+/**
+ * Storage for cached days of bars. `createBarCache()` from
+ * `@luisjpf/alpaca-sdk/node` stores them on disk; implement this interface to
+ * keep them anywhere else.
+ */
+export interface BarCache {
+  /** Read the cached bars of one day, or undefined when the day is not cached */
+  read: <T>(key: BarSeriesKey, day: string) => Promise<T[] | undefined>
+  /** Store the bars of one completed day */
+  write: (key: BarSeriesKey, day: string, bars: readonly unknown[]) => Promise<void>
+  /** Remove matching days. Resolves to the number of days removed. */
+  invalidate: (filter?: BarCacheFilter) => Promise<number>
+  /** Remove everything from the cache */
+  clear: () => Promise<void>
+}
+
+// =============================================================================
+// Cached Range Requests
+// =============================================================================
+
+/** A bars request the cache can serve */
+export interface CachedBarsRequest {
+  market: 'stocks' | 'crypto'
+  symbols: string[]
+  timeframe: string
+  feed?: string
+  adjustment?: string
+  /** Inclusive start (RFC-3339, or YYYY-MM-DD for the start of that day) */
+  start: string
+  /** Inclusive end (RFC-3339, or YYYY-MM-DD for the end of that day). Default: now. */
+  end?: string
+}
+
+/** Query parameters that decide whether a bars request can be served from the cache */
+interface BarsQuery {
+  timeframe: string
+  start?: string
+  limit?: number
+  page_token?: string
+  sort?: string
+  asof?: string
+  currency?: string
+}
+
+/** Intraday and daily timeframes. Weekly and monthly bars span days that may not be over yet. */
+const CACHEABLE_TIMEFRAME = /^(\d+(T|Min|H|Hour)|1(D|Day))$/
+
+/**
+ * Whether a bars request can be served from the cache.
+ *
+ * Requests without a `start`, requests with a `limit` or `page_token`, descending
+ * requests and `asof`/`currency` conversions always go to the API, so they keep
+ * the API's paging (`next_page_token`).
+ */
+export function isCacheableBarsQuery(query: BarsQuery): query is BarsQuery & { start: string } {
+  return (
+    query.start !== undefined &&
+    query.limit === undefined &&
+    query.page_token === undefined &&
+    query.sort !== 'desc' &&
+    query.asof === undefined &&
+    query.currency === undefined &&
+    CACHEABLE_TIMEFRAME.test(query.timeframe)
+  )
+}
+
+/**
+ * Serve a bars request from the cache, fetching only the days that are missing.
+ *
+ * Days are calendar days in New York for stocks and in UTC for crypto. Only
+ * days before the current one are cached; the current session is always fetched.
+ *
+ * @param fetchRange - Fetches every bar of the given symbols between two instants (inclusive)
+ */
+export async function getCachedBars<T extends { t: string }>(
+  cache: BarCache,
+  request: CachedBarsRequest,
+  fetchRange: (symbols: string[], start: string, end: string) => Promise<Record<string, T[]>>,
+  now: number = Date.now()
+): Promise<Record<string, T[]>> {
+  const timeZone = request.market === 'stocks' ? 'America/New_York' : 'UTC'
+  const startTime = parseBound(request.start, timeZone, 'start')
+  const endTime = Math.min(request.end ? parseBound(request.end, timeZone, 'end') : now, now)
+  const today = toDay(now, timeZone)
+  const keyOf = (symbol: string): BarSeriesKey => ({
+    market: request.market,
+    symbol,
+    timeframe: request.timeframe,
+    feed: request.feed,
+    adjustment: request.adjustment,
+  })
+
+  const completeDays: string[] = []
+  for (
+    let day = toDay(startTime, timeZone);
+    day < today && day <= toDay(endTime, timeZone);
+    day = addDays(day, 1)
+  ) {
+    completeDays.push(day)
+  }
+
+  // Load cached days, and group symbols by the runs of days they are missing
+  const days = new Map<string, Map<string, T[]>>()
+  const missingRuns = new Map<string, { runs: string[][]; symbols: string[] }>()
+
+  for (const symbol of request.symbols) {
+    const symbolDays = new Map<string, T[]>()
+    const runs: string[][] = []
+    let run: string[] | undefined
+
+    for (const day of completeDays) {
+      const bars = await cache.read<T>(keyOf(symbol), day)
+      if (bars) {
+        symbolDays.set(day, bars)
+        run = undefined
+      } else if (run) {
+        run.push(day)
+      } else {
+        run = [day]
+        runs.push(run)
+      }
+    }
+
+    days.set(symbol, symbolDays)
+    if (runs.length > 0) {
+      const runKey = JSON.stringify(runs)
+      const group = missingRuns.get(runKey) ?? { runs, symbols: [] }
+      group.symbols.push(symbol)
+      missingRuns.set(runKey, group)
+    }
+  }
+
+  for (const { runs, symbols } of missingRuns.values()) {
+    for (const run of runs) {
+      const first = run[0] ?? today
+      const last = run[run.length - 1] ?? today
+      const fetched = await fetchRange(
+        symbols,
+        new Date(dayStart(first, timeZone)).toISOString(),
+        new Date(dayStart(addDays(last, 1), timeZone) - 1).toISOString()
+      )
+
+      for (const symbol of symbols) {
+        const byDay = new Map<string, T[]>(run.map((day) => [day, []]))
+        for (const bar of fetched[symbol] ?? []) {
+          byDay.get(toDay(Date.parse(bar.t), timeZone))?.push(bar)
+        }
+        for (const [day, bars] of byDay) {
+          await cache.write(keyOf(symbol), day, bars)
+          days.get(symbol)?.set(day, bars)
+        }
+      }
+    }
+  }
+
+  // The current session is still forming, so it is always fetched and never cached
+  const sessionStart = Math.max(startTime, dayStart(today, timeZone))
+  const live =
+    endTime >= sessionStart
+      ? await fetchRange(
+          request.symbols,
+          new Date(sessionStart).toISOString(),
+          new Date(endTime).toISOString()
+        )
+      : {}
+
+  const result: Record<string, T[]> = {}
+  for (const symbol of request.symbols) {
+    const symbolDays = days.get(symbol)
+    const bars = completeDays.flatMap((day) => symbolDays?.get(day) ?? [])
+    bars.push(...(live[symbol] ?? []))
+    result[symbol] = bars.filter((bar) => {
+      const time = Date.parse(bar.t)
+      return time >= startTime && time <= endTime
+    })
+  }
+  return result
+}
+
+// =============================================================================
+// Calendar Helpers
+// =============================================================================
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>()
+
+/** Calendar day (YYYY-MM-DD) of an instant in a time zone */
+function toDay(time: number, timeZone: string): string {
+  let formatter = dayFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    })
+    dayFormatters.set(timeZone, formatter)
+  }
+  return formatter.format(time)
+}
+
+function addDays(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * 86_400_000).toISOString().slice(0, 10)
+}
+
+/** Instant at which a calendar day starts in a time zone */
+function dayStart(day: string, timeZone: string): number {
+  const utcMidnight = Date.parse(`${day}T00:00:00Z`)
+  // Local midnight is the UTC midnight shifted by the zone's offset at that time
+  const guess = utcMidnight - getOffset(utcMidnight, timeZone)
+  return utcMidnight - getOffset(guess, timeZone)
+}
+
+/** Offset of a time zone from UTC at an instant, in milliseconds */
+function getOffset(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(time)
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0)
+  const wallClock = Date.UTC(
+    part('year'),
+    part('month') - 1,
+    part('day'),
+    part('hour'),
+    part('minute'),
+    part('second')
+  )
+  return wallClock - Math.floor(time / 1000) * 1000
+}
+
+/** Parse a request bound. Plain dates cover the whole day in the market's time zone. */
+function parseBound(value: string, timeZone: string, bound: 'start' | 'end'): number {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return bound === 'start' ? dayStart(value, timeZone) : dayStart(addDays(value, 1), timeZone) - 1
+  }
+  const time = Date.parse(value)
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${bound}: ${value}`)
+  }
+  return time
+}
@@ -6,10 +6,18 @@ import createClient from 'openapi-fetch'
 import {
   type AlpacaConfig,
   resolveConfig,
-  createApiKeyAuth,
+  createCredentialsAuth,
+  createAlpacaFetch,
+  createFetchOptions,
+  createSafeClient,
+  paginate,
+  parseOptionSymbol,
   type RequestOptions,
   unwrap,
 } from '../core'
+import { paginateBySymbol } from './pagination'
+import { getCachedBars, isCacheableBarsQuery } from './bar-cache'
+import type { BarCache } from './bar-cache'
 import type { paths, components, operations } from './generated/market-data-api'
 
 // Stock data types
@@ -26,6 +34,9 @@ export type CryptoQuote = components['schemas']['crypto_quote']
 export type CryptoSnapshot = components['schemas']['crypto_snapshot']
 export type CryptoOrderbook = components['schemas']['crypto_orderbook']
 
+// Crypto perpetual futures types
+export type CryptoPerpFuturesPricing = components['schemas']['crypto_perp_futures_pricing']
+
 // Options data types
 export type OptionBar = components['schemas']['option_bar']
 export type OptionTrade = components['schemas']['option_trade']
@@ -44,49 +55,143 @@ export type Mover = components['schemas']['mover']
 // Corporate actions
 export type CorporateActions = components['schemas']['corporate_actions']
 
-export type MarketDataClientConfig = AlpacaConfig
+export type MarketDataClientConfig = AlpacaConfig & {
+  /**
+   * Cache completed days of historical bars, e.g. on disk with `createBarCache`
+   * from `@luisjpf/alpaca-sdk/node`.
+   * Used by `stocks.getBars`, `stocks.getSymbolBars` and `crypto.getBars`.
+   */
+  barCache?: BarCache
+}
+
+type StockBarsQuery = operations['StockBars']['parameters']['query']
+type CryptoBarsQuery = operations['CryptoBars']['parameters']['query']
+
+/** Location of crypto perpetual futures data (the only one the API serves) */
+const CRYPTO_PERP_LOC = 'global'
+
+/** Page size used to fill the bar cache (the API maximum) */
+const BAR_CACHE_PAGE_SIZE = 10000
 
 /**
  * Create a Market Data API client
  */
 export function createMarketDataClient(config: MarketDataClientConfig) {
   const resolvedConfig = resolveConfig(config, 'marketData')
-  const auth = createApiKeyAuth(resolvedConfig.keyId, resolvedConfig.secretKey)
+  const auth = createCredentialsAuth(resolvedConfig)
 
   const client = createClient<paths>({
     baseUrl: resolvedConfig.baseUrl,
     headers: auth,
+    fetch: createAlpacaFetch(resolvedConfig),
   })
+  client.use(...resolvedConfig.middleware)
+  const fetchOptions = createFetchOptions(resolvedConfig)
+  const { barCache } = config
 
-  return {
-    /** Raw openapi-fetch client for advanced usage */
-    raw: client,
+  /** Serve stock bars from the bar cache, fetching every missing bar in range */
+  function getCachedStockBars(
+    cache: BarCache,
+    params: StockBarsQuery & { start: string },
+    options?: RequestOptions
+  ) {
+    return getCachedBars<StockBar>(
+      cache,
+      {
+        market: 'stocks',
+        symbols: splitSymbols(params.symbols),
+        timeframe: params.timeframe,
+        feed: params.feed,
+        adjustment: params.adjustment,
+        start: params.start,
+        end: params.end,
+      },
+      (symbols, start, end) =>
+        paginateBySymbol(
+          async (pageToken) =>
+            unwrap(
+              await client.GET('/v2/stocks/bars', {
+                params: {
+                  query: {
+                    ...params,
+                    symbols: symbols.join(','),
+                    start,
+                    end,
+                    limit: BAR_CACHE_PAGE_SIZE,
+                    page_token: pageToken,
+                  },
+                },
+                ...fetchOptions(options),
+              })
+            ),
+          (page) => page.bars,
+          options?.signal
+        ).toRecord()
+    )
+  }
 
+  const api = {
     /** Stock market data operations */
     stocks: {
-      /** Get historical bars for multiple symbols */
-      async getBars(
-        params: operations['StockBars']['parameters']['query'],
-        options?: RequestOptions
-      ) {
+      /**
+       * Get historical bars for multiple symbols.
+       *
+       * With a `barCache`, requests with a `start` and no `limit` return every
+       * bar in range in one response (`next_page_token: null`) and only missing
+       * days are fetched. Requests with a `limit` skip the cache and page as usual.
+       */
+      async getBars(params: StockBarsQuery, options?: RequestOptions) {
+        if (barCache && isCacheableBarsQuery(params)) {
+          const bars = await getCachedStockBars(barCache, params, options)
+          return { bars, next_page_token: null }
+        }
         return unwrap(
           await client.GET('/v2/stocks/bars', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
 
-      /** Get historical bars for a single symbol */
+      /**
+       * Iterate historical bars for multiple symbols, following `next_page_token`.
+       * Use `.pages()` for raw pages or `.toRecord()` to merge everything per symbol.
+       */
+      iterateBars(
+        params: operations['StockBars']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return paginateBySymbol(
+          async (pageToken) =>
+            unwrap(
+              await client.GET('/v2/stocks/bars', {
+                params: { query: { ...params, page_token: pageToken } },
+                ...fetchOptions(options),
+              })
+            ),
+          (page) => page.bars,
+          options?.signal
+        )
+      },
+
+      /**
+       * Get historical bars for a single symbol.
+       *
+       * Uses the `barCache` like `getBars`.
+       */
       async getSymbolBars(
         symbol: string,
         params: NonNullable<operations['StockBarSingle']['parameters']['query']>,
         options?: RequestOptions
       ) {
+        if (barCache && isCacheableBarsQuery(params)) {
+          const bars = await getCachedStockBars(barCache, { ...params, symbols: symbol }, options)
+          return { symbol, bars: bars[symbol] ?? [], next_page_token: null }
+        }
         return unwrap(
           await client.GET('/v2/stocks/{symbol}/bars', {
             params: { path: { symbol }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -99,7 +204,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/bars/latest', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -116,7 +221,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/{symbol}/bars/latest', {
             params: { path: { symbol }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -129,11 +234,32 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/trades', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
 
+      /**
+       * Iterate historical trades for multiple symbols, following `next_page_token`.
+       * Use `.pages()` for raw pages or `.toRecord()` to merge everything per symbol.
+       */
+      iterateTrades(
+        params: operations['StockTrades']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return paginateBySymbol(
+          async (pageToken) =>
+            unwrap(
+              await client.GET('/v2/stocks/trades', {
+                params: { query: { ...params, page_token: pageToken } },
+                ...fetchOptions(options),
+              })
+            ),
+          (page) => page.trades,
+          options?.signal
+        )
+      },
+
       /** Get historical trades for a single symbol */
       async getSymbolTrades(
         symbol: string,
@@ -143,7 +269,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/{symbol}/trades', {
             params: { path: { symbol }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -156,7 +282,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/trades/latest', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -173,7 +299,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/{symbol}/trades/latest', {
             params: { path: { symbol }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -186,11 +312,32 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/quotes', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
 
+      /**
+       * Iterate historical quotes for multiple symbols, following `next_page_token`.
+       * Use `.pages()` for raw pages or `.toRecord()` to merge everything per symbol.
+       */
+      iterateQuotes(
+        params: operations['StockQuotes']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return paginateBySymbol(
+          async (pageToken) =>
+            unwrap(
+              await client.GET('/v2/stocks/quotes', {
+                params: { query: { ...params, page_token: pageToken } },
+                ...fetchOptions(options),
+              })
+            ),
+          (page) => page.quotes,
+          options?.signal
+        )
+      },
+
       /** Get historical quotes for a single symbol */
       async getSymbolQuotes(
         symbol: string,
@@ -200,7 +347,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/{symbol}/quotes', {
             params: { path: { symbol }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -213,7 +360,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/quotes/latest', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -230,7 +377,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/{symbol}/quotes/latest', {
             params: { path: { symbol }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -243,7 +390,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/snapshots', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -257,7 +404,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/{symbol}/snapshot', {
             params: { path: { symbol }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -270,7 +417,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/auctions', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -287,7 +434,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/{symbol}/auctions', {
             params: { path: { symbol }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -296,7 +443,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
       async getExchanges(options?: RequestOptions) {
         return unwrap(
           await client.GET('/v2/stocks/meta/exchanges', {
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -310,7 +457,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v2/stocks/meta/conditions/{ticktype}', {
             params: { path: { ticktype }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -318,20 +465,82 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
 
     /** Crypto market data operations */
     crypto: {
-      /** Get historical bars */
+      /**
+       * Get historical bars.
+       *
+       * Uses the `barCache` like `stocks.getBars`, with days in UTC.
+       */
       async getBars(
         loc: 'us' | 'us-1' | 'eu-1',
-        params: operations['CryptoBars']['parameters']['query'],
+        params: CryptoBarsQuery,
         options?: RequestOptions
       ) {
+        if (barCache && isCacheableBarsQuery(params)) {
+          const bars = await getCachedBars<CryptoBar>(
+            barCache,
+            {
+              market: 'crypto',
+              symbols: splitSymbols(params.symbols),
+              timeframe: params.timeframe,
+              feed: loc,
+              start: params.start,
+              end: params.end,
+            },
+            (symbols, start, end) =>
+              paginateBySymbol(
+                async (pageToken) =>
+                  unwrap(
+                    await client.GET('/v1beta3/crypto/{loc}/bars', {
+                      params: {
+                        path: { loc },
+                        query: {
+                          ...params,
+                          symbols: symbols.join(','),
+                          start,
+                          end,
+                          limit: BAR_CACHE_PAGE_SIZE,
+                          page_token: pageToken,
+                        },
+                      },
+                      ...fetchOptions(options),
+                    })
+                  ),
+                (page) => page.bars,
+                options?.signal
+              ).toRecord()
+          )
+          return { bars, next_page_token: null }
+        }
         return unwrap(
           await client.GET('/v1beta3/crypto/{loc}/bars', {
             params: { path: { loc }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
 
+      /**
+       * Iterate historical bars, following `next_page_token`.
+       * Use `.pages()` for raw pages or `.toRecord()` to merge everything per symbol.
+       */
+      iterateBars(
+        loc: 'us' | 'us-1' | 'eu-1',
+        params: operations['CryptoBars']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return paginateBySymbol(
+          async (pageToken) =>
+            unwrap(
+              await client.GET('/v1beta3/crypto/{loc}/bars', {
+                params: { path: { loc }, query: { ...params, page_token: pageToken } },
+                ...fetchOptions(options),
+              })
+            ),
+          (page) => page.bars,
+          options?.signal
+        )
+      },
+
       /** Get latest bars */
       async getLatestBars(
         loc: 'us' | 'us-1' | 'eu-1',
@@ -341,7 +550,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta3/crypto/{loc}/latest/bars', {
             params: { path: { loc }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -355,11 +564,33 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta3/crypto/{loc}/trades', {
             params: { path: { loc }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
 
+      /**
+       * Iterate historical trades, following `next_page_token`.
+       * Use `.pages()` for raw pages or `.toRecord()` to merge everything per symbol.
+       */
+      iterateTrades(
+        loc: 'us' | 'us-1' | 'eu-1',
+        params: operations['CryptoTrades']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return paginateBySymbol(
+          async (pageToken) =>
+            unwrap(
+              await client.GET('/v1beta3/crypto/{loc}/trades', {
+                params: { path: { loc }, query: { ...params, page_token: pageToken } },
+                ...fetchOptions(options),
+              })
+            ),
+          (page) => page.trades,
+          options?.signal
+        )
+      },
+
       /** Get latest trades */
       async getLatestTrades(
         loc: 'us' | 'us-1' | 'eu-1',
@@ -369,7 +600,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta3/crypto/{loc}/latest/trades', {
             params: { path: { loc }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -383,11 +614,33 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta3/crypto/{loc}/quotes', {
             params: { path: { loc }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
 
+      /**
+       * Iterate historical quotes, following `next_page_token`.
+       * Use `.pages()` for raw pages or `.toRecord()` to merge everything per symbol.
+       */
+      iterateQuotes(
+        loc: 'us' | 'us-1' | 'eu-1',
+        params: operations['CryptoQuotes']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return paginateBySymbol(
+          async (pageToken) =>
+            unwrap(
+              await client.GET('/v1beta3/crypto/{loc}/quotes', {
+                params: { path: { loc }, query: { ...params, page_token: pageToken } },
+                ...fetchOptions(options),
+              })
+            ),
+          (page) => page.quotes,
+          options?.signal
+        )
+      },
+
       /** Get latest quotes */
       async getLatestQuotes(
         loc: 'us' | 'us-1' | 'eu-1',
@@ -397,7 +650,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta3/crypto/{loc}/latest/quotes', {
             params: { path: { loc }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -411,7 +664,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta3/crypto/{loc}/snapshots', {
             params: { path: { loc }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -425,7 +678,75 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta3/crypto/{loc}/latest/orderbooks', {
             params: { path: { loc }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
+          })
+        )
+      },
+    },
+
+    /** Crypto perpetual futures market data operations (served from the `global` location) */
+    cryptoPerps: {
+      /** Get latest bars */
+      async getLatestBars(
+        params: operations['CryptoPerpLatestBars']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return unwrap(
+          await client.GET('/v1beta1/crypto-perps/{loc}/latest/bars', {
+            params: { path: { loc: CRYPTO_PERP_LOC }, query: params },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Get latest futures pricing (index and mark price, funding rate, open interest) */
+      async getLatestPricing(
+        params: operations['CryptoPerpLatestFuturesPricing']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return unwrap(
+          await client.GET('/v1beta1/crypto-perps/{loc}/latest/pricing', {
+            params: { path: { loc: CRYPTO_PERP_LOC }, query: params },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Get latest orderbooks */
+      async getLatestOrderbooks(
+        params: operations['CryptoPerpLatestOrderbooks']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return unwrap(
+          await client.GET('/v1beta1/crypto-perps/{loc}/latest/orderbooks', {
+            params: { path: { loc: CRYPTO_PERP_LOC }, query: params },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Get latest quotes */
+      async getLatestQuotes(
+        params: operations['CryptoPerpLatestQuotes']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return unwrap(
+          await client.GET('/v1beta1/crypto-perps/{loc}/latest/quotes', {
+            params: { path: { loc: CRYPTO_PERP_LOC }, query: params },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Get latest trades */
+      async getLatestTrades(
+        params: operations['CryptoPerpLatestTrades']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return unwrap(
+          await client.GET('/v1beta1/crypto-perps/{loc}/latest/trades', {
+            params: { path: { loc: CRYPTO_PERP_LOC }, query: params },
+            ...fetchOptions(options),
           })
         )
       },
@@ -438,36 +759,86 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         params: operations['optionBars']['parameters']['query'],
         options?: RequestOptions
       ) {
+        assertOptionSymbols(params.symbols)
         return unwrap(
           await client.GET('/v1beta1/options/bars', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
 
+      /**
+       * Iterate historical bars, following `next_page_token`.
+       * Use `.pages()` for raw pages or `.toRecord()` to merge everything per symbol.
+       */
+      iterateBars(
+        params: operations['optionBars']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return paginateBySymbol(
+          async (pageToken) => {
+            // Checked per page so a bad symbol rejects the first `next()` instead of throwing here
+            assertOptionSymbols(params.symbols)
+            return unwrap(
+              await client.GET('/v1beta1/options/bars', {
+                params: { query: { ...params, page_token: pageToken } },
+                ...fetchOptions(options),
+              })
+            )
+          },
+          (page) => page.bars,
+          options?.signal
+        )
+      },
+
       /** Get historical trades */
       async getTrades(
         params: operations['OptionTrades']['parameters']['query'],
         options?: RequestOptions
       ) {
+        assertOptionSymbols(params.symbols)
         return unwrap(
           await client.GET('/v1beta1/options/trades', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
 
+      /**
+       * Iterate historical trades, following `next_page_token`.
+       * Use `.pages()` for raw pages or `.toRecord()` to merge everything per symbol.
+       */
+      iterateTrades(
+        params: operations['OptionTrades']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return paginateBySymbol(
+          async (pageToken) => {
+            assertOptionSymbols(params.symbols)
+            return unwrap(
+              await client.GET('/v1beta1/options/trades', {
+                params: { query: { ...params, page_token: pageToken } },
+                ...fetchOptions(options),
+              })
+            )
+          },
+          (page) => page.trades,
+          options?.signal
+        )
+      },
+
       /** Get latest trades */
       async getLatestTrades(
         params: operations['OptionLatestTrades']['parameters']['query'],
         options?: RequestOptions
       ) {
+        assertOptionSymbols(params.symbols)
         return unwrap(
           await client.GET('/v1beta1/options/trades/latest', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -477,10 +848,11 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         params: operations['OptionLatestQuotes']['parameters']['query'],
         options?: RequestOptions
       ) {
+        assertOptionSymbols(params.symbols)
         return unwrap(
           await client.GET('/v1beta1/options/quotes/latest', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -490,10 +862,11 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         params: operations['OptionSnapshots']['parameters']['query'],
         options?: RequestOptions
       ) {
+        assertOptionSymbols(params.symbols)
         return unwrap(
           await client.GET('/v1beta1/options/snapshots', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -507,7 +880,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta1/options/snapshots/{underlying_symbol}', {
             params: { path: { underlying_symbol: underlyingSymbol }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -516,7 +889,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
       async getExchanges(options?: RequestOptions) {
         return unwrap(
           await client.GET('/v1beta1/options/meta/exchanges', {
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -526,7 +899,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta1/options/meta/conditions/{ticktype}', {
             params: { path: { ticktype } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -539,10 +912,28 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta1/news', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
+
+      /**
+       * Iterate news articles, following `next_page_token`.
+       * Use `.pages()` for raw pages or `.toArray()` to collect every article.
+       */
+      iterate(params?: operations['News']['parameters']['query'], options?: RequestOptions) {
+        return paginate(
+          async (pageToken) =>
+            unwrap(
+              await client.GET('/v1beta1/news', {
+                params: { query: { ...params, page_token: pageToken } },
+                ...fetchOptions(options),
+              })
+            ),
+          (page) => page.news,
+          options?.signal
+        )
+      },
     },
 
     /** Screener operations */
@@ -555,7 +946,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta1/screener/stocks/most-actives', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -569,7 +960,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta1/screener/{market_type}/movers', {
             params: { path: { market_type: marketType }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -585,7 +976,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1/corporate-actions', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -601,7 +992,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta1/forex/latest/rates', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -611,7 +1002,7 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta1/forex/rates', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -628,12 +1019,35 @@ export function createMarketDataClient(config: MarketDataClientConfig) {
         return unwrap(
           await client.GET('/v1beta1/logos/{symbol}', {
             params: { path: { symbol }, query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
     },
   }
+
+  return {
+    /** Raw openapi-fetch client for advanced usage */
+    raw: client,
+    ...api,
+    /** Result-returning variants of every method (never throw) */
+    safe: createSafeClient(api),
+  }
+}
+
+/** Reject malformed option contract symbols before they reach the API */
+function assertOptionSymbols(symbols: string): void {
+  for (const symbol of splitSymbols(symbols)) {
+    parseOptionSymbol(symbol)
+  }
+}
+
+/** Split a comma-separated `symbols` parameter */
+function splitSymbols(symbols: string): string[] {
+  return symbols
+    .split(',')
+    .map((symbol) => symbol.trim())
+    .filter((symbol) => symbol.length > 0)
 }
 
 /** Type inference helper for the market data client */
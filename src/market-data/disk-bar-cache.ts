@@ -0,0 +1,140 @@
+/**
+ * On-disk bar cache
+ *
+ * Stores one file per symbol and day under a directory. Node only: exported
+ * from `@luisjpf/alpaca-sdk/node`.
+ */
+
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { BarCache, BarCacheFilter, BarSeriesKey } from './bar-cache'
+
+export type BarCacheFormat = 'json' | 'ndjson'
+
+export interface BarCacheOptions {
+  /** Directory to store cached bars in */
+  directory: string
+  /** File format of cached days (default: 'json') */
+  format?: BarCacheFormat
+}
+
+const DEFAULT_FEED = 'default'
+const DEFAULT_ADJUSTMENT = 'raw'
+
+/**
+ * Create an on-disk bar cache.
+ *
+ * Pass it to `createMarketDataClient({ barCache })` to cache `stocks.getBars`,
+ * `stocks.getSymbolBars` and `crypto.getBars`.
+ *
+ * @example
+ * ```typescript
+ * const barCache = createBarCache({ directory: '.cache/bars' })
+ * const marketData = createMarketDataClient({ keyId, secretKey, barCache })
+ *
+ * // Drop cached AAPL bars after a data correction
+ * await barCache.invalidate({ symbol: 'AAPL', from: '2024-03-01' })
+ * ```
+ */
+export function createBarCache(options: BarCacheOptions): BarCache {
+  const format = options.format ?? 'json'
+
+  const dayPath = (key: BarSeriesKey, day: string) =>
+    join(options.directory, ...getSegments(key), `${day}.${format}`)
+
+  return {
+    read: async <T>(key: BarSeriesKey, day: string) => {
+      let contents: string
+      try {
+        contents = await readFile(dayPath(key, day), 'utf8')
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return undefined
+        }
+        throw error
+      }
+
+      if (format === 'ndjson') {
+        return contents
+          .split('\n')
+          .filter((line) => line.length > 0)
+          .map((line) => JSON.parse(line) as T)
+      }
+      return JSON.parse(contents) as T[]
+    },
+
+    write: async (key: BarSeriesKey, day: string, bars: readonly unknown[]) => {
+      const path = dayPath(key, day)
+      const contents =
+        format === 'ndjson'
+          ? bars.map((bar) => JSON.stringify(bar) + '\n').join('')
+          : JSON.stringify(bars)
+
+      // Write then rename, so readers never see a partial day
+      await mkdir(join(path, '..'), { recursive: true })
+      await writeFile(`${path}.tmp`, contents)
+      await rename(`${path}.tmp`, path)
+    },
+
+    invalidate: (filter = {}) => invalidate(options.directory, filter),
+
+    clear: () => rm(options.directory, { recursive: true, force: true }),
+  }
+}
+
+/**
+ * Directory segments of a series: market/feed/adjustment/timeframe/symbol
+ */
+function getSegments(key: BarSeriesKey): string[] {
+  return [
+    key.market,
+    encodeURIComponent(key.feed ?? DEFAULT_FEED),
+    encodeURIComponent(key.adjustment ?? DEFAULT_ADJUSTMENT),
+    encodeURIComponent(key.timeframe),
+    encodeURIComponent(key.symbol),
+  ]
+}
+
+async function invalidate(directory: string, filter: BarCacheFilter): Promise<number> {
+  const levels = [
+    filter.market,
+    filter.feed,
+    filter.adjustment,
+    filter.timeframe,
+    filter.symbol,
+  ].map((value) => (value === undefined ? undefined : encodeURIComponent(value)))
+
+  const walk = async (dir: string, depth: number): Promise<number> => {
+    const wanted = levels[depth]
+    const entries = depth < levels.length && wanted !== undefined ? [wanted] : await list(dir)
+    let removed = 0
+
+    for (const entry of entries) {
+      if (depth < levels.length) {
+        removed += await walk(join(dir, entry), depth + 1)
+        continue
+      }
+
+      const day = entry.slice(0, 10)
+      if ((filter.from && day < filter.from) || (filter.to && day > filter.to)) {
+        continue
+      }
+      await rm(join(dir, entry), { force: true })
+      removed++
+    }
+    return removed
+  }
+
+  return walk(directory, 0)
+}
+
+async function list(dir: string): Promise<string[]> {
+  try {
+    return await readdir(dir)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return []
+    }
+    throw error
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * Historical market data exporter
+ *
+ * Pages through the market data history endpoints and streams rows as CSV or
+ * NDJSON to a Node `Writable`. Only one page is held in memory at a time, and
+ * progress can be checkpointed to a file so an interrupted export can resume.
+ * Node only: exported from `@luisjpf/alpaca-sdk/node`.
+ */
+
+import { once } from 'node:events'
+import { readFile, rename, writeFile } from 'node:fs/promises'
+import type { Writable } from 'node:stream'
+import type { MarketDataClient } from './client'
+import type { operations } from './generated/market-data-api'
+
+export type ExportAssetClass = 'stocks' | 'crypto' | 'options'
+export type ExportDataType = 'bars' | 'trades' | 'quotes'
+export type ExportFormat = 'csv' | 'ndjson'
+
+export interface ExportOptions {
+  /** Symbols to export. Requests are batched by `symbolsPerRequest`. */
+  symbols: string[]
+  /** Inclusive start of the range (RFC-3339 or YYYY-MM-DD) */
+  start: string
+  /** Inclusive end of the range (default: now) */
+  end?: string
+  /** Asset class to export (default: 'stocks') */
+  assetClass?: ExportAssetClass
+  /** Data to export (default: 'bars'). Historical quotes are not available for options. */
+  dataType?: ExportDataType
+  /** Bar timeframe, e.g. '1Min' or '1Day'. Required for bars. */
+  timeframe?: string
+  /** Output format (default: 'csv') */
+  format?: ExportFormat
+  /** Stock data feed */
+  feed?: operations['StockBars']['parameters']['query']['feed']
+  /** Corporate action adjustment for stock bars */
+  adjustment?: operations['StockBars']['parameters']['query']['adjustment']
+  /** Crypto location (default: 'us') */
+  loc?: 'us' | 'us-1' | 'eu-1'
+  /** Items requested per page (default: 10000, the API maximum) */
+  pageSize?: number
+  /** Symbols per request (default: 100) */
+  symbolsPerRequest?: number
+  /** File to record progress in. An existing checkpoint for the same export is resumed. */
+  checkpointFile?: string
+  /** Abort the export between pages and during requests */
+  signal?: AbortSignal
+  /** Called after every page is written */
+  onProgress?: (progress: ExportProgress) => void
+}
+
+export interface ExportProgress {
+  /** Index of the symbol batch being exported */
+  batch: number
+  /** Total number of symbol batches */
+  batches: number
+  /** Rows written so far, including those of a resumed run */
+  rows: number
+  /** Pages fetched in this run */
+  pages: number
+}
+
+export interface ExportResult {
+  /** Rows written in total, including those of a resumed run */
+  rows: number
+  /** Pages fetched in this run */
+  pages: number
+  /** Whether the export continued from a checkpoint */
+  resumed: boolean
+}
+
+/** Checkpoint file contents */
+interface ExportCheckpoint {
+  version: 1
+  /** Identifies the export the checkpoint belongs to */
+  fingerprint: string
+  batch: number
+  pageToken: string | null
+  rows: number
+  complete: boolean
+}
+
+interface ExportPage {
+  data: Record<string, object[]> | null | undefined
+  nextPageToken: string | null | undefined
+}
+
+const DEFAULT_PAGE_SIZE = 10000
+const DEFAULT_SYMBOLS_PER_REQUEST = 100
+
+/** CSV columns per data type. Fields missing from an item are left empty. */
+const CSV_COLUMNS: Record<ExportDataType, readonly string[]> = {
+  bars: ['symbol', 't', 'o', 'h', 'l', 'c', 'v', 'n', 'vw'],
+  trades: ['symbol', 't', 'x', 'p', 's', 'c', 'i', 'z', 'tks'],
+  quotes: ['symbol', 't', 'ax', 'ap', 'as', 'bx', 'bp', 'bs', 'c', 'z'],
+}
+
+/**
+ * Export historical bars, trades or quotes to a writable stream.
+ *
+ * The output stream is not ended, so several exports can share it. When
+ * resuming, open the output in append mode: rows from the page that was in
+ * flight when the export was interrupted may be written twice.
+ *
+ * @example
+ * ```typescript
+ * import { createWriteStream } from 'node:fs'
+ *
+ * await exportMarketData(marketData, createWriteStream('bars.csv', { flags: 'a' }), {
+ *   symbols: ['AAPL', 'MSFT'],
+ *   timeframe: '1Min',
+ *   start: '2024-01-01',
+ *   end: '2024-12-31',
+ *   checkpointFile: 'bars.checkpoint.json',
+ * })
+ * ```
+ */
+export async function exportMarketData(
+  client: MarketDataClient,
+  output: Writable,
+  options: ExportOptions
+): Promise<ExportResult> {
+  const dataType = options.dataType ?? 'bars'
+  const format = options.format ?? 'csv'
+  const size = options.symbolsPerRequest ?? DEFAULT_SYMBOLS_PER_REQUEST
+
+  if (options.symbols.length === 0) {
+    throw new Error('symbols cannot be empty')
+  }
+  if (dataType === 'bars' && !options.timeframe) {
+    throw new Error('timeframe is required to export bars')
+  }
+  if (options.assetClass === 'options' && dataType === 'quotes') {
+    throw new Error('Historical quotes are not available for options')
+  }
+
+  const batches: string[][] = []
+  for (let i = 0; i < options.symbols.length; i += size) {
+    batches.push(options.symbols.slice(i, i + size))
+  }
+
+  const fingerprint = getFingerprint(options)
+  const checkpoint = options.checkpointFile
+    ? await readCheckpoint(options.checkpointFile, fingerprint)
+    : undefined
+  const resumed = checkpoint !== undefined
+  const state: ExportCheckpoint = checkpoint ?? {
+    version: 1,
+    fingerprint,
+    batch: 0,
+    pageToken: null,
+    rows: 0,
+    complete: false,
+  }
+  let pages = 0
+
+  if (state.complete) {
+    return { rows: state.rows, pages, resumed }
+  }
+
+  // Written with the first page, so a run that fails before its first
+  // checkpoint writes the header again instead of leaving it behind twice
+  let header = !resumed && format === 'csv' ? CSV_COLUMNS[dataType].join(',') + '\n' : ''
+
+  while (state.batch < batches.length) {
+    const symbols = (batches[state.batch] ?? []).join(',')
+
+    do {
+      options.signal?.throwIfAborted()
+      const page = await fetchPage(client, options, symbols, state.pageToken ?? undefined)
+      pages++
+
+      let chunk = header
+      header = ''
+      for (const [symbol, items] of Object.entries(page.data ?? {})) {
+        for (const item of items) {
+          const row = { symbol, ...item } as Record<string, unknown>
+          chunk += format === 'csv' ? toCsvLine(row, CSV_COLUMNS[dataType]) : JSON.stringify(row)
+          chunk += '\n'
+          state.rows++
+        }
+      }
+      if (chunk) {
+        await write(output, chunk, options.signal)
+      }
+
+      if (page.nextPageToken) {
+        state.pageToken = page.nextPageToken
+      } else {
+        state.pageToken = null
+        state.batch++
+      }
+      if (options.checkpointFile) {
+        await writeCheckpoint(options.checkpointFile, state)
+      }
+      options.onProgress?.({ batch: state.batch, batches: batches.length, rows: state.rows, pages })
+    } while (state.pageToken)
+  }
+
+  state.complete = true
+  if (options.checkpointFile) {
+    await writeCheckpoint(options.checkpointFile, state)
+  }
+
+  return { rows: state.rows, pages, resumed }
+}
+
+/**
+ * Fetch one page of the requested data type for a batch of symbols.
+ */
+async function fetchPage(
+  client: MarketDataClient,
+  options: ExportOptions,
+  symbols: string,
+  pageToken: string | undefined
+): Promise<ExportPage> {
+  const query = {
+    symbols,
+    start: options.start,
+    end: options.end,
+    limit: options.pageSize ?? DEFAULT_PAGE_SIZE,
+    page_token: pageToken,
+  }
+  const timeframe = options.timeframe ?? ''
+  const loc = options.loc ?? 'us'
+  const requestOptions = { signal: options.signal }
+
+  switch (options.assetClass ?? 'stocks') {
+    case 'stocks': {
+      const stockQuery = { ...query, feed: options.feed }
+      switch (options.dataType ?? 'bars') {
+        case 'bars': {
+          const { bars, next_page_token } = await client.stocks.getBars(
+            { ...stockQuery, timeframe, adjustment: options.adjustment },
+            requestOptions
+          )
+          return { data: bars, nextPageToken: next_page_token }
+        }
+        case 'trades': {
+          const { trades, next_page_token } = await client.stocks.getTrades(
+            stockQuery,
+            requestOptions
+          )
+          return { data: trades, nextPageToken: next_page_token }
+        }
+        case 'quotes': {
+          const { quotes, next_page_token } = await client.stocks.getQuotes(
+            stockQuery,
+            requestOptions
+          )
+          return { data: quotes, nextPageToken: next_page_token }
+        }
+      }
+      break
+    }
+    case 'crypto':
+      switch (options.dataType ?? 'bars') {
+        case 'bars': {
+          const { bars, next_page_token } = await client.crypto.getBars(
+            loc,
+            { ...query, timeframe },
+            requestOptions
+          )
+          return { data: bars, nextPageToken: next_page_token }
+        }
+        case 'trades': {
+          const { trades, next_page_token } = await client.crypto.getTrades(
+            loc,
+            query,
+            requestOptions
+          )
+          return { data: trades, nextPageToken: next_page_token }
+        }
+        case 'quotes': {
+          const { quotes, next_page_token } = await client.crypto.getQuotes(
+            loc,
+            query,
+            requestOptions
+          )
+          return { data: quotes, nextPageToken: next_page_token }
+        }
+      }
+      break
+    case 'options':
+      switch (options.dataType ?? 'bars') {
+        case 'bars': {
+          const { bars, next_page_token } = await client.options.getBars(
+            { ...query, timeframe },
+            requestOptions
+          )
+          return { data: bars, nextPageToken: next_page_token }
+        }
+        case 'trades': {
+          const { trades, next_page_token } = await client.options.getTrades(query, requestOptions)
+          return { data: trades, nextPageToken: next_page_token }
+        }
+        case 'quotes':
+          break
+      }
+      break
+  }
+
+  throw new Error('Historical quotes are not available for options')
+}
+
+/**
+ * Write a chunk, waiting for the stream to drain when its buffer is full.
+ */
+async function write(output: Writable, chunk: string, signal?: AbortSignal): Promise<void> {
+  if (!output.write(chunk)) {
+    await once(output, 'drain', { signal })
+  }
+}
+
+function toCsvLine(row: Record<string, unknown>, columns: readonly string[]): string {
+  return columns.map((column) => toCsvField(row[column])).join(',')
+}
+
+function toCsvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return ''
+  }
+  const text = Array.isArray(value)
+    ? value.join(' ')
+    : typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value as string | number | boolean)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Identify an export by everything that affects its output.
+ */
+function getFingerprint(options: ExportOptions): string {
+  return JSON.stringify([
+    options.assetClass ?? 'stocks',
+    options.dataType ?? 'bars',
+    options.format ?? 'csv',
+    options.symbols,
+    options.pageSize ?? DEFAULT_PAGE_SIZE,
+    options.symbolsPerRequest ?? DEFAULT_SYMBOLS_PER_REQUEST,
+    options.timeframe,
+    options.start,
+    options.end,
+    options.feed,
+    options.adjustment,
+    options.loc,
+  ])
+}
+
+/**
+ * Read a checkpoint file. Returns undefined when there is none yet.
+ */
+async function readCheckpoint(
+  path: string,
+  fingerprint: string
+): Promise<ExportCheckpoint | undefined> {
+  let contents: string
+  try {
+    contents = await readFile(path, 'utf8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined
+    }
+    throw error
+  }
+
+  const checkpoint = JSON.parse(contents) as ExportCheckpoint
+  if (checkpoint.version !== 1 || checkpoint.fingerprint !== fingerprint) {
+    throw new Error(`Checkpoint ${path} belongs to a different export`)
+  }
+  return checkpoint
+}
+
+/**
+ * Write a checkpoint atomically, so an interruption never leaves a partial file.
+ */
+async function writeCheckpoint(path: string, checkpoint: ExportCheckpoint): Promise<void> {
+  const tempPath = `${path}.tmp`
+  await writeFile(tempPath, JSON.stringify(checkpoint))
+  await rename(tempPath, path)
+}
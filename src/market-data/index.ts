@@ -16,6 +16,9 @@ export type { StockBar, StockTrade, StockQuote, StockSnapshot, StockAuction } fr
 // Crypto data types
 export type { CryptoBar, CryptoTrade, CryptoQuote, CryptoSnapshot, CryptoOrderbook } from './client'
 
+// Crypto perpetual futures types
+export type { CryptoPerpFuturesPricing } from './client'
+
 // Options data types
 export type { OptionBar, OptionTrade, OptionQuote, OptionSnapshot, OptionGreeks } from './client'
 
@@ -28,5 +31,11 @@ export type { MostActive, Mover } from './client'
 // Corporate actions
 export type { CorporateActions } from './client'
 
+// Pagination types
+export type { WithSymbol, SymbolPaginator } from './pagination'
+
+// Bar cache storage (the on-disk cache is exported from '@luisjpf/alpaca-sdk/node')
+export type { BarCache, BarCacheFilter, BarSeriesKey } from './bar-cache'
+
 // Re-export generated types for advanced usage
 export type { paths, components, operations } from './generated/market-data-api'
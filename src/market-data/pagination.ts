@@ -0,0 +1,66 @@
+/**
+ * Auto-pagination for multi-symbol market data history endpoints
+ */
+
+import { paginate } from '../core'
+import type { Paginator, TokenPage } from '../core'
+
+/** A bar, trade or quote tagged with the symbol it belongs to */
+export type WithSymbol<T> = T & { symbol: string }
+
+/**
+ * Paginator over a multi-symbol `{ [symbol]: T[] }` endpoint.
+ *
+ * Iterating yields items one at a time, sorted by symbol then timestamp (Alpaca's order).
+ */
+export interface SymbolPaginator<T, TPage> extends Paginator<WithSymbol<T>, TPage> {
+  /**
+   * Fetch every page and merge the per-symbol arrays.
+   *
+   * A symbol's items can span several pages, so arrays are concatenated rather than replaced.
+   */
+  toRecord: () => Promise<Record<string, T[]>>
+}
+
+/**
+ * Create a paginator over a multi-symbol history endpoint.
+ *
+ * @param fetchPage - Fetches one page. Receives `undefined` for the first page.
+ * @param getRecord - Extracts the `{ [symbol]: T[] }` map of a page.
+ * @param signal - Stops the iteration between pages.
+ */
+export function paginateBySymbol<T extends object, TPage extends TokenPage>(
+  fetchPage: (pageToken: string | undefined) => Promise<TPage>,
+  getRecord: (page: TPage) => Record<string, T[]> | null | undefined,
+  signal?: AbortSignal
+): SymbolPaginator<T, TPage> {
+  const paginator = paginate(
+    fetchPage,
+    function* (page: TPage): Generator<WithSymbol<T>> {
+      for (const [symbol, items] of Object.entries(getRecord(page) ?? {})) {
+        for (const item of items) {
+          yield { ...item, symbol }
+        }
+      }
+    },
+    signal
+  )
+
+  return {
+    ...paginator,
+    toRecord: async () => {
+      const merged: Record<string, T[]> = {}
+      for await (const page of paginator.pages()) {
+        for (const [symbol, items] of Object.entries(getRecord(page) ?? {})) {
+          const existing = merged[symbol]
+          if (existing) {
+            existing.push(...items)
+          } else {
+            merged[symbol] = [...items]
+          }
+        }
+      }
+      return merged
+    },
+  }
+}
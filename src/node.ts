@@ -0,0 +1,22 @@
+/**
+ * @luisjpf/alpaca-sdk/node
+ * Node-only helpers built on the file system and streams
+ */
+
+// Market Data - Historical data exporter
+export {
+  exportMarketData,
+  type ExportOptions,
+  type ExportProgress,
+  type ExportResult,
+  type ExportAssetClass,
+  type ExportDataType,
+  type ExportFormat,
+} from './market-data/exporter'
+
+// Market Data - On-disk bar cache
+export {
+  createBarCache,
+  type BarCacheOptions,
+  type BarCacheFormat,
+} from './market-data/disk-bar-cache'
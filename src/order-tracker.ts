@@ -0,0 +1,270 @@
+/**
+ * Order lifecycle tracking
+ *
+ * Submits an order and follows it to a terminal state. Trade updates from the
+ * WebSocket stream drive the state; while the stream is down the order is
+ * polled over REST, and it is re-fetched after every reconnect so an event
+ * missed during the outage cannot leave the tracker stale. A replaced order is
+ * followed to the order that replaces it.
+ */
+
+import type { RequestOptions } from './core'
+import type { Order, OrderRequest, TradingClient } from './trading'
+import type { OrderBuilder } from './trading/order-builder'
+import type { TradeUpdatesStream } from './streaming'
+
+/** Default interval between REST polls while the stream is disconnected */
+const ORDER_POLL_INTERVAL = 2000
+
+/** Statuses after which an order can no longer change */
+const TERMINAL_ORDER_STATUSES: readonly string[] = [
+  'filled',
+  'canceled',
+  'expired',
+  'rejected',
+  'replaced',
+]
+
+export interface SubmitAndTrackOptions extends RequestOptions {
+  /** Milliseconds between REST polls while the stream is disconnected (default: 2000) */
+  pollIntervalMs?: number
+}
+
+export interface AwaitTerminalOptions {
+  /** Reject if the order is still open after this many milliseconds */
+  timeout?: number
+  /** Stop waiting when aborted; the tracker keeps running */
+  signal?: AbortSignal
+}
+
+export interface TrackedOrder {
+  /** Id of the tracked order; becomes the replacement's id when the order is replaced */
+  readonly id: string
+  /** Latest known state of the order */
+  getOrder: () => Order
+  /** Whether the order has reached filled, canceled, expired or rejected */
+  isTerminal: () => boolean
+  /** Resolve with the order once it reaches a terminal state */
+  awaitTerminal: (options?: AwaitTerminalOptions) => Promise<Order>
+  /** Register a handler called whenever the filled quantity grows without completing the order */
+  onPartialFill: (handler: (order: Order) => void) => void
+  /** Register a handler called on every state change */
+  onUpdate: (handler: (order: Order) => void) => void
+  /** Stop listening and polling; pending `awaitTerminal` calls keep waiting */
+  stop: () => void
+}
+
+/** True once an order can no longer change */
+export function isTerminalOrder(order: Order): boolean {
+  return order.status !== undefined && TERMINAL_ORDER_STATUSES.includes(order.status)
+}
+
+/** True once a tracked order is final; replaced orders are followed to their replacement */
+function isDone(order: Order): boolean {
+  return isTerminalOrder(order) && !(order.status === 'replaced' && order.replaced_by)
+}
+
+/** True when `next` should replace `current`; guards against stale poll results */
+function isNewer(current: Order, next: Order): boolean {
+  if (isTerminalOrder(current)) return false
+  if (isTerminalOrder(next)) return true
+  if (Number(next.filled_qty) < Number(current.filled_qty)) return false
+  const currentTime = Date.parse(current.updated_at ?? '')
+  const nextTime = Date.parse(next.updated_at ?? '')
+  return Number.isNaN(currentTime) || Number.isNaN(nextTime) || nextTime >= currentTime
+}
+
+/**
+ * Submit an order and track it until it is filled, canceled, expired or
+ * rejected. When the order is replaced (`orders.replace()`), tracking moves on
+ * to the order in `replaced_by`, so `awaitTerminal` resolves with the final
+ * state of the replacement. The stream is connected and subscribed if it is
+ * not already.
+ *
+ * @example
+ * ```ts
+ * const tracked = await submitAndTrack(trading, stream, OrderBuilder.market('AAPL').buy(10))
+ * tracked.onPartialFill((order) => console.log(`filled ${order.filled_qty}`))
+ * const order = await tracked.awaitTerminal({ timeout: 60_000 })
+ * ```
+ */
+export async function submitAndTrack(
+  trading: Pick<TradingClient, 'orders'>,
+  stream: TradeUpdatesStream,
+  request: OrderRequest | OrderBuilder,
+  options?: SubmitAndTrackOptions
+): Promise<TrackedOrder> {
+  const { pollIntervalMs = ORDER_POLL_INTERVAL, ...requestOptions } = options ?? {}
+  const partialFillHandlers = new Set<(order: Order) => void>()
+  const updateHandlers = new Set<(order: Order) => void>()
+  const terminalWaiters = new Set<(order: Order) => void>()
+
+  // Listen before submitting so a fill that beats the REST response is not lost
+  const buffered: Order[] = []
+  let current: Order | undefined
+  /** Id being tracked; moves to `replaced_by` when the order is replaced */
+  let trackedId: string | undefined
+  /** Latest update of the order replacing the tracked one, which may arrive first */
+  let replacement: Order | undefined
+  let stopped = false
+  let pollTimer: ReturnType<typeof setTimeout> | null = null
+
+  const apply = (next: Order) => {
+    if (!current) {
+      buffered.push(next)
+      return
+    }
+    if (next.id !== trackedId) {
+      if (next.replaces === trackedId && (!replacement || isNewer(replacement, next))) {
+        replacement = next
+      }
+      return
+    }
+    if (next.id === current.id && !isNewer(current, next)) return
+
+    // Fills of a replacement count from zero
+    const previousFilled = next.id === current.id ? Number(current.filled_qty) : 0
+    current = next
+    for (const handler of updateHandlers) handler(next)
+    if (next.status === 'replaced' && next.replaced_by) {
+      follow(next.replaced_by)
+      return
+    }
+    if (!isTerminalOrder(next) && Number(next.filled_qty) > previousFilled) {
+      for (const handler of partialFillHandlers) handler(next)
+    }
+    if (isTerminalOrder(next)) {
+      stop()
+      for (const resolve of terminalWaiters) resolve(next)
+      terminalWaiters.clear()
+    }
+  }
+
+  /** Track the order that replaced the current one */
+  const follow = (replacedBy: string) => {
+    trackedId = replacedBy
+    const known = replacement?.id === replacedBy ? replacement : undefined
+    replacement = undefined
+    if (known) {
+      apply(known)
+    } else {
+      void refresh()
+    }
+  }
+
+  const refresh = async () => {
+    const id = trackedId
+    if (id === undefined || stopped) return
+    try {
+      apply(await trading.orders.get(id, { signal: requestOptions.signal }))
+    } catch {
+      // Transient failures are retried on the next poll or reconnect
+    }
+  }
+
+  const schedulePoll = () => {
+    pollTimer = setTimeout(() => {
+      void (async () => {
+        if (!stream.isConnected()) await refresh()
+        if (!stopped) schedulePoll()
+      })()
+    }, pollIntervalMs)
+  }
+
+  const removeHandlers = [
+    stream.onTradeUpdate((update) => {
+      apply(update.order)
+    }),
+    stream.onConnect(() => {
+      void refresh()
+    }),
+  ]
+
+  function stop() {
+    stopped = true
+    for (const remove of removeHandlers) remove()
+    if (pollTimer) {
+      clearTimeout(pollTimer)
+      pollTimer = null
+    }
+  }
+
+  stream.connect()
+  stream.subscribe()
+
+  let submitted: Order
+  try {
+    submitted = await trading.orders.create(request, requestOptions)
+  } catch (error) {
+    stop()
+    throw error
+  }
+
+  if (submitted.id === undefined) {
+    stop()
+    throw new Error('Order response did not include an id')
+  }
+  const id = submitted.id
+  current = submitted
+  trackedId = id
+  for (const order of buffered) apply(order)
+  buffered.length = 0
+  if (isDone(current)) {
+    stop()
+  } else if (!stopped) {
+    schedulePoll()
+  }
+
+  const order = () => current ?? submitted
+
+  return {
+    get id() {
+      return trackedId ?? id
+    },
+    getOrder: order,
+    isTerminal: () => isDone(order()),
+    awaitTerminal(waitOptions) {
+      if (isDone(order())) return Promise.resolve(order())
+      return new Promise<Order>((resolve, reject) => {
+        let timer: ReturnType<typeof setTimeout> | undefined
+        const settle = () => {
+          terminalWaiters.delete(onTerminal)
+          waitOptions?.signal?.removeEventListener('abort', onAbort)
+          if (timer) clearTimeout(timer)
+        }
+        const onTerminal = (terminal: Order) => {
+          settle()
+          resolve(terminal)
+        }
+        const onAbort = () => {
+          settle()
+          reject(waitOptions?.signal?.reason as Error)
+        }
+        if (waitOptions?.signal?.aborted) {
+          onAbort()
+          return
+        }
+        terminalWaiters.add(onTerminal)
+        waitOptions?.signal?.addEventListener('abort', onAbort, { once: true })
+        if (waitOptions?.timeout !== undefined) {
+          const timeout = waitOptions.timeout
+          timer = setTimeout(() => {
+            settle()
+            reject(
+              new Error(
+                `Order ${trackedId ?? id} did not reach a terminal state within ${String(timeout)}ms`
+              )
+            )
+          }, timeout)
+        }
+      })
+    },
+    onPartialFill(handler) {
+      partialFillHandlers.add(handler)
+    },
+    onUpdate(handler) {
+      updateHandlers.add(handler)
+    },
+    stop,
+  }
+}
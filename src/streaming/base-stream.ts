@@ -5,7 +5,7 @@
 
 import WebSocket from 'ws'
 import { encode, decode } from '@msgpack/msgpack'
-import type { StreamState, StreamConfig } from './types'
+import type { StreamState, StreamConfig, OAuthStreamConfig } from './types'
 
 /** Reconnection configuration */
 const RECONNECT_INITIAL_DELAY = 1000
@@ -41,7 +41,9 @@ export type StreamEvent =
   | 'quote'
   | 'bar'
   | 'trade_update'
+  | 'stream_message'
   | 'subscription'
+  | 'state_change'
 
 /** Event handler type */
 export type EventHandler<T = unknown> = (data: T) => void
@@ -60,7 +62,7 @@ export type EventHandler<T = unknown> = (data: T) => void
 export abstract class BaseStream {
   protected ws: WebSocket | null = null
   protected state: StreamState = 'disconnected'
-  protected config: StreamConfig
+  protected config: StreamConfig | OAuthStreamConfig
   protected reconnectAttempts = 0
   protected reconnectTimer: ReturnType<typeof setTimeout> | null = null
   protected connectionTimer: ReturnType<typeof setTimeout> | null = null
@@ -69,7 +71,7 @@ export abstract class BaseStream {
   protected pendingMessages: object[] = []
   protected eventHandlers = new Map<StreamEvent, Set<EventHandler>>()
 
-  constructor(config: StreamConfig) {
+  constructor(config: StreamConfig | OAuthStreamConfig) {
     this.config = config
   }
 
@@ -88,6 +90,15 @@ export abstract class BaseStream {
    */
   protected abstract getAuthMessage(): object
 
+  /**
+   * Called when the socket opens. Market data servers send a `connected`
+   * message first and are authenticated in response to it; override to
+   * authenticate immediately instead.
+   */
+  protected onOpen(): void {
+    this.setState('authenticating')
+  }
+
   /**
    * Called after successful authentication to restore subscriptions.
    * Override in subclasses to implement subscription restoration.
@@ -225,8 +236,7 @@ export abstract class BaseStream {
     }
 
     this.ws.onopen = () => {
-      // Wait for server's 'connected' message before authenticating
-      this.setState('authenticating')
+      this.onOpen()
     }
 
     this.ws.onmessage = (event: WebSocket.MessageEvent) => {
@@ -256,7 +266,7 @@ export abstract class BaseStream {
   /**
    * Send the authentication message.
    */
-  private authenticate(): void {
+  protected authenticate(): void {
     this.send(this.getAuthMessage())
   }
 
@@ -295,9 +305,10 @@ export abstract class BaseStream {
   }
 
   /**
-   * Process a single message from the server.
+   * Process a single message from the server. Handles the market data control
+   * messages; override for streams with a different protocol.
    */
-  private processMessage(message: Record<string, unknown>): void {
+  protected processMessage(message: Record<string, unknown>): void {
     const type = message.T as string
 
     // Handle control messages
@@ -315,12 +326,13 @@ export abstract class BaseStream {
     if (type === 'error') {
       const errorMsg = (message.msg as string) || 'Unknown error'
       const errorCode = message.code as number | undefined
-      this.emit('error', new Error(`[${String(errorCode ?? 'unknown')}] ${errorMsg}`))
+      const error = new Error(`[${String(errorCode ?? 'unknown')}] ${errorMsg}`)
 
       // Auth errors should not reconnect
       if (errorCode === 401 || errorCode === 402 || errorCode === 403) {
-        this.shouldReconnect = false
-        this.disconnect()
+        this.onAuthenticationFailed(error)
+      } else {
+        this.emit('error', error)
       }
       return
     }
@@ -334,10 +346,20 @@ export abstract class BaseStream {
     this.handleMessage(message)
   }
 
+  /**
+   * Called when the server rejects the credentials. Emits the error and
+   * disconnects without reconnecting, since retrying cannot succeed.
+   */
+  protected onAuthenticationFailed(error: Error): void {
+    this.emit('error', error)
+    this.shouldReconnect = false
+    this.disconnect()
+  }
+
   /**
    * Called when authentication is successful.
    */
-  private onAuthenticated(): void {
+  protected onAuthenticated(): void {
     this.clearConnectionTimer()
     const wasReconnect = this.reconnectAttempts > 0
     this.setState('connected')
@@ -457,6 +479,7 @@ export abstract class BaseStream {
   private setState(state: StreamState): void {
     if (this.state !== state) {
       this.state = state
+      this.emit('state_change', state)
     }
   }
 }
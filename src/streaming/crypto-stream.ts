@@ -4,6 +4,7 @@
  * Provides real-time crypto trades, quotes, and bars via WebSocket.
  */
 
+import { createWebSocketCredentialsAuth, resolveCredentials } from '../core'
 import { BaseStream } from './base-stream'
 import { SubscriptionManager } from './subscription-manager'
 import {
@@ -11,6 +12,7 @@ import {
   isQuote,
   isBar,
   type CryptoStreamConfig,
+  type OAuthCryptoStreamConfig,
   type CryptoLocation,
   type Trade,
   type Quote,
@@ -60,10 +62,12 @@ export interface CryptoStream {
 class CryptoStreamImpl extends BaseStream {
   private location: CryptoLocation
   private subscriptions = new SubscriptionManager()
+  private authMessage: MarketDataAuth
 
-  constructor(config: CryptoStreamConfig) {
+  constructor(config: CryptoStreamConfig | OAuthCryptoStreamConfig) {
     super(config)
     this.location = config.location ?? 'us'
+    this.authMessage = createWebSocketCredentialsAuth(resolveCredentials(config))
   }
 
   protected getUrl(): string {
@@ -71,11 +75,7 @@ class CryptoStreamImpl extends BaseStream {
   }
 
   protected getAuthMessage(): MarketDataAuth {
-    return {
-      action: 'auth',
-      key: this.config.keyId,
-      secret: this.config.secretKey,
-    }
+    return this.authMessage
   }
 
   protected handleMessage(message: Record<string, unknown>): void {
@@ -187,7 +187,9 @@ class CryptoStreamImpl extends BaseStream {
  * stream.subscribeForTrades(['BTC/USD', 'ETH/USD'])
  * ```
  */
-export function createCryptoStream(config: CryptoStreamConfig): CryptoStream {
+export function createCryptoStream(
+  config: CryptoStreamConfig | OAuthCryptoStreamConfig
+): CryptoStream {
   const impl = new CryptoStreamImpl(config)
 
   return {
@@ -10,14 +10,23 @@ export {
   isTrade,
   isQuote,
   isBar,
+  isFillUpdate,
   type StreamConfig,
+  type OAuthStreamConfig,
   type StreamState,
   type StockStreamConfig,
+  type OAuthStockStreamConfig,
   type StockFeed,
   type CryptoStreamConfig,
+  type OAuthCryptoStreamConfig,
   type CryptoLocation,
   type Trade,
   type Quote,
   type Bar,
   type TradeUpdate,
+  type TradeUpdateEvent,
+  type FillTradeUpdate,
+  type CanceledTradeUpdate,
+  type OrderTradeUpdate,
+  type TradeUpdatesStreamMessage,
 } from './types'
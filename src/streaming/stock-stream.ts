@@ -4,6 +4,7 @@
  * Provides real-time stock trades, quotes, and bars via WebSocket.
  */
 
+import { createWebSocketCredentialsAuth, resolveCredentials } from '../core'
 import { BaseStream } from './base-stream'
 import { SubscriptionManager } from './subscription-manager'
 import {
@@ -11,6 +12,7 @@ import {
   isQuote,
   isBar,
   type StockStreamConfig,
+  type OAuthStockStreamConfig,
   type StockFeed,
   type Trade,
   type Quote,
@@ -60,10 +62,12 @@ export interface StockStream {
 class StockStreamImpl extends BaseStream {
   private feed: StockFeed
   private subscriptions = new SubscriptionManager()
+  private authMessage: MarketDataAuth
 
-  constructor(config: StockStreamConfig) {
+  constructor(config: StockStreamConfig | OAuthStockStreamConfig) {
     super(config)
     this.feed = config.feed ?? 'iex'
+    this.authMessage = createWebSocketCredentialsAuth(resolveCredentials(config))
   }
 
   protected getUrl(): string {
@@ -71,11 +75,7 @@ class StockStreamImpl extends BaseStream {
   }
 
   protected getAuthMessage(): MarketDataAuth {
-    return {
-      action: 'auth',
-      key: this.config.keyId,
-      secret: this.config.secretKey,
-    }
+    return this.authMessage
   }
 
   protected handleMessage(message: Record<string, unknown>): void {
@@ -187,7 +187,7 @@ class StockStreamImpl extends BaseStream {
  * stream.subscribeForTrades(['AAPL', 'MSFT'])
  * ```
  */
-export function createStockStream(config: StockStreamConfig): StockStream {
+export function createStockStream(config: StockStreamConfig | OAuthStockStreamConfig): StockStream {
   const impl = new StockStreamImpl(config)
 
   return {
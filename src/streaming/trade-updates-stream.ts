@@ -5,14 +5,19 @@
  * and other trade-related events.
  */
 
-import WebSocket from 'ws'
-import { encode, decode } from '@msgpack/msgpack'
-import type {
-  StreamConfig,
-  StreamState,
-  TradeUpdate,
-  TradeUpdatesAuth,
-  TradeUpdatesListen,
+import { createTradingStreamAuth, resolveCredentials } from '../core'
+import { BaseStream, type StreamEvent } from './base-stream'
+import {
+  isFillUpdate,
+  type CanceledTradeUpdate,
+  type FillTradeUpdate,
+  type StreamConfig,
+  type OAuthStreamConfig,
+  type StreamState,
+  type TradeUpdate,
+  type TradeUpdatesAuth,
+  type TradeUpdatesListen,
+  type TradeUpdatesStreamMessage,
 } from './types'
 
 /** Paper trading WebSocket URL */
@@ -21,10 +26,8 @@ const PAPER_TRADING_URL = 'wss://paper-api.alpaca.markets/stream'
 /** Live trading WebSocket URL */
 const LIVE_TRADING_URL = 'wss://api.alpaca.markets/stream'
 
-/** Reconnection configuration */
-const RECONNECT_INITIAL_DELAY = 1000
-const RECONNECT_MAX_DELAY = 30000
-const RECONNECT_BACKOFF_MULTIPLIER = 2
+/** Stream carrying order events */
+const TRADE_UPDATES_STREAM = 'trade_updates'
 
 export interface TradeUpdatesStream {
   /** Connect to the WebSocket server */
@@ -37,235 +40,61 @@ export interface TradeUpdatesStream {
   subscribe: () => void
   /** Unsubscribe from trade updates */
   unsubscribe: () => void
-  /** Register a handler for trade update events */
-  onTradeUpdate: (handler: (update: TradeUpdate) => void) => void
+  /** Listen to additional streams by name; their messages are delivered to `onStreamMessage` */
+  listen: (streams: string[]) => void
+  /** Stop listening to streams by name */
+  unlisten: (streams: string[]) => void
+  /** Register a handler for trade update events. Every `on*` method returns a function that removes the handler. */
+  onTradeUpdate: (handler: (update: TradeUpdate) => void) => () => void
+  /** Register a handler for `fill` and `partial_fill` events */
+  onFill: (handler: (update: FillTradeUpdate) => void) => () => void
+  /** Register a handler for `canceled` events */
+  onCanceled: (handler: (update: CanceledTradeUpdate) => void) => () => void
+  /** Register a handler for data messages from every listened stream, including `trade_updates` */
+  onStreamMessage: (handler: (message: TradeUpdatesStreamMessage) => void) => () => void
   /** Register a handler for connection events */
-  onConnect: (handler: () => void) => void
+  onConnect: (handler: () => void) => () => void
   /** Register a handler for disconnection events */
-  onDisconnect: (handler: () => void) => void
+  onDisconnect: (handler: () => void) => () => void
   /** Register a handler for error events */
-  onError: (handler: (error: Error) => void) => void
+  onError: (handler: (error: Error) => void) => () => void
+  /** Register a handler for connection state changes */
+  onStateChange: (handler: (state: StreamState) => void) => () => void
 }
 
-/** Event handler type */
-type EventHandler<T = unknown> = (data: T) => void
-
 /**
  * Internal implementation of the trade updates stream client.
  *
  * The trade updates stream has a different protocol than market data streams:
- * - Authentication uses `authenticate` action with `key_id` and `secret_key`
- * - Subscription uses `listen` action with `streams` array
+ * - Authentication uses `authenticate` action with `key_id` and `secret_key`,
+ *   sent as soon as the socket opens
+ * - Subscription uses `listen` action with the full `streams` array
+ * - Messages are wrapped as `{ stream, data }`, with `authorization` and
+ *   `listening` carrying the control responses
  */
-class TradeUpdatesStreamImpl {
-  private ws: WebSocket | null = null
-  private state: StreamState = 'disconnected'
-  private config: StreamConfig
-  private reconnectAttempts = 0
-  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
-  private shouldReconnect = true
-  private isSubscribed = false
-  private pendingSubscribe = false
-  private eventHandlers = new Map<string, Set<EventHandler>>()
-
-  constructor(config: StreamConfig) {
-    this.config = config
-  }
-
-  private getUrl(): string {
-    return this.config.paper === false ? LIVE_TRADING_URL : PAPER_TRADING_URL
-  }
-
-  getState(): StreamState {
-    return this.state
-  }
-
-  isConnected(): boolean {
-    return this.state === 'connected'
-  }
-
-  connect(): void {
-    if (this.ws && (this.state === 'connecting' || this.state === 'connected')) {
-      return
-    }
-
-    this.shouldReconnect = true
-    this.doConnect()
-  }
-
-  disconnect(): void {
-    this.shouldReconnect = false
-    this.clearReconnectTimer()
-
-    if (this.ws) {
-      this.ws.close()
-      this.ws = null
-    }
-
-    this.setState('disconnected')
-    this.isSubscribed = false
-  }
-
-  subscribe(): void {
-    if (this.state === 'connected') {
-      if (!this.isSubscribed) {
-        this.doSubscribe()
-      }
-    } else if (!this.pendingSubscribe) {
-      // Guard against double-queuing subscriptions
-      this.pendingSubscribe = true
-    }
-  }
-
-  unsubscribe(): void {
-    if (this.state !== 'connected' || !this.isSubscribed) {
-      return
-    }
-
-    const message: TradeUpdatesListen = {
-      action: 'listen',
-      data: {
-        streams: [],
-      },
-    }
-    this.send(message)
-    this.isSubscribed = false
-  }
+class TradeUpdatesStreamImpl extends BaseStream {
+  private streams = new Set<string>()
+  private authMessage: TradeUpdatesAuth
 
-  onTradeUpdate(handler: (update: TradeUpdate) => void): void {
-    this.on('trade_update', handler)
+  constructor(config: StreamConfig | OAuthStreamConfig) {
+    super(config)
+    this.authMessage = createTradingStreamAuth(resolveCredentials(config))
   }
 
-  onConnect(handler: () => void): void {
-    this.on('connected', handler)
-  }
-
-  onDisconnect(handler: () => void): void {
-    this.on('disconnected', handler)
-  }
-
-  onError(handler: (error: Error) => void): void {
-    this.on('error', handler)
-  }
-
-  private on<T = unknown>(event: string, handler: EventHandler<T>): void {
-    if (!this.eventHandlers.has(event)) {
-      this.eventHandlers.set(event, new Set())
-    }
-    this.eventHandlers.get(event)!.add(handler as EventHandler)
-  }
-
-  private emit(event: string, data?: unknown): void {
-    const handlers = this.eventHandlers.get(event)
-    if (handlers) {
-      for (const handler of handlers) {
-        try {
-          handler(data)
-        } catch (error) {
-          // For error handlers, just log to avoid infinite recursion
-          // For other handlers, re-emit as an error event
-          if (event === 'error') {
-            console.error(`Error in ${event} handler:`, error)
-          } else {
-            this.emit(
-              'error',
-              error instanceof Error
-                ? error
-                : new Error(`Error in ${event} handler: ${String(error)}`)
-            )
-          }
-        }
-      }
-    }
-  }
-
-  private doConnect(): void {
-    this.setState('connecting')
-
-    const url = this.getUrl()
-    this.ws = new WebSocket(url)
-
-    if (this.config.useMsgpack) {
-      this.ws.binaryType = 'arraybuffer'
-    }
-
-    this.ws.onopen = () => {
-      this.setState('authenticating')
-      this.authenticate()
-    }
-
-    this.ws.onmessage = (event: WebSocket.MessageEvent) => {
-      this.onMessage(event)
-    }
-
-    this.ws.onerror = (event: WebSocket.ErrorEvent) => {
-      this.emit('error', new Error(event.message || 'WebSocket error'))
-    }
-
-    this.ws.onclose = () => {
-      const wasConnected = this.state === 'connected'
-      this.ws = null
-      this.isSubscribed = false
-
-      if (this.shouldReconnect) {
-        this.scheduleReconnect()
-      } else {
-        this.setState('disconnected')
-      }
-
-      if (wasConnected) {
-        this.emit('disconnected')
-      }
-    }
-  }
-
-  private authenticate(): void {
-    const message: TradeUpdatesAuth = {
-      action: 'authenticate',
-      data: {
-        key_id: this.config.keyId,
-        secret_key: this.config.secretKey,
-      },
-    }
-    this.send(message)
+  protected getUrl(): string {
+    return this.config.paper === false ? LIVE_TRADING_URL : PAPER_TRADING_URL
   }
 
-  private doSubscribe(): void {
-    const message: TradeUpdatesListen = {
-      action: 'listen',
-      data: {
-        streams: ['trade_updates'],
-      },
-    }
-    this.send(message)
-    this.isSubscribed = true
+  protected getAuthMessage(): TradeUpdatesAuth {
+    return this.authMessage
   }
 
-  private onMessage(event: WebSocket.MessageEvent): void {
-    let data: unknown
-
-    try {
-      if (this.config.useMsgpack && event.data instanceof ArrayBuffer) {
-        data = decode(new Uint8Array(event.data))
-      } else if (typeof event.data === 'string') {
-        data = JSON.parse(event.data)
-      } else {
-        return
-      }
-    } catch (error) {
-      this.emit(
-        'error',
-        new Error(
-          `Failed to parse message: ${error instanceof Error ? error.message : String(error)}`
-        )
-      )
-      return
-    }
-
-    this.processMessage(data as Record<string, unknown>)
+  protected onOpen(): void {
+    super.onOpen()
+    this.authenticate()
   }
 
-  private processMessage(message: Record<string, unknown>): void {
+  protected processMessage(message: Record<string, unknown>): void {
     const stream = message.stream as string | undefined
     const data = message.data as Record<string, unknown> | undefined
 
@@ -277,83 +106,108 @@ class TradeUpdatesStreamImpl {
       if (status === 'authorized' && action === 'authenticate') {
         this.onAuthenticated()
       } else if (status === 'unauthorized') {
-        this.emit('error', new Error('Authentication failed'))
-        this.shouldReconnect = false
-        this.disconnect()
+        this.onAuthenticationFailed(new Error('Authentication failed'))
       }
       return
     }
 
     // Handle listening confirmation
     if (stream === 'listening') {
-      // Successfully subscribed
+      this.emit('subscription', data)
       return
     }
 
-    // Handle trade updates
-    if (stream === 'trade_updates' && data) {
-      this.emit('trade_update', data as unknown as TradeUpdate)
-      return
-    }
+    this.handleMessage(message)
   }
 
-  private onAuthenticated(): void {
-    this.setState('connected')
-    this.reconnectAttempts = 0
-    this.emit('connected')
+  protected handleMessage(message: Record<string, unknown>): void {
+    const stream = message.stream
+    if (typeof stream !== 'string' || message.data === undefined) return
 
-    // Process pending subscription
-    if (this.pendingSubscribe) {
-      this.pendingSubscribe = false
-      this.doSubscribe()
+    const streamMessage: TradeUpdatesStreamMessage = { stream, data: message.data }
+    this.emit('stream_message', streamMessage)
+    if (stream === TRADE_UPDATES_STREAM && message.data !== null) {
+      this.emit('trade_update', message.data as TradeUpdate)
     }
   }
 
-  private send(message: object): void {
-    if (this.ws?.readyState !== WebSocket.OPEN) {
-      return
+  /**
+   * Listen to the stored streams on every authentication, before `connected`
+   * handlers run. The set outlives `disconnect()`, so streams listened to
+   * while disconnected are sent on the next `connect()`.
+   */
+  protected onAuthenticated(): void {
+    if (this.streams.size > 0) {
+      this.sendListen()
     }
+    super.onAuthenticated()
+  }
 
-    if (this.config.useMsgpack) {
-      this.ws.send(encode(message))
-    } else {
-      this.ws.send(JSON.stringify(message))
-    }
+  listen(streams: string[]): void {
+    const size = this.streams.size
+    for (const stream of streams) this.streams.add(stream)
+    if (this.streams.size !== size && this.isConnected()) this.sendListen()
   }
 
-  private scheduleReconnect(): void {
-    this.clearReconnectTimer()
-    this.setState('disconnected')
+  unlisten(streams: string[]): void {
+    const size = this.streams.size
+    for (const stream of streams) this.streams.delete(stream)
+    if (this.streams.size !== size && this.isConnected()) this.sendListen()
+  }
 
-    const delay = Math.min(
-      RECONNECT_INITIAL_DELAY * Math.pow(RECONNECT_BACKOFF_MULTIPLIER, this.reconnectAttempts),
-      RECONNECT_MAX_DELAY
-    )
+  onTradeUpdate(handler: (update: TradeUpdate) => void): () => void {
+    return this.addHandler('trade_update', handler)
+  }
 
-    this.reconnectAttempts++
+  onFill(handler: (update: FillTradeUpdate) => void): () => void {
+    return this.onTradeUpdate((update) => {
+      if (isFillUpdate(update)) handler(update)
+    })
+  }
 
-    // If we were subscribed, mark for re-subscription after reconnect
-    if (this.isSubscribed) {
-      this.pendingSubscribe = true
-      this.isSubscribed = false
-    }
+  onCanceled(handler: (update: CanceledTradeUpdate) => void): () => void {
+    return this.onTradeUpdate((update) => {
+      if (update.event === 'canceled') handler(update)
+    })
+  }
+
+  onStreamMessage(handler: (message: TradeUpdatesStreamMessage) => void): () => void {
+    return this.addHandler('stream_message', handler)
+  }
+
+  onConnect(handler: () => void): () => void {
+    return this.addHandler('connected', handler)
+  }
 
-    this.reconnectTimer = setTimeout(() => {
-      this.doConnect()
-    }, delay)
+  onDisconnect(handler: () => void): () => void {
+    return this.addHandler('disconnected', handler)
   }
 
-  private clearReconnectTimer(): void {
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer)
-      this.reconnectTimer = null
+  onError(handler: (error: Error) => void): () => void {
+    return this.addHandler('error', handler)
+  }
+
+  onStateChange(handler: (state: StreamState) => void): () => void {
+    return this.addHandler('state_change', handler)
+  }
+
+  /** Register a handler and return a function that removes it */
+  private addHandler(event: StreamEvent, handler: (data: never) => void): () => void {
+    this.on(event, handler)
+    return () => {
+      this.off(event, handler)
     }
   }
 
-  private setState(state: StreamState): void {
-    if (this.state !== state) {
-      this.state = state
+  /** The server replaces the listened set with each `listen` message, so always send all of it */
+  private sendListen(): void {
+    const message: TradeUpdatesListen = {
+      action: 'listen',
+      data: {
+        streams: [...this.streams],
+      },
     }
+    this.send(message)
   }
 }
 
@@ -372,14 +226,20 @@ class TradeUpdatesStreamImpl {
  * })
  *
  * stream.onTradeUpdate((update) => {
- *   console.log(`Order ${update.event}: ${JSON.stringify(update.order)}`)
+ *   console.log(`Order ${update.order.id} ${update.event}`)
+ * })
+ *
+ * stream.onFill((fill) => {
+ *   console.log(`${fill.order.symbol}: ${fill.qty} @ ${fill.price}, position ${fill.position_qty}`)
  * })
  *
  * stream.connect()
  * stream.subscribe()
  * ```
  */
-export function createTradeUpdatesStream(config: StreamConfig): TradeUpdatesStream {
+export function createTradeUpdatesStream(
+  config: StreamConfig | OAuthStreamConfig
+): TradeUpdatesStream {
   const impl = new TradeUpdatesStreamImpl(config)
 
   return {
@@ -391,22 +251,24 @@ export function createTradeUpdatesStream(config: StreamConfig): TradeUpdatesStre
     },
     isConnected: () => impl.isConnected(),
     subscribe: () => {
-      impl.subscribe()
+      impl.listen([TRADE_UPDATES_STREAM])
     },
     unsubscribe: () => {
-      impl.unsubscribe()
-    },
-    onTradeUpdate: (handler) => {
-      impl.onTradeUpdate(handler)
-    },
-    onConnect: (handler) => {
-      impl.onConnect(handler)
+      impl.unlisten([TRADE_UPDATES_STREAM])
     },
-    onDisconnect: (handler) => {
-      impl.onDisconnect(handler)
+    listen: (streams) => {
+      impl.listen(streams)
     },
-    onError: (handler) => {
-      impl.onError(handler)
+    unlisten: (streams) => {
+      impl.unlisten(streams)
     },
+    onTradeUpdate: (handler) => impl.onTradeUpdate(handler),
+    onFill: (handler) => impl.onFill(handler),
+    onCanceled: (handler) => impl.onCanceled(handler),
+    onStreamMessage: (handler) => impl.onStreamMessage(handler),
+    onConnect: (handler) => impl.onConnect(handler),
+    onDisconnect: (handler) => impl.onDisconnect(handler),
+    onError: (handler) => impl.onError(handler),
+    onStateChange: (handler) => impl.onStateChange(handler),
   }
 }
@@ -2,11 +2,20 @@
  * Streaming types
  */
 
+import type { ApiKeyCredentials, OAuthCredentials, TradingStreamAuthMessage } from '../core'
+import type { Order } from '../trading'
+
 export type StreamState = 'disconnected' | 'connecting' | 'authenticating' | 'connected' | 'error'
 
-export interface StreamConfig {
-  keyId: string
-  secretKey: string
+/** Stream configuration authenticated with an API key pair (`keyId`/`secretKey`) */
+export interface StreamConfig extends ApiKeyCredentials {
+  paper?: boolean
+  /** Use MessagePack encoding instead of JSON */
+  useMsgpack?: boolean
+}
+
+/** Stream configuration authenticated with an OAuth `accessToken` */
+export interface OAuthStreamConfig extends OAuthCredentials {
   paper?: boolean
   /** Use MessagePack encoding instead of JSON */
   useMsgpack?: boolean
@@ -28,6 +37,14 @@ export interface StockStreamConfig extends StreamConfig {
   feed?: StockFeed
 }
 
+/**
+ * Configuration for stock data streaming with an OAuth access token
+ */
+export interface OAuthStockStreamConfig extends OAuthStreamConfig {
+  /** Stock data feed to use. Defaults to 'iex'. */
+  feed?: StockFeed
+}
+
 /**
  * Crypto data locations:
  * - `us` - Alpaca US exchange
@@ -44,6 +61,14 @@ export interface CryptoStreamConfig extends StreamConfig {
   location?: CryptoLocation
 }
 
+/**
+ * Configuration for crypto data streaming with an OAuth access token
+ */
+export interface OAuthCryptoStreamConfig extends OAuthStreamConfig {
+  /** Crypto exchange location. Defaults to 'us'. */
+  location?: CryptoLocation
+}
+
 export interface StreamEventHandlers<T> {
   onConnect?: () => void
   onDisconnect?: () => void
@@ -91,20 +116,89 @@ export interface Bar {
   vw: number // VWAP
 }
 
-export interface TradeUpdate {
-  event: string
-  order: unknown
+/**
+ * Trade update event types:
+ * - `fill` / `partial_fill` - the order was completely / partially filled
+ * - `new`, `pending_new` - the order was routed to / is awaiting the exchange
+ * - `canceled`, `expired`, `done_for_day`, `replaced`, `rejected`, `stopped`,
+ *   `suspended`, `calculated` - status changes
+ * - `pending_cancel`, `pending_replace`, `order_cancel_rejected`,
+ *   `order_replace_rejected` - progress of a cancel or replace request
+ */
+export type TradeUpdateEvent =
+  | 'new'
+  | 'fill'
+  | 'partial_fill'
+  | 'canceled'
+  | 'expired'
+  | 'done_for_day'
+  | 'replaced'
+  | 'rejected'
+  | 'pending_new'
+  | 'stopped'
+  | 'pending_cancel'
+  | 'pending_replace'
+  | 'calculated'
+  | 'suspended'
+  | 'order_replace_rejected'
+  | 'order_cancel_rejected'
+
+interface TradeUpdateBase {
+  event: TradeUpdateEvent
+  /** Order state after the event */
+  order: Order
   position_qty?: string
   price?: string
   qty?: string
   timestamp?: string
 }
 
+/**
+ * A `fill` or `partial_fill` event; always carries the execution details
+ */
+export interface FillTradeUpdate extends TradeUpdateBase {
+  event: 'fill' | 'partial_fill'
+  /** Execution price of this fill */
+  price: string
+  /** Quantity filled by this execution */
+  qty: string
+  /** Position size after this fill (negative when short) */
+  position_qty: string
+  timestamp: string
+}
+
+/**
+ * A `canceled` event
+ */
+export interface CanceledTradeUpdate extends TradeUpdateBase {
+  event: 'canceled'
+  timestamp: string
+}
+
+/**
+ * Any other order status event
+ */
+export interface OrderTradeUpdate extends TradeUpdateBase {
+  event: Exclude<TradeUpdateEvent, FillTradeUpdate['event'] | CanceledTradeUpdate['event']>
+}
+
+/**
+ * Message from the trade updates stream, discriminated by `event`
+ */
+export type TradeUpdate = FillTradeUpdate | CanceledTradeUpdate | OrderTradeUpdate
+
 /**
  * Message types for market data streams (stocks, crypto)
  */
 export type MarketDataMessage = Trade | Quote | Bar
 
+/**
+ * Type guard to check if a trade update is a `fill` or `partial_fill`.
+ */
+export function isFillUpdate(update: TradeUpdate): update is FillTradeUpdate {
+  return update.event === 'fill' || update.event === 'partial_fill'
+}
+
 /**
  * Type guard to check if a message is a Trade.
  * Validates both the discriminant (T) and the symbol (S) property.
@@ -167,14 +261,17 @@ export interface MarketDataAuth {
 }
 
 /**
- * Authentication message for trade updates stream
+ * Authentication message for trade updates stream (built by `createTradingStreamAuth`)
  */
-export interface TradeUpdatesAuth {
-  action: 'authenticate'
-  data: {
-    key_id: string
-    secret_key: string
-  }
+export type TradeUpdatesAuth = TradingStreamAuthMessage
+
+/**
+ * Data message from any stream the trade updates connection listens to
+ */
+export interface TradeUpdatesStreamMessage {
+  /** Stream name, e.g. `trade_updates` */
+  stream: string
+  data: unknown
 }
 
 /**
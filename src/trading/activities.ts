@@ -0,0 +1,81 @@
+/**
+ * Account activity types narrowed by `activity_type`, plus type guards
+ */
+
+import type { components } from './generated/trading-api'
+
+export type TradingActivity = components['schemas']['TradingActivities']
+export type NonTradeActivity = components['schemas']['NonTradeActivities']
+export type AccountActivity = TradingActivity | NonTradeActivity
+export type AccountActivityType = components['schemas']['ActivityType']
+
+/** Activity types reported as non-trade activities (everything except fills) */
+export type NonTradeActivityType = Exclude<AccountActivityType, 'FILL'>
+
+/** Dividend activity types, including capital gain, fee and withholding entries */
+export type DividendActivityType = Extract<AccountActivityType, `DIV${string}`>
+
+/** Interest activity types, including NRA and tax withholding entries */
+export type InterestActivityType = Extract<AccountActivityType, `INT${string}`>
+
+/** Fee activity types (regulatory/passthrough fees and cash fees) */
+export type FeeActivityType = 'FEE' | 'CFEE'
+
+/** Cash deposit and withdrawal activity types */
+export type CashTransferActivityType = 'CSD' | 'CSW' | 'TRANS'
+
+export type FillActivity = TradingActivity & { activity_type: 'FILL' }
+export type DividendActivity = NonTradeActivity & { activity_type: DividendActivityType }
+export type InterestActivity = NonTradeActivity & { activity_type: InterestActivityType }
+export type FeeActivity = NonTradeActivity & { activity_type: FeeActivityType }
+export type CashTransferActivity = NonTradeActivity & { activity_type: CashTransferActivityType }
+
+/**
+ * Activity shape for a given activity type: fills are trading activities,
+ * every other type is a non-trade activity carrying that `activity_type`.
+ */
+export type ActivityOfType<T extends AccountActivityType> = T extends 'FILL'
+  ? FillActivity
+  : NonTradeActivity & { activity_type: T }
+
+const FEE_ACTIVITY_TYPES: readonly string[] = ['FEE', 'CFEE'] satisfies FeeActivityType[]
+const CASH_TRANSFER_ACTIVITY_TYPES: readonly string[] = [
+  'CSD',
+  'CSW',
+  'TRANS',
+] satisfies CashTransferActivityType[]
+
+/** Type guard to check if an activity has the given activity type */
+export function isActivityOfType<T extends AccountActivityType>(
+  activity: AccountActivity,
+  activityType: T
+): activity is ActivityOfType<T> {
+  return activity.activity_type === activityType
+}
+
+/** Type guard to check if an activity is an order fill */
+export const isFillActivity = (activity: AccountActivity): activity is FillActivity =>
+  activity.activity_type === 'FILL'
+
+/** Type guard to check if an activity is a non-trade activity (anything but a fill) */
+export const isNonTradeActivity = (activity: AccountActivity): activity is NonTradeActivity =>
+  activity.activity_type !== undefined && activity.activity_type !== 'FILL'
+
+/** Type guard to check if an activity is a dividend entry (`DIV`, `DIVCGL`, `DIVNRA`, ...) */
+export const isDividendActivity = (activity: AccountActivity): activity is DividendActivity =>
+  activity.activity_type?.startsWith('DIV') === true
+
+/** Type guard to check if an activity is an interest entry (`INT`, `INTNRA`, `INTTW`) */
+export const isInterestActivity = (activity: AccountActivity): activity is InterestActivity =>
+  activity.activity_type?.startsWith('INT') === true
+
+/** Type guard to check if an activity is a fee (`FEE`, `CFEE`) */
+export const isFeeActivity = (activity: AccountActivity): activity is FeeActivity =>
+  activity.activity_type !== undefined && FEE_ACTIVITY_TYPES.includes(activity.activity_type)
+
+/** Type guard to check if an activity is a cash deposit, withdrawal or transfer */
+export const isCashTransferActivity = (
+  activity: AccountActivity
+): activity is CashTransferActivity =>
+  activity.activity_type !== undefined &&
+  CASH_TRANSFER_ACTIVITY_TYPES.includes(activity.activity_type)
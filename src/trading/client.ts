@@ -6,13 +6,23 @@ import createClient from 'openapi-fetch'
 import {
   type AlpacaConfig,
   resolveConfig,
-  createApiKeyAuth,
+  createCredentialsAuth,
+  createAlpacaFetch,
+  createFetchOptions,
+  createSafeClient,
+  nextWindowBound,
+  paginate,
+  paginateByCursor,
+  type IterateOptions,
   type RequestOptions,
   unwrap,
   unwrapList,
   unwrapOptional,
 } from '../core'
+import { sleep } from '../core/sleep'
 import type { paths, components, operations } from './generated/trading-api'
+import type { AccountActivityType, ActivityOfType } from './activities'
+import type { OrderBuilder } from './order-builder'
 
 // Re-export schema types for consumers
 export type Account = components['schemas']['Account']
@@ -27,10 +37,67 @@ export type AccountConfigurations = components['schemas']['AccountConfigurations
 // Asset type from the Assets schema
 export type Asset = components['schemas']['Assets']
 
-// Activity types - union of trading and non-trade activities
-export type TradingActivity = components['schemas']['TradingActivities']
-export type NonTradeActivity = components['schemas']['NonTradeActivities']
-export type AccountActivity = TradingActivity | NonTradeActivity
+// Option contract types
+export type OptionContract = components['schemas']['OptionContract']
+export type OptionDeliverable = components['schemas']['OptionDeliverable']
+export type OptionContractsQuery = NonNullable<
+  operations['get-options-contracts']['parameters']['query']
+>
+
+/** Parameters for `positions.listExpiringInTheMoney` */
+export interface ExpiringInTheMoneyParams {
+  /**
+   * Resolves latest prices for the underlying symbols,
+   * e.g. from `marketData.stocks.getLatestTrades`
+   */
+  underlyingPrices: (symbols: string[]) => Promise<Record<string, number>> | Record<string, number>
+  /** Expiration date to look for (YYYY-MM-DD, default: today in New York) */
+  date?: string
+}
+
+/** A long option position that expires in the money */
+export interface ExpiringOptionPosition {
+  position: Position
+  contract: OptionContract
+  underlyingPrice: number
+  /** Per-share intrinsic value: underlying minus strike for calls, strike minus underlying for puts */
+  intrinsicValue: number
+}
+
+// Corporate action announcement types
+export type CorporateActionAnnouncement =
+  operations['get-v2-corporate_actions-announcements']['responses'][200]['content']['application/json'][number]
+export type CorporateActionAnnouncementsQuery =
+  operations['get-v2-corporate_actions-announcements']['parameters']['query']
+
+// Fixed income types
+export type UsTreasury = components['schemas']['us_treasury']
+export type UsCorporate = components['schemas']['us_corporate']
+export type TreasurySubtype = components['schemas']['treasury_subtype']
+export type BondStatus = components['schemas']['bond_status']
+export type UsTreasuriesQuery = NonNullable<operations['UsTreasuries']['parameters']['query']>
+export type UsCorporatesQuery = NonNullable<operations['UsCorporates']['parameters']['query']>
+
+// Crypto wallet types
+export type CryptoWallet = components['schemas']['CryptoWallet']
+export type CryptoTransfer = components['schemas']['CryptoTransfer']
+export type CryptoTransferStatus = components['schemas']['CryptoTransferStatus']
+export type CreateCryptoTransferRequest = components['schemas']['CreateCryptoTransferRequest']
+export type WhitelistedAddress = components['schemas']['WhitelistedAddress']
+
+// Perpetual futures types
+export type PerpLeverage =
+  operations['getCryptoPerpAccountLeverage']['responses'][200]['content']['application/json']
+export type PerpAccountVitals =
+  operations['getCryptoPerpAccountVitals']['responses'][200]['content']['application/json']
+
+/** Options for `wallets.waitForTransfer` */
+export interface WaitForTransferOptions extends RequestOptions {
+  /** Delay between status checks in milliseconds (default: 5000) */
+  intervalMs?: number
+  /** Give up after this many milliseconds (default: wait indefinitely) */
+  timeoutMs?: number
+}
 
 // Order-related types
 export type OrderSide = components['schemas']['OrderSide']
@@ -48,29 +115,47 @@ export type PatchOrderRequest = components['schemas']['PatchOrderRequest']
 
 export type TradingClientConfig = AlpacaConfig
 
+/** Alpaca's default page size for GET /v2/orders */
+const ORDERS_PAGE_SIZE = 50
+
+/** Alpaca's default (and maximum) page size for GET /v2/account/activities */
+const ACTIVITIES_PAGE_SIZE = 100
+
+/** Longest `since`..`until` range the corporate action announcements endpoint accepts, in days */
+const ANNOUNCEMENTS_WINDOW_DAYS = 90
+
+/** Default delay between status checks in `wallets.waitForTransfer` */
+const TRANSFER_POLL_INTERVAL = 5000
+
+/** Crypto transfer statuses that will not change anymore */
+const TERMINAL_TRANSFER_STATUSES: readonly CryptoTransferStatus[] = ['COMPLETE', 'FAILED']
+
+/** Formats the current date in the options market's time zone (YYYY-MM-DD) */
+const MARKET_DATE_FORMAT = new Intl.DateTimeFormat('en-CA', { timeZone: 'America/New_York' })
+
 /**
  * Create a Trading API client
  */
 export function createTradingClient(config: TradingClientConfig) {
   const resolvedConfig = resolveConfig(config, 'trading')
-  const auth = createApiKeyAuth(resolvedConfig.keyId, resolvedConfig.secretKey)
+  const auth = createCredentialsAuth(resolvedConfig)
 
   const client = createClient<paths>({
     baseUrl: resolvedConfig.baseUrl,
     headers: auth,
+    fetch: createAlpacaFetch(resolvedConfig),
   })
+  client.use(...resolvedConfig.middleware)
+  const fetchOptions = createFetchOptions(resolvedConfig)
 
-  return {
-    /** Raw openapi-fetch client for advanced usage */
-    raw: client,
-
+  const api = {
     /** Account operations */
     account: {
       /** Get account information */
       async get(options?: RequestOptions) {
         return unwrap(
           await client.GET('/v2/account', {
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -79,7 +164,7 @@ export function createTradingClient(config: TradingClientConfig) {
       async getConfigurations(options?: RequestOptions) {
         return unwrap(
           await client.GET('/v2/account/configurations', {
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -92,7 +177,7 @@ export function createTradingClient(config: TradingClientConfig) {
         return unwrap(
           await client.PATCH('/v2/account/configurations', {
             body: updates,
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -105,9 +190,51 @@ export function createTradingClient(config: TradingClientConfig) {
         return unwrapList(
           await client.GET('/v2/account/activities', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /**
+       * Iterate account activities across all pages, following `page_token`.
+       * Bound the range with `after`/`until`, or stop early with `maxItems`.
+       */
+      iterateActivities(
+        params?: operations['getAccountActivities']['parameters']['query'],
+        options?: IterateOptions
+      ) {
+        const pageSize = params?.page_size ?? ACTIVITIES_PAGE_SIZE
+        return paginateByCursor(
+          async (pageToken: string | undefined) =>
+            unwrapList(
+              await client.GET('/v2/account/activities', {
+                params: { query: { ...params, page_size: pageSize, page_token: pageToken } },
+                ...fetchOptions(options),
+              })
+            ),
+          (page) => (page.length < pageSize ? undefined : page[page.length - 1]?.id),
+          (activity) => activity.id,
+          options
+        )
+      },
+
+      /**
+       * Get account activities of a single type. The result is narrowed to
+       * that type, e.g. `getActivitiesByType('FILL')` resolves to `FillActivity[]`.
+       */
+      async getActivitiesByType<T extends AccountActivityType>(
+        activityType: T,
+        params?: operations['getAccountActivitiesByActivityType']['parameters']['query'],
+        options?: RequestOptions
+      ): Promise<ActivityOfType<T>[]> {
+        const activities = unwrapList(
+          await client.GET('/v2/account/activities/{activity_type}', {
+            params: { path: { activity_type: activityType }, query: params },
+            ...fetchOptions(options),
           })
         )
+        // The endpoint only returns entries of the requested type
+        return activities as ActivityOfType<T>[]
       },
 
       /** Get portfolio history */
@@ -118,7 +245,7 @@ export function createTradingClient(config: TradingClientConfig) {
         return unwrap(
           await client.GET('/v2/account/portfolio/history', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -134,17 +261,51 @@ export function createTradingClient(config: TradingClientConfig) {
         return unwrapList(
           await client.GET('/v2/orders', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
 
+      /**
+       * Iterate orders across all pages by moving the `after`/`until` window past
+       * the last order of each page. Orders on a page boundary are only yielded once.
+       * Bound the range with `after`/`until`, or stop early with `maxItems`.
+       */
+      iterate(
+        params?: operations['getAllOrders']['parameters']['query'],
+        options?: IterateOptions
+      ) {
+        const limit = params?.limit ?? ORDERS_PAGE_SIZE
+        const direction = params?.direction ?? 'desc'
+        return paginateByCursor(
+          async (bound: string | undefined) =>
+            unwrapList(
+              await client.GET('/v2/orders', {
+                params: {
+                  query: {
+                    ...params,
+                    limit,
+                    ...(bound && (direction === 'asc' ? { after: bound } : { until: bound })),
+                  },
+                },
+                ...fetchOptions(options),
+              })
+            ),
+          (page) =>
+            page.length < limit
+              ? undefined
+              : nextWindowBound(page[page.length - 1]?.submitted_at, direction),
+          (order) => order.id,
+          options
+        )
+      },
+
       /** Get order by ID */
       async get(orderId: string, options?: RequestOptions) {
         return unwrap(
           await client.GET('/v2/orders/{order_id}', {
             params: { path: { order_id: orderId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -154,17 +315,20 @@ export function createTradingClient(config: TradingClientConfig) {
         return unwrap(
           await client.GET('/v2/orders:by_client_order_id', {
             params: { query: { client_order_id: clientOrderId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
 
-      /** Create a new order */
-      async create(order: OrderRequest, options?: RequestOptions) {
+      /**
+       * Create a new order. Pass an `OrderBuilder` to have it validated
+       * locally before it is sent.
+       */
+      async create(order: OrderRequest | OrderBuilder, options?: RequestOptions) {
         return unwrap(
           await client.POST('/v2/orders', {
-            body: order,
-            signal: options?.signal,
+            body: 'build' in order ? order.build() : order,
+            ...fetchOptions(options),
           })
         )
       },
@@ -175,7 +339,7 @@ export function createTradingClient(config: TradingClientConfig) {
           await client.PATCH('/v2/orders/{order_id}', {
             params: { path: { order_id: orderId } },
             body: updates,
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -185,7 +349,7 @@ export function createTradingClient(config: TradingClientConfig) {
         unwrapOptional(
           await client.DELETE('/v2/orders/{order_id}', {
             params: { path: { order_id: orderId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -194,7 +358,7 @@ export function createTradingClient(config: TradingClientConfig) {
       async cancelAll(options?: RequestOptions) {
         return unwrapList(
           await client.DELETE('/v2/orders', {
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -206,7 +370,7 @@ export function createTradingClient(config: TradingClientConfig) {
       async list(options?: RequestOptions) {
         return unwrapList(
           await client.GET('/v2/positions', {
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -216,7 +380,7 @@ export function createTradingClient(config: TradingClientConfig) {
         return unwrap(
           await client.GET('/v2/positions/{symbol_or_asset_id}', {
             params: { path: { symbol_or_asset_id: symbolOrAssetId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -233,7 +397,7 @@ export function createTradingClient(config: TradingClientConfig) {
               path: { symbol_or_asset_id: symbolOrAssetId },
               query: params,
             },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -246,9 +410,106 @@ export function createTradingClient(config: TradingClientConfig) {
         return unwrapList(
           await client.DELETE('/v2/positions', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /**
+       * Exercise a held option contract. All available contracts of the position are exercised.
+       * Requests between market close and midnight are rejected.
+       */
+      async exercise(symbolOrContractId: string, options?: RequestOptions): Promise<void> {
+        unwrapOptional(
+          await client.POST('/v2/positions/{symbol_or_contract_id}/exercise', {
+            params: { path: { symbol_or_contract_id: symbolOrContractId } },
+            // Success responses have an empty body
+            parseAs: 'text',
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /**
+       * Submit a do-not-exercise instruction, so an in-the-money contract is not
+       * exercised automatically at expiry
+       */
+      async doNotExercise(symbolOrContractId: string, options?: RequestOptions): Promise<void> {
+        unwrapOptional(
+          await client.POST('/v2/positions/{symbol_or_contract_id}/do-not-exercise', {
+            params: { path: { symbol_or_contract_id: symbolOrContractId } },
+            // Success responses have an empty body
+            parseAs: 'text',
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /**
+       * List long option positions that expire today and are in the money.
+       *
+       * Looks up the contract of every option position, then prices the
+       * underlyings of the expiring ones with `params.underlyingPrices`.
+       *
+       * @example
+       * ```typescript
+       * const expiring = await trading.positions.listExpiringInTheMoney({
+       *   underlyingPrices: async (symbols) => {
+       *     const { trades } = await marketData.stocks.getLatestTrades({ symbols: symbols.join(',') })
+       *     return Object.fromEntries(Object.entries(trades).map(([symbol, trade]) => [symbol, trade.p]))
+       *   },
+       * })
+       * ```
+       */
+      async listExpiringInTheMoney(
+        params: ExpiringInTheMoneyParams,
+        options?: RequestOptions
+      ): Promise<ExpiringOptionPosition[]> {
+        const date = params.date ?? MARKET_DATE_FORMAT.format(Date.now())
+        const positions = unwrapList(
+          await client.GET('/v2/positions', {
+            ...fetchOptions(options),
           })
+        ).filter((position) => position.asset_class === 'us_option' && position.side === 'long')
+
+        const contracts = await Promise.all(
+          positions.map(async (position) =>
+            unwrap(
+              await client.GET('/v2/options/contracts/{symbol_or_id}', {
+                params: { path: { symbol_or_id: position.symbol } },
+                ...fetchOptions(options),
+              })
+            )
+          )
         )
+        const expiring = positions
+          .map((position, i) => ({ position, contract: contracts[i] }))
+          .filter(
+            (entry): entry is { position: Position; contract: OptionContract } =>
+              entry.contract?.expiration_date === date
+          )
+        if (expiring.length === 0) {
+          return []
+        }
+
+        const prices = await params.underlyingPrices([
+          ...new Set(expiring.map(({ contract }) => contract.underlying_symbol)),
+        ])
+
+        const inTheMoney: ExpiringOptionPosition[] = []
+        for (const { position, contract } of expiring) {
+          const underlyingPrice = prices[contract.underlying_symbol]
+          if (underlyingPrice === undefined) {
+            throw new Error(`No price for underlying ${contract.underlying_symbol}`)
+          }
+          const strike = Number(contract.strike_price)
+          const intrinsicValue =
+            contract.type === 'call' ? underlyingPrice - strike : strike - underlyingPrice
+          if (intrinsicValue > 0) {
+            inTheMoney.push({ position, contract, underlyingPrice, intrinsicValue })
+          }
+        }
+        return inTheMoney
       },
     },
 
@@ -262,7 +523,7 @@ export function createTradingClient(config: TradingClientConfig) {
         return unwrapList(
           await client.GET('/v2/assets', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -272,7 +533,48 @@ export function createTradingClient(config: TradingClientConfig) {
         return unwrap(
           await client.GET('/v2/assets/{symbol_or_asset_id}', {
             params: { path: { symbol_or_asset_id: symbolOrAssetId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
+          })
+        )
+      },
+    },
+
+    /** Option contract operations */
+    options: {
+      /**
+       * List option contracts.
+       * By default only active contracts expiring before the upcoming weekend are returned.
+       */
+      async listContracts(params?: OptionContractsQuery, options?: RequestOptions) {
+        return unwrap(
+          await client.GET('/v2/options/contracts', {
+            params: { query: params },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Iterate option contracts across every page, following `next_page_token` */
+      iterateContracts(params?: OptionContractsQuery, options?: RequestOptions) {
+        return paginate(
+          async (pageToken) =>
+            unwrap(
+              await client.GET('/v2/options/contracts', {
+                params: { query: { ...params, page_token: pageToken } },
+                ...fetchOptions(options),
+              })
+            ),
+          (page) => page.option_contracts,
+          options?.signal
+        )
+      },
+
+      /** Get an option contract by symbol or ID */
+      async getContract(symbolOrId: string, options?: RequestOptions) {
+        return unwrap(
+          await client.GET('/v2/options/contracts/{symbol_or_id}', {
+            params: { path: { symbol_or_id: symbolOrId } },
+            ...fetchOptions(options),
           })
         )
       },
@@ -284,7 +586,7 @@ export function createTradingClient(config: TradingClientConfig) {
       async get(options?: RequestOptions) {
         return unwrap(
           await client.GET('/v2/clock', {
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -300,7 +602,7 @@ export function createTradingClient(config: TradingClientConfig) {
         return unwrapList(
           await client.GET('/v2/calendar', {
             params: { query: params },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -312,7 +614,7 @@ export function createTradingClient(config: TradingClientConfig) {
       async list(options?: RequestOptions) {
         return unwrapList(
           await client.GET('/v2/watchlists', {
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -322,7 +624,7 @@ export function createTradingClient(config: TradingClientConfig) {
         return unwrap(
           await client.GET('/v2/watchlists/{watchlist_id}', {
             params: { path: { watchlist_id: watchlistId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -332,7 +634,7 @@ export function createTradingClient(config: TradingClientConfig) {
         return unwrap(
           await client.POST('/v2/watchlists', {
             body: { name: params.name, symbols: params.symbols ?? [] },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -347,7 +649,7 @@ export function createTradingClient(config: TradingClientConfig) {
           await client.PUT('/v2/watchlists/{watchlist_id}', {
             params: { path: { watchlist_id: watchlistId } },
             body: { name: params.name, symbols: params.symbols ?? [] },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -358,7 +660,7 @@ export function createTradingClient(config: TradingClientConfig) {
           await client.POST('/v2/watchlists/{watchlist_id}', {
             params: { path: { watchlist_id: watchlistId } },
             body: { symbol },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -368,7 +670,7 @@ export function createTradingClient(config: TradingClientConfig) {
         return unwrap(
           await client.DELETE('/v2/watchlists/{watchlist_id}/{symbol}', {
             params: { path: { watchlist_id: watchlistId, symbol } },
-            signal: options?.signal,
+            ...fetchOptions(options),
           })
         )
       },
@@ -378,12 +680,509 @@ export function createTradingClient(config: TradingClientConfig) {
         unwrapOptional(
           await client.DELETE('/v2/watchlists/{watchlist_id}', {
             params: { path: { watchlist_id: watchlistId } },
-            signal: options?.signal,
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Get watchlist by name */
+      async getByName(name: string, options?: RequestOptions) {
+        return unwrap(
+          await client.GET('/v2/watchlists:by_name', {
+            params: { query: { name } },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /**
+       * Update a watchlist by name. Pass a new `name` in `params` to rename it.
+       * The API replaces the symbol list on every update, so when `symbols` is
+       * omitted the current symbols are fetched first and kept.
+       */
+      async updateByName(
+        name: string,
+        params: { name?: string; symbols?: string[] },
+        options?: RequestOptions
+      ) {
+        let symbols = params.symbols
+        if (symbols === undefined) {
+          const current = unwrap(
+            await client.GET('/v2/watchlists:by_name', {
+              params: { query: { name } },
+              ...fetchOptions(options),
+            })
+          )
+          symbols = (current.assets ?? []).flatMap((asset) => (asset.symbol ? [asset.symbol] : []))
+        }
+        return unwrap(
+          await client.PUT('/v2/watchlists:by_name', {
+            params: { query: { name } },
+            body: { name: params.name ?? name, symbols },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Add symbol to watchlist by name */
+      async addSymbolByName(name: string, symbol: string, options?: RequestOptions) {
+        return unwrap(
+          await client.POST('/v2/watchlists:by_name', {
+            params: { query: { name } },
+            body: { symbol },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Delete a watchlist by name. Returns void on success (204 No Content). */
+      async deleteByName(name: string, options?: RequestOptions): Promise<void> {
+        unwrapOptional(
+          await client.DELETE('/v2/watchlists:by_name', {
+            params: { query: { name } },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /**
+       * Create a watchlist, or replace the symbols of the existing one with that name.
+       * Safe to repeat: the list ends up holding exactly `symbols`.
+       */
+      async upsert(name: string, symbols: string[], options?: RequestOptions) {
+        const replaced = await client.PUT('/v2/watchlists:by_name', {
+          params: { query: { name } },
+          body: { name, symbols },
+          ...fetchOptions(options),
+        })
+        if (replaced.response.status !== 404) {
+          return unwrap(replaced)
+        }
+        return unwrap(
+          await client.POST('/v2/watchlists', {
+            body: { name, symbols },
+            ...fetchOptions(options),
+          })
+        )
+      },
+    },
+
+    /** Corporate action announcement operations */
+    corporateActions: {
+      /**
+       * List announcements between `since` and `until` (YYYY-MM-DD, inclusive).
+       *
+       * The API accepts at most 90 days per request, so longer ranges are
+       * fetched in consecutive 90-day windows and concatenated.
+       *
+       * @example
+       * ```typescript
+       * const dividends = await trading.corporateActions.list({
+       *   ca_types: 'dividend',
+       *   since: '2024-01-01',
+       *   until: '2024-12-31',
+       *   symbol: 'AAPL',
+       * })
+       * ```
+       */
+      async list(
+        params: CorporateActionAnnouncementsQuery,
+        options?: RequestOptions
+      ): Promise<CorporateActionAnnouncement[]> {
+        const announcements: CorporateActionAnnouncement[] = []
+        for (const [since, until] of splitDateRange(
+          params.since,
+          params.until,
+          ANNOUNCEMENTS_WINDOW_DAYS
+        )) {
+          options?.signal?.throwIfAborted()
+          announcements.push(
+            ...unwrapList(
+              await client.GET('/v2/corporate_actions/announcements', {
+                params: { query: { ...params, since, until } },
+                ...fetchOptions(options),
+              })
+            )
+          )
+        }
+        return announcements
+      },
+
+      /** Get an announcement by ID */
+      async get(id: string, options?: RequestOptions) {
+        return unwrap(
+          await client.GET('/v2/corporate_actions/announcements/{id}', {
+            params: { path: { id } },
+            ...fetchOptions(options),
+          })
+        )
+      },
+    },
+
+    /** Fixed income asset operations */
+    fixedIncome: {
+      /** List US treasuries, filtered by subtype, bond status, CUSIPs or ISINs */
+      async getTreasuries(params?: UsTreasuriesQuery, options?: RequestOptions) {
+        return unwrap(
+          await client.GET('/v2/assets/fixed_income/us_treasuries', {
+            params: { query: params },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** List US corporate bonds, filtered by bond status, CUSIPs, ISINs or tickers */
+      async getCorporates(params?: UsCorporatesQuery, options?: RequestOptions) {
+        return unwrap(
+          await client.GET('/v2/assets/fixed_income/us_corporates', {
+            params: { query: params },
+            ...fetchOptions(options),
+          })
+        )
+      },
+    },
+
+    /** Crypto funding wallet operations */
+    wallets: {
+      /** Get the funding wallet (deposit address) of an asset */
+      async getDepositAddress(
+        params: NonNullable<operations['listCryptoFundingWallets']['parameters']['query']>,
+        options?: RequestOptions
+      ) {
+        return unwrap(
+          await client.GET('/v2/wallets', {
+            params: { query: params },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** List crypto transfers */
+      async listTransfers(options?: RequestOptions): Promise<CryptoTransfer[]> {
+        return toList(
+          unwrapOptional(
+            await client.GET('/v2/wallets/transfers', {
+              ...fetchOptions(options),
+            })
+          )
+        )
+      },
+
+      /** Get a crypto transfer by ID */
+      async getTransfer(transferId: string, options?: RequestOptions) {
+        return unwrap(
+          await client.GET('/v2/wallets/transfers/{transfer_id}', {
+            params: { path: { transfer_id: transferId } },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Withdraw crypto to a whitelisted address */
+      async withdraw(params: CreateCryptoTransferRequest, options?: RequestOptions) {
+        return unwrap(
+          await client.POST('/v2/wallets/transfers', {
+            body: params,
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /**
+       * Poll a transfer until it is `COMPLETE` or `FAILED`, and return it.
+       * A failed transfer is returned, not thrown; check its `status`.
+       *
+       * @example
+       * ```typescript
+       * const withdrawal = await trading.wallets.withdraw({ asset: 'USDC', amount: '100', address })
+       * const settled = await trading.wallets.waitForTransfer(withdrawal.id!, { timeoutMs: 600_000 })
+       * ```
+       */
+      async waitForTransfer(
+        transferId: string,
+        options?: WaitForTransferOptions
+      ): Promise<CryptoTransfer> {
+        return pollTransfer(
+          transferId,
+          async () =>
+            unwrap(
+              await client.GET('/v2/wallets/transfers/{transfer_id}', {
+                params: { path: { transfer_id: transferId } },
+                ...fetchOptions(options),
+              })
+            ),
+          options
+        )
+      },
+
+      /** List whitelisted withdrawal addresses */
+      async listWhitelistedAddresses(options?: RequestOptions): Promise<WhitelistedAddress[]> {
+        return toList(
+          unwrapOptional(
+            await client.GET('/v2/wallets/whitelists', {
+              ...fetchOptions(options),
+            })
+          )
+        )
+      },
+
+      /**
+       * Whitelist a withdrawal address. New addresses stay `PENDING` for 24 hours
+       * before they can be used.
+       */
+      async whitelistAddress(params: { address: string; asset: string }, options?: RequestOptions) {
+        return unwrap(
+          await client.POST('/v2/wallets/whitelists', {
+            body: params,
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Remove a whitelisted address */
+      async removeWhitelistedAddress(
+        whitelistedAddressId: string,
+        options?: RequestOptions
+      ): Promise<void> {
+        unwrapOptional(
+          await client.DELETE('/v2/wallets/whitelists/{whitelisted_address_id}', {
+            params: { path: { whitelisted_address_id: whitelistedAddressId } },
+            // Success responses have an empty body
+            parseAs: 'text',
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Estimate the network fee of a transfer */
+      async estimateFee(
+        params: NonNullable<operations['getCryptoTransferEstimate']['parameters']['query']>,
+        options?: RequestOptions
+      ) {
+        return unwrap(
+          await client.GET('/v2/wallets/fees/estimate', {
+            params: { query: params },
+            ...fetchOptions(options),
+          })
+        )
+      },
+    },
+
+    /** Crypto perpetual futures operations */
+    perpetuals: {
+      /** Get the account's leverage, optionally for one symbol */
+      async getLeverage(
+        params?: operations['getCryptoPerpAccountLeverage']['parameters']['query'],
+        options?: RequestOptions
+      ) {
+        return unwrap(
+          await client.GET('/v2/perpetuals/leverage', {
+            params: { query: params },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Set the leverage of a symbol */
+      async setLeverage(params: { symbol: string; leverage: number }, options?: RequestOptions) {
+        return unwrap(
+          await client.POST('/v2/perpetuals/leverage', {
+            params: { query: params },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Get margin and collateral figures of the perpetuals account */
+      async getAccountVitals(options?: RequestOptions) {
+        return unwrap(
+          await client.GET('/v2/perpetuals/account_vitals', {
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Get the perpetuals funding wallet (deposit address) of an asset */
+      async getDepositAddress(
+        params: NonNullable<operations['listCryptoPerpFundingWallets']['parameters']['query']>,
+        options?: RequestOptions
+      ) {
+        return unwrap(
+          await client.GET('/v2/perpetuals/wallets', {
+            params: { query: params },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** List perpetuals wallet transfers */
+      async listTransfers(options?: RequestOptions): Promise<CryptoTransfer[]> {
+        return toList(
+          unwrapOptional(
+            await client.GET('/v2/perpetuals/wallets/transfers', {
+              ...fetchOptions(options),
+            })
+          )
+        )
+      },
+
+      /** Get a perpetuals wallet transfer by ID */
+      async getTransfer(transferId: string, options?: RequestOptions) {
+        return unwrap(
+          await client.GET('/v2/perpetuals/wallets/transfers/{transfer_id}', {
+            params: { path: { transfer_id: transferId } },
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Withdraw from the perpetuals wallet to a whitelisted address */
+      async withdraw(params: CreateCryptoTransferRequest, options?: RequestOptions) {
+        return unwrap(
+          await client.POST('/v2/perpetuals/wallets/transfers', {
+            body: params,
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Poll a perpetuals wallet transfer until it is `COMPLETE` or `FAILED` (see `wallets.waitForTransfer`) */
+      async waitForTransfer(
+        transferId: string,
+        options?: WaitForTransferOptions
+      ): Promise<CryptoTransfer> {
+        return pollTransfer(
+          transferId,
+          async () =>
+            unwrap(
+              await client.GET('/v2/perpetuals/wallets/transfers/{transfer_id}', {
+                params: { path: { transfer_id: transferId } },
+                ...fetchOptions(options),
+              })
+            ),
+          options
+        )
+      },
+
+      /** List whitelisted withdrawal addresses of the perpetuals wallet */
+      async listWhitelistedAddresses(options?: RequestOptions): Promise<WhitelistedAddress[]> {
+        return toList(
+          unwrapOptional(
+            await client.GET('/v2/perpetuals/wallets/whitelists', {
+              ...fetchOptions(options),
+            })
+          )
+        )
+      },
+
+      /** Whitelist a withdrawal address for the perpetuals wallet */
+      async whitelistAddress(params: { address: string; asset: string }, options?: RequestOptions) {
+        return unwrap(
+          await client.POST('/v2/perpetuals/wallets/whitelists', {
+            body: params,
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Remove a whitelisted address of the perpetuals wallet */
+      async removeWhitelistedAddress(
+        whitelistedAddressId: string,
+        options?: RequestOptions
+      ): Promise<void> {
+        unwrapOptional(
+          await client.DELETE('/v2/perpetuals/wallets/whitelists/{whitelisted_address_id}', {
+            params: { path: { whitelisted_address_id: whitelistedAddressId } },
+            // Success responses have an empty body
+            parseAs: 'text',
+            ...fetchOptions(options),
+          })
+        )
+      },
+
+      /** Estimate the network fee of a perpetuals wallet transfer */
+      async estimateFee(
+        params: NonNullable<operations['getCryptoPerpTransferEstimate']['parameters']['query']>,
+        options?: RequestOptions
+      ) {
+        return unwrap(
+          await client.GET('/v2/perpetuals/wallets/fees/estimate', {
+            params: { query: params },
+            ...fetchOptions(options),
           })
         )
       },
     },
   }
+
+  return {
+    /** Raw openapi-fetch client for advanced usage */
+    raw: client,
+    ...api,
+    /** Result-returning variants of every method (never throw) */
+    safe: createSafeClient(api),
+  }
+}
+
+/**
+ * Split an inclusive YYYY-MM-DD range into consecutive windows of at most `days` days
+ */
+function splitDateRange(since: string, until: string, days: number): [string, string][] {
+  const start = Date.parse(`${since}T00:00:00Z`)
+  const end = Date.parse(`${until}T00:00:00Z`)
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    throw new Error(`Invalid date range: ${since} to ${until}`)
+  }
+  if (start > end) {
+    throw new Error(`since (${since}) must not be after until (${until})`)
+  }
+
+  const day = 86_400_000
+  const windows: [string, string][] = []
+  for (let from = start; from <= end; from += days * day) {
+    const to = Math.min(from + (days - 1) * day, end)
+    windows.push([toDateString(from), toDateString(to)])
+  }
+  return windows
+}
+
+function toDateString(time: number): string {
+  return new Date(time).toISOString().slice(0, 10)
+}
+
+/**
+ * Fetch a crypto transfer until it reaches a terminal status
+ */
+async function pollTransfer(
+  transferId: string,
+  getTransfer: () => Promise<CryptoTransfer>,
+  options?: WaitForTransferOptions
+): Promise<CryptoTransfer> {
+  const interval = options?.intervalMs ?? TRANSFER_POLL_INTERVAL
+  const deadline = options?.timeoutMs === undefined ? Infinity : Date.now() + options.timeoutMs
+
+  for (;;) {
+    const transfer = await getTransfer()
+    if (transfer.status && TERMINAL_TRANSFER_STATUSES.includes(transfer.status)) {
+      return transfer
+    }
+    if (Date.now() + interval > deadline) {
+      throw new Error(
+        `Transfer ${transferId} did not settle within ${String(options?.timeoutMs)}ms`
+      )
+    }
+    await sleep(interval, options?.signal)
+  }
+}
+
+/**
+ * The spec types some list endpoints as a single object, while the API returns arrays
+ */
+function toList<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) {
+    return []
+  }
+  return Array.isArray(value) ? value : [value]
 }
 
 /** Type inference helper for the trading client */
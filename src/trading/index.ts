@@ -17,16 +17,80 @@ export type {
   Watchlist,
   PortfolioHistory,
   AccountConfigurations,
-  AccountActivity,
-  TradingActivity,
-  NonTradeActivity,
   OrderRequest,
   PatchOrderRequest,
   OrderSide,
   OrderType,
   TimeInForce,
   OrderClass,
+  OptionContract,
+  OptionDeliverable,
+  OptionContractsQuery,
+  ExpiringInTheMoneyParams,
+  ExpiringOptionPosition,
+  CryptoWallet,
+  CryptoTransfer,
+  CryptoTransferStatus,
+  CreateCryptoTransferRequest,
+  WhitelistedAddress,
+  WaitForTransferOptions,
+  PerpLeverage,
+  PerpAccountVitals,
+  CorporateActionAnnouncement,
+  CorporateActionAnnouncementsQuery,
+  UsTreasury,
+  UsCorporate,
+  TreasurySubtype,
+  BondStatus,
+  UsTreasuriesQuery,
+  UsCorporatesQuery,
 } from './client'
 
+// Order builder and client-side validation
+export {
+  OrderBuilder,
+  validateOrderRequest,
+  type OrderValue,
+  type TakeProfitLeg,
+  type StopLossLeg,
+} from './order-builder'
+
+// Multi-leg options strategies
+export {
+  OptionStrategy,
+  buildMultiLegOrder,
+  getMultiLegQuote,
+  type MultiLegOrderLeg,
+  type MultiLegOrderParams,
+  type MultiLegQuote,
+  type LegIntent,
+} from './multi-leg'
+
+// Account activity types and type guards
+export {
+  isActivityOfType,
+  isFillActivity,
+  isNonTradeActivity,
+  isDividendActivity,
+  isInterestActivity,
+  isFeeActivity,
+  isCashTransferActivity,
+  type AccountActivity,
+  type AccountActivityType,
+  type ActivityOfType,
+  type TradingActivity,
+  type NonTradeActivity,
+  type NonTradeActivityType,
+  type FillActivity,
+  type DividendActivity,
+  type DividendActivityType,
+  type InterestActivity,
+  type InterestActivityType,
+  type FeeActivity,
+  type FeeActivityType,
+  type CashTransferActivity,
+  type CashTransferActivityType,
+} from './activities'
+
 // Re-export generated types for advanced usage
 export type { paths, components, operations } from './generated/trading-api'
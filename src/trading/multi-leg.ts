@@ -0,0 +1,308 @@
+/**
+ * Multi-leg options strategies
+ *
+ * Builds the `legs` of an `mleg` order from contract symbols, checks that the
+ * contracts fit the strategy, and prices the spread from the latest quotes:
+ *
+ * ```ts
+ * const legs = OptionStrategy.vertical({ long: 'AAPL240621C00190000', short: 'AAPL240621C00200000' })
+ * const { mid } = await getMultiLegQuote(marketData, legs)
+ * await trading.orders.create(buildMultiLegOrder({ legs, qty: 1, limitPrice: mid }))
+ * ```
+ */
+
+import { parseOptionSymbol, type OptionSymbol, type RequestOptions } from '../core'
+import type { MarketDataClient } from '../market-data'
+import type { OrderRequest, OrderSide, TimeInForce } from './client'
+import type { components } from './generated/trading-api'
+import { validateOrderRequest, type OrderValue } from './order-builder'
+
+export type MultiLegOrderLeg = components['schemas']['MLegOrderLeg']
+
+/** Whether the legs open the described position or close an existing one */
+export type LegIntent = 'open' | 'close'
+
+interface StrategyOptions {
+  /** `'close'` flips every leg to close the described position (default: `'open'`) */
+  intent?: LegIntent
+}
+
+/** Net price of one unit of a multi-leg order. Positive values are debits, negative credits. */
+export interface MultiLegQuote {
+  /** Price if every leg fills at the favourable side of its quote */
+  bid: number
+  /** Price if every leg fills at the unfavourable side of its quote (the natural price) */
+  ask: number
+  /** Midpoint of `bid` and `ask` */
+  mid: number
+  /** Whether the order pays (`debit`) or receives (`credit`) at the midpoint */
+  kind: 'debit' | 'credit'
+}
+
+export interface MultiLegOrderParams {
+  legs: MultiLegOrderLeg[]
+  /** Number of strategy units; each leg trades `qty * ratio_qty` contracts */
+  qty: OrderValue
+  /** Net limit price per unit (positive for a debit, negative for a credit); market order if omitted */
+  limitPrice?: OrderValue
+  /** Default: `'day'` */
+  timeInForce?: TimeInForce
+  clientOrderId?: string
+}
+
+type OptionQuoteFeed = Parameters<MarketDataClient['options']['getLatestQuotes']>[0]['feed']
+
+interface Contract extends OptionSymbol {
+  symbol: string
+}
+
+function parseContract(symbol: string): Contract {
+  return { symbol, ...parseOptionSymbol(symbol) }
+}
+
+function assertSame(
+  strategy: string,
+  contracts: Contract[],
+  field: 'root' | 'expiration' | 'type' | 'strike'
+): void {
+  const [first, ...rest] = contracts
+  if (first && rest.some((contract) => contract[field] !== first[field])) {
+    throw new Error(
+      `${strategy} legs must share the same ${field === 'root' ? 'underlying' : field}: ${contracts.map((c) => c.symbol).join(', ')}`
+    )
+  }
+}
+
+function flip(side: OrderSide): OrderSide {
+  return side === 'buy' ? 'sell' : 'buy'
+}
+
+function createLeg(
+  symbol: string,
+  side: OrderSide,
+  ratio: number,
+  intent: LegIntent = 'open'
+): MultiLegOrderLeg {
+  const legSide = intent === 'close' ? flip(side) : side
+  return {
+    symbol,
+    side: legSide,
+    ratio_qty: String(ratio),
+    position_intent: `${legSide}_to_${intent}`,
+  }
+}
+
+/**
+ * Strategy leg builders. Each describes the position being opened (or, with
+ * `intent: 'close'`, the position being closed) and validates the contracts.
+ */
+export const OptionStrategy = {
+  /** Buy one strike and sell another of the same type and expiration */
+  vertical(params: { long: string; short: string } & StrategyOptions): MultiLegOrderLeg[] {
+    const contracts = [parseContract(params.long), parseContract(params.short)]
+    assertSame('Vertical spread', contracts, 'root')
+    assertSame('Vertical spread', contracts, 'expiration')
+    assertSame('Vertical spread', contracts, 'type')
+    if (contracts[0]?.strike === contracts[1]?.strike) {
+      throw new Error('Vertical spread legs must have different strikes')
+    }
+    return [
+      createLeg(params.long, 'buy', 1, params.intent),
+      createLeg(params.short, 'sell', 1, params.intent),
+    ]
+  },
+
+  /** Buy (or sell) a call and a put at the same strike and expiration */
+  straddle(
+    params: { call: string; put: string; side: OrderSide } & StrategyOptions
+  ): MultiLegOrderLeg[] {
+    const [call, put] = checkCallPut('Straddle', params.call, params.put)
+    if (call.strike !== put.strike) {
+      throw new Error('Straddle legs must share the same strike')
+    }
+    return [
+      createLeg(params.call, params.side, 1, params.intent),
+      createLeg(params.put, params.side, 1, params.intent),
+    ]
+  },
+
+  /** Buy (or sell) an out-of-the-money call and put at different strikes */
+  strangle(
+    params: { call: string; put: string; side: OrderSide } & StrategyOptions
+  ): MultiLegOrderLeg[] {
+    const [call, put] = checkCallPut('Strangle', params.call, params.put)
+    if (call.strike <= put.strike) {
+      throw new Error('Strangle call strike must be above the put strike')
+    }
+    return [
+      createLeg(params.call, params.side, 1, params.intent),
+      createLeg(params.put, params.side, 1, params.intent),
+    ]
+  },
+
+  /** Sell a put spread and a call spread: long put < short put <= short call < long call */
+  ironCondor(
+    params: {
+      longPut: string
+      shortPut: string
+      shortCall: string
+      longCall: string
+    } & StrategyOptions
+  ): MultiLegOrderLeg[] {
+    const contracts = [params.longPut, params.shortPut, params.shortCall, params.longCall].map(
+      parseContract
+    )
+    assertSame('Iron condor', contracts, 'root')
+    assertSame('Iron condor', contracts, 'expiration')
+    const [longPut, shortPut, shortCall, longCall] = contracts as [
+      Contract,
+      Contract,
+      Contract,
+      Contract,
+    ]
+    if (
+      longPut.type !== 'put' ||
+      shortPut.type !== 'put' ||
+      shortCall.type !== 'call' ||
+      longCall.type !== 'call'
+    ) {
+      throw new Error(
+        'Iron condor requires two puts (longPut, shortPut) and two calls (shortCall, longCall)'
+      )
+    }
+    if (
+      !(longPut.strike < shortPut.strike) ||
+      !(shortPut.strike <= shortCall.strike) ||
+      !(shortCall.strike < longCall.strike)
+    ) {
+      throw new Error('Iron condor strikes must satisfy longPut < shortPut <= shortCall < longCall')
+    }
+    return [
+      createLeg(params.longPut, 'buy', 1, params.intent),
+      createLeg(params.shortPut, 'sell', 1, params.intent),
+      createLeg(params.shortCall, 'sell', 1, params.intent),
+      createLeg(params.longCall, 'buy', 1, params.intent),
+    ]
+  },
+
+  /**
+   * Buy the wings and sell two of the body (or the reverse with `side: 'sell'`).
+   * Strikes must be equally spaced.
+   */
+  butterfly(
+    params: { lower: string; middle: string; upper: string; side?: OrderSide } & StrategyOptions
+  ): MultiLegOrderLeg[] {
+    const contracts = [params.lower, params.middle, params.upper].map(parseContract)
+    assertSame('Butterfly', contracts, 'root')
+    assertSame('Butterfly', contracts, 'expiration')
+    assertSame('Butterfly', contracts, 'type')
+    const [lower, middle, upper] = contracts as [Contract, Contract, Contract]
+    if (!(lower.strike < middle.strike && middle.strike < upper.strike)) {
+      throw new Error('Butterfly strikes must satisfy lower < middle < upper')
+    }
+    // Compare in thousandths of a dollar, the OCC strike precision
+    const lowerWidth = Math.round((middle.strike - lower.strike) * 1000)
+    if (lowerWidth !== Math.round((upper.strike - middle.strike) * 1000)) {
+      throw new Error('Butterfly strikes must be equally spaced')
+    }
+    const side = params.side ?? 'buy'
+    return [
+      createLeg(params.lower, side, 1, params.intent),
+      createLeg(params.middle, flip(side), 2, params.intent),
+      createLeg(params.upper, side, 1, params.intent),
+    ]
+  },
+
+  /** Sell the near expiration and buy the far one at the same strike (reverse with `side: 'sell'`) */
+  calendar(
+    params: { near: string; far: string; side?: OrderSide } & StrategyOptions
+  ): MultiLegOrderLeg[] {
+    const contracts = [parseContract(params.near), parseContract(params.far)]
+    assertSame('Calendar spread', contracts, 'root')
+    assertSame('Calendar spread', contracts, 'type')
+    assertSame('Calendar spread', contracts, 'strike')
+    const [near, far] = contracts as [Contract, Contract]
+    if (near.expiration >= far.expiration) {
+      throw new Error('Calendar spread near leg must expire before the far leg')
+    }
+    const side = params.side ?? 'buy'
+    return [
+      createLeg(params.near, flip(side), 1, params.intent),
+      createLeg(params.far, side, 1, params.intent),
+    ]
+  },
+}
+
+function checkCallPut(strategy: string, callSymbol: string, putSymbol: string) {
+  const call = parseContract(callSymbol)
+  const put = parseContract(putSymbol)
+  assertSame(strategy, [call, put], 'root')
+  assertSame(strategy, [call, put], 'expiration')
+  if (call.type !== 'call' || put.type !== 'put') {
+    throw new Error(`${strategy} requires one call and one put`)
+  }
+  return [call, put] as const
+}
+
+/**
+ * Build an `mleg` order from strategy legs. A `limitPrice` makes it a limit
+ * order; otherwise it is a market order.
+ *
+ * @throws Error if the legs, ratios or quantity are invalid
+ */
+export function buildMultiLegOrder(params: MultiLegOrderParams): OrderRequest {
+  const order: OrderRequest = {
+    order_class: 'mleg',
+    type: params.limitPrice === undefined ? 'market' : 'limit',
+    time_in_force: params.timeInForce ?? 'day',
+    qty: String(params.qty),
+    legs: params.legs,
+    ...(params.limitPrice !== undefined && { limit_price: String(params.limitPrice) }),
+    ...(params.clientOrderId !== undefined && { client_order_id: params.clientOrderId }),
+  }
+  validateOrderRequest(order)
+  return order
+}
+
+/** Round away floating point noise from summing leg prices */
+function roundPrice(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
+
+/**
+ * Price one unit of a multi-leg order from the latest option quotes.
+ * Bought legs add their price times `ratio_qty`, sold legs subtract it.
+ *
+ * @throws Error if a leg has no quote
+ */
+export async function getMultiLegQuote(
+  marketData: Pick<MarketDataClient, 'options'>,
+  legs: MultiLegOrderLeg[],
+  params?: { feed?: OptionQuoteFeed },
+  options?: RequestOptions
+): Promise<MultiLegQuote> {
+  const { quotes } = await marketData.options.getLatestQuotes(
+    { symbols: legs.map((leg) => leg.symbol).join(','), feed: params?.feed },
+    options
+  )
+
+  let bid = 0
+  let ask = 0
+  for (const leg of legs) {
+    const quote = quotes[leg.symbol]
+    if (!quote) {
+      throw new Error(`No quote for ${leg.symbol}`)
+    }
+    const ratio = Number(leg.ratio_qty)
+    if (leg.side === 'sell') {
+      bid -= quote.ap * ratio
+      ask -= quote.bp * ratio
+    } else {
+      bid += quote.bp * ratio
+      ask += quote.ap * ratio
+    }
+  }
+
+  const mid = roundPrice((bid + ask) / 2)
+  return { bid: roundPrice(bid), ask: roundPrice(ask), mid, kind: mid < 0 ? 'credit' : 'debit' }
+}
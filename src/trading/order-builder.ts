@@ -0,0 +1,392 @@
+/**
+ * Fluent order builder with client-side validation
+ *
+ * Catches invalid field combinations locally instead of waiting for a 422:
+ *
+ * ```ts
+ * const order = OrderBuilder.limit('AAPL')
+ *   .buy(10)
+ *   .at('187.50')
+ *   .bracket({ takeProfit: '200', stopLoss: { stopPrice: '180' } })
+ *   .gtc()
+ *   .build()
+ * ```
+ */
+
+import type { OrderRequest, OrderType, TimeInForce } from './client'
+import type { components } from './generated/trading-api'
+
+/** Prices and quantities may be given as numbers or decimal strings */
+export type OrderValue = number | string
+
+/** Take-profit leg: the limit price to exit at */
+export type TakeProfitLeg = OrderValue | { limitPrice: OrderValue }
+
+/** Stop-loss leg: a stop price, optionally with a limit price for a stop-limit exit */
+export type StopLossLeg = OrderValue | { stopPrice: OrderValue; limitPrice?: OrderValue }
+
+export interface OrderBuilder {
+  /** Buy `qty` shares (omit when using `notional`) */
+  buy: (qty?: OrderValue) => OrderBuilder
+  /** Sell `qty` shares (omit when using `notional`) */
+  sell: (qty?: OrderValue) => OrderBuilder
+  /** Trade a dollar amount instead of a share quantity */
+  notional: (amount: OrderValue) => OrderBuilder
+  /** Set the limit price */
+  at: (limitPrice: OrderValue) => OrderBuilder
+  /** Set the stop price */
+  stopAt: (stopPrice: OrderValue) => OrderBuilder
+  /** Trail the stop by a fixed dollar offset */
+  trailPrice: (price: OrderValue) => OrderBuilder
+  /** Trail the stop by a percentage of the high water mark */
+  trailPercent: (percent: OrderValue) => OrderBuilder
+  /** Attach both exit legs as a bracket order */
+  bracket: (legs: { takeProfit: TakeProfitLeg; stopLoss: StopLossLeg }) => OrderBuilder
+  /** Make this a one-cancels-other order with both exit legs */
+  oco: (legs: { takeProfit: TakeProfitLeg; stopLoss: StopLossLeg }) => OrderBuilder
+  /** Make this a one-triggers-other order with a single exit leg */
+  oto: (
+    leg:
+      | { takeProfit: TakeProfitLeg; stopLoss?: never }
+      | { stopLoss: StopLossLeg; takeProfit?: never }
+  ) => OrderBuilder
+  /** Set time in force to `day` (the default) */
+  day: () => OrderBuilder
+  /** Set time in force to `gtc` */
+  gtc: () => OrderBuilder
+  /** Set time in force to `opg` */
+  opg: () => OrderBuilder
+  /** Set time in force to `cls` */
+  cls: () => OrderBuilder
+  /** Set time in force to `ioc` */
+  ioc: () => OrderBuilder
+  /** Set time in force to `fok` */
+  fok: () => OrderBuilder
+  /** Allow the order to execute in pre-market and after-hours sessions */
+  extendedHours: (enabled?: boolean) => OrderBuilder
+  /** Set a client order id */
+  clientOrderId: (id: string) => OrderBuilder
+  /** Set the position intent (required for some options orders) */
+  positionIntent: (intent: components['schemas']['PositionIntent']) => OrderBuilder
+  /** Validate and return the order request; throws on invalid combinations */
+  build: () => OrderRequest
+}
+
+function toValue(value: OrderValue): string {
+  return typeof value === 'number' ? String(value) : value
+}
+
+function toTakeProfit(leg: TakeProfitLeg): NonNullable<OrderRequest['take_profit']> {
+  return typeof leg === 'object'
+    ? { limit_price: toValue(leg.limitPrice) }
+    : { limit_price: toValue(leg) }
+}
+
+function toStopLoss(leg: StopLossLeg): NonNullable<OrderRequest['stop_loss']> {
+  if (typeof leg !== 'object') {
+    return { stop_price: toValue(leg) }
+  }
+  return {
+    stop_price: toValue(leg.stopPrice),
+    ...(leg.limitPrice !== undefined && { limit_price: toValue(leg.limitPrice) }),
+  }
+}
+
+function createOrderBuilder(symbol: string, type: OrderType): OrderBuilder {
+  const order: OrderRequest = { symbol, type, time_in_force: 'day' }
+
+  const setTimeInForce = (timeInForce: TimeInForce) => () => {
+    order.time_in_force = timeInForce
+    return builder
+  }
+
+  const side = (value: 'buy' | 'sell') => (qty?: OrderValue) => {
+    order.side = value
+    if (qty !== undefined) {
+      order.qty = toValue(qty)
+    }
+    return builder
+  }
+
+  const builder: OrderBuilder = {
+    buy: side('buy'),
+    sell: side('sell'),
+    notional: (amount) => {
+      order.notional = toValue(amount)
+      return builder
+    },
+    at: (limitPrice) => {
+      order.limit_price = toValue(limitPrice)
+      return builder
+    },
+    stopAt: (stopPrice) => {
+      order.stop_price = toValue(stopPrice)
+      return builder
+    },
+    trailPrice: (price) => {
+      order.trail_price = toValue(price)
+      return builder
+    },
+    trailPercent: (percent) => {
+      order.trail_percent = toValue(percent)
+      return builder
+    },
+    bracket: ({ takeProfit, stopLoss }) => {
+      order.order_class = 'bracket'
+      order.take_profit = toTakeProfit(takeProfit)
+      order.stop_loss = toStopLoss(stopLoss)
+      return builder
+    },
+    oco: ({ takeProfit, stopLoss }) => {
+      order.order_class = 'oco'
+      order.take_profit = toTakeProfit(takeProfit)
+      order.stop_loss = toStopLoss(stopLoss)
+      return builder
+    },
+    oto: (leg) => {
+      order.order_class = 'oto'
+      if (leg.takeProfit !== undefined) {
+        order.take_profit = toTakeProfit(leg.takeProfit)
+      }
+      if (leg.stopLoss !== undefined) {
+        order.stop_loss = toStopLoss(leg.stopLoss)
+      }
+      return builder
+    },
+    day: setTimeInForce('day'),
+    gtc: setTimeInForce('gtc'),
+    opg: setTimeInForce('opg'),
+    cls: setTimeInForce('cls'),
+    ioc: setTimeInForce('ioc'),
+    fok: setTimeInForce('fok'),
+    extendedHours: (enabled = true) => {
+      order.extended_hours = enabled
+      return builder
+    },
+    clientOrderId: (id) => {
+      order.client_order_id = id
+      return builder
+    },
+    positionIntent: (intent) => {
+      order.position_intent = intent
+      return builder
+    },
+    build: () => {
+      validateOrderRequest(order)
+      return { ...order }
+    },
+  }
+
+  return builder
+}
+
+/** Start building an order of the given type */
+export const OrderBuilder = {
+  market: (symbol: string) => createOrderBuilder(symbol, 'market'),
+  limit: (symbol: string) => createOrderBuilder(symbol, 'limit'),
+  stop: (symbol: string) => createOrderBuilder(symbol, 'stop'),
+  stopLimit: (symbol: string) => createOrderBuilder(symbol, 'stop_limit'),
+  trailingStop: (symbol: string) => createOrderBuilder(symbol, 'trailing_stop'),
+}
+
+/** Throw unless `value` is a positive decimal number */
+function assertPositive(field: string, value: string | undefined): void {
+  if (value === undefined) return
+  const parsed = Number(value)
+  if (value.trim() === '' || !Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${field} must be a positive number, got "${value}"`)
+  }
+}
+
+const LIMIT_PRICE_TYPES: readonly OrderType[] = ['limit', 'stop_limit']
+const STOP_PRICE_TYPES: readonly OrderType[] = ['stop', 'stop_limit']
+
+/**
+ * Check an order request for field combinations the API is known to reject.
+ * Multi-leg (`mleg`) orders are checked for leg count, ratios and order type.
+ *
+ * @throws Error describing the first problem found
+ */
+export function validateOrderRequest(order: OrderRequest): void {
+  const orderClass =
+    order.order_class === undefined || order.order_class === '' ? 'simple' : order.order_class
+
+  if (order.qty !== undefined && order.notional !== undefined) {
+    throw new Error('Order cannot specify both qty and notional')
+  }
+  assertPositive('qty', order.qty)
+  assertPositive('notional', order.notional)
+
+  if (orderClass === 'mleg') {
+    validateMultiLegOrder(order)
+    return
+  }
+  if (order.legs !== undefined) {
+    throw new Error(`legs are only allowed with order_class 'mleg', got '${orderClass}'`)
+  }
+
+  if (!order.symbol) {
+    throw new Error('Order requires a symbol')
+  }
+  if (order.side === undefined) {
+    throw new Error('Order requires a side (buy or sell)')
+  }
+  if (order.qty === undefined && order.notional === undefined) {
+    throw new Error('Order requires either qty or notional')
+  }
+  if (order.notional !== undefined && orderClass !== 'simple') {
+    throw new Error(`notional orders cannot use order_class '${orderClass}'`)
+  }
+
+  if (LIMIT_PRICE_TYPES.includes(order.type)) {
+    // OCO orders take their prices from the exit legs
+    if (order.limit_price === undefined && orderClass !== 'oco') {
+      throw new Error(`${order.type} orders require limit_price`)
+    }
+  } else if (order.limit_price !== undefined) {
+    throw new Error(`${order.type} orders cannot have limit_price`)
+  }
+  if (STOP_PRICE_TYPES.includes(order.type)) {
+    if (order.stop_price === undefined) {
+      throw new Error(`${order.type} orders require stop_price`)
+    }
+  } else if (order.stop_price !== undefined) {
+    throw new Error(`${order.type} orders cannot have stop_price`)
+  }
+  assertPositive('limit_price', order.limit_price)
+  assertPositive('stop_price', order.stop_price)
+
+  if (order.type === 'trailing_stop') {
+    if (order.trail_price !== undefined && order.trail_percent !== undefined) {
+      throw new Error('trailing_stop orders cannot specify both trail_price and trail_percent')
+    }
+    if (order.trail_price === undefined && order.trail_percent === undefined) {
+      throw new Error('trailing_stop orders require trail_price or trail_percent')
+    }
+    assertPositive('trail_price', order.trail_price)
+    assertPositive('trail_percent', order.trail_percent)
+  } else if (order.trail_price !== undefined || order.trail_percent !== undefined) {
+    throw new Error(`${order.type} orders cannot have trail_price or trail_percent`)
+  }
+
+  if (order.extended_hours && (order.type !== 'limit' || order.time_in_force !== 'day')) {
+    throw new Error("extended_hours requires a limit order with time_in_force 'day'")
+  }
+
+  validateExitLegs(order, orderClass)
+}
+
+/** Most legs the API accepts in a single multi-leg order */
+const MAX_ORDER_LEGS = 4
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b)
+}
+
+/** Check the legs, ratios and order type of an `mleg` order */
+function validateMultiLegOrder(order: OrderRequest): void {
+  const legs = order.legs ?? []
+  if (legs.length < 2 || legs.length > MAX_ORDER_LEGS) {
+    throw new Error(
+      `Multi-leg orders require 2 to ${String(MAX_ORDER_LEGS)} legs, got ${String(legs.length)}`
+    )
+  }
+  if (order.qty === undefined) {
+    throw new Error("Orders with order_class 'mleg' require qty")
+  }
+  if (!Number.isInteger(Number(order.qty))) {
+    throw new Error(`Multi-leg orders require a whole qty, got "${order.qty}"`)
+  }
+  if (order.type !== 'market' && order.type !== 'limit') {
+    throw new Error(`Multi-leg orders must be market or limit orders, got '${order.type}'`)
+  }
+  if (order.type === 'limit' && order.limit_price === undefined) {
+    throw new Error('limit orders require limit_price')
+  }
+
+  const symbols = new Set<string>()
+  let ratioGcd = 0
+  for (const leg of legs) {
+    if (symbols.has(leg.symbol)) {
+      throw new Error(`Multi-leg order lists ${leg.symbol} in more than one leg`)
+    }
+    symbols.add(leg.symbol)
+    if (leg.side === undefined) {
+      throw new Error(`Leg ${leg.symbol} requires a side (buy or sell)`)
+    }
+    const ratio = Number(leg.ratio_qty)
+    if (!Number.isInteger(ratio) || ratio <= 0) {
+      throw new Error(
+        `Leg ${leg.symbol} ratio_qty must be a positive whole number, got "${leg.ratio_qty}"`
+      )
+    }
+    ratioGcd = gcd(ratio, ratioGcd)
+  }
+  // The API rejects ratios that are not in simplest form (e.g. 2:4 instead of 1:2)
+  if (ratioGcd !== 1) {
+    throw new Error(
+      `Leg ratios must be in simplest form; divide ratio_qty by ${String(ratioGcd)} and multiply qty instead`
+    )
+  }
+}
+
+/** Check take_profit/stop_loss against the order class */
+function validateExitLegs(order: OrderRequest, orderClass: string): void {
+  const hasTakeProfit = order.take_profit !== undefined
+  const hasStopLoss = order.stop_loss !== undefined
+
+  switch (orderClass) {
+    case 'bracket':
+    case 'oco':
+      if (!hasTakeProfit || !hasStopLoss) {
+        throw new Error(`${orderClass} orders require both take_profit and stop_loss`)
+      }
+      break
+    case 'oto':
+      if (hasTakeProfit === hasStopLoss) {
+        throw new Error('oto orders require exactly one of take_profit or stop_loss')
+      }
+      break
+    default:
+      if (hasTakeProfit || hasStopLoss) {
+        throw new Error(
+          `take_profit and stop_loss require order_class 'bracket', 'oco' or 'oto', got '${orderClass}'`
+        )
+      }
+      return
+  }
+
+  if (orderClass === 'oco' && order.type !== 'limit') {
+    throw new Error(`oco orders must be limit orders, got '${order.type}'`)
+  }
+  if (hasTakeProfit) {
+    if (order.take_profit?.limit_price === undefined) {
+      throw new Error('take_profit requires limit_price')
+    }
+    assertPositive('take_profit.limit_price', order.take_profit.limit_price)
+  }
+  if (hasStopLoss) {
+    if (order.stop_loss?.stop_price === undefined) {
+      throw new Error('stop_loss requires stop_price')
+    }
+    assertPositive('stop_loss.stop_price', order.stop_loss.stop_price)
+    assertPositive('stop_loss.limit_price', order.stop_loss.limit_price)
+  }
+  if (orderClass === 'bracket') {
+    checkBracketPrices(order, order.side === 'sell' ? 'sell' : 'buy')
+  }
+}
+
+/** Bracket exits must sit on the profitable/protective side of the entry for its side */
+function checkBracketPrices(order: OrderRequest, side: 'buy' | 'sell'): void {
+  const takeProfit = Number(order.take_profit?.limit_price)
+  const stopLoss = Number(order.stop_loss?.stop_price)
+
+  const invalid = side === 'buy' ? takeProfit <= stopLoss : takeProfit >= stopLoss
+  if (invalid) {
+    const relation = side === 'buy' ? 'above' : 'below'
+    throw new Error(
+      `take_profit.limit_price (${String(takeProfit)}) must be ${relation} stop_loss.stop_price (${String(stopLoss)}) for a ${side} order`
+    )
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * Unit tests for the local account state store
+ *
+ * REST calls are mocked with MSW; the trade updates stream is a hand-driven fake.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { createTradingClient } from '../src/trading/client'
+import { createAccountStateStore } from '../src/account-state-store'
+import type { StateDrift } from '../src/account-state-store'
+import type { TradeUpdate, TradeUpdatesStream } from '../src/streaming'
+
+const BASE_URL = 'https://paper-api.alpaca.markets'
+
+const TEST_CONFIG = {
+  keyId: 'test-key-id',
+  secretKey: 'test-secret-key',
+  paper: true,
+  maxRetries: 0,
+}
+
+const order = (id: string, status: string, filledQty: string, extra: object = {}) => ({
+  id,
+  symbol: 'AAPL',
+  asset_class: 'us_equity',
+  side: 'buy',
+  qty: '10',
+  status,
+  filled_qty: filledQty,
+  ...extra,
+})
+
+const position = (qty: string, avgEntryPrice: string, side = 'long') => ({
+  symbol: 'AAPL',
+  asset_class: 'us_equity',
+  qty,
+  side,
+  avg_entry_price: avgEntryPrice,
+})
+
+const fill = (
+  event: 'fill' | 'partial_fill',
+  filledOrder: ReturnType<typeof order>,
+  qty: string,
+  price: string,
+  positionQty: string
+): TradeUpdate => ({
+  event,
+  order: filledOrder,
+  qty,
+  price,
+  position_qty: positionQty,
+  timestamp: '2024-01-02T14:30:00Z',
+})
+
+function addHandler<T>(handlers: Set<T>, handler: T): () => void {
+  handlers.add(handler)
+  return () => {
+    handlers.delete(handler)
+  }
+}
+
+/** Fake stream whose events are driven by the test */
+function createFakeStream() {
+  const updateHandlers = new Set<(update: TradeUpdate) => void>()
+  const connectHandlers = new Set<() => void>()
+
+  const stream: TradeUpdatesStream = {
+    connect: () => {},
+    disconnect: () => {},
+    isConnected: () => true,
+    subscribe: () => {},
+    unsubscribe: () => {},
+    listen: () => {},
+    unlisten: () => {},
+    onTradeUpdate: (handler) => addHandler(updateHandlers, handler),
+    onFill: () => () => {},
+    onCanceled: () => () => {},
+    onStreamMessage: () => () => {},
+    onConnect: (handler) => addHandler(connectHandlers, handler),
+    onDisconnect: () => () => {},
+    onError: () => () => {},
+    onStateChange: () => () => {},
+  }
+
+  return {
+    stream,
+    /** Number of trade update and connect handlers still registered */
+    handlerCount: () => updateHandlers.size + connectHandlers.size,
+    emit(update: TradeUpdate) {
+      for (const handler of updateHandlers) handler(update)
+    },
+    reconnect() {
+      for (const handler of connectHandlers) handler()
+    },
+  }
+}
+
+/** Serve a REST snapshot of open orders, positions and cash */
+function useSnapshot(snapshot: { orders?: object[]; positions?: object[]; cash?: string }) {
+  server.use(
+    http.get(`${BASE_URL}/v2/orders`, () => HttpResponse.json(snapshot.orders ?? [])),
+    http.get(`${BASE_URL}/v2/positions`, () => HttpResponse.json(snapshot.positions ?? [])),
+    http.get(`${BASE_URL}/v2/account`, () =>
+      HttpResponse.json({ id: 'account-1', cash: snapshot.cash ?? '10000' })
+    )
+  )
+}
+
+const server = setupServer()
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' })
+})
+
+afterEach(() => {
+  server.resetHandlers()
+})
+
+afterAll(() => {
+  server.close()
+})
+
+describe('createAccountStateStore', () => {
+  const trading = createTradingClient(TEST_CONFIG)
+
+  it('should seed open orders, positions and cash from REST', async () => {
+    useSnapshot({
+      orders: [order('order-1', 'new', '0')],
+      positions: [position('5', '180')],
+      cash: '5000',
+    })
+    const store = createAccountStateStore(trading, createFakeStream().stream, {
+      reconcileIntervalMs: 0,
+    })
+
+    await store.start()
+
+    expect(store.getOpenOrders().map((o) => o.id)).toEqual(['order-1'])
+    expect(store.getPosition('AAPL')).toEqual({
+      symbol: 'AAPL',
+      assetClass: 'us_equity',
+      qty: 5,
+      side: 'long',
+      avgEntryPrice: 180,
+    })
+    expect(store.getCash()).toBe(5000)
+    store.stop()
+  })
+
+  it('should apply fills to positions, entry price and cash', async () => {
+    useSnapshot({
+      orders: [order('order-1', 'new', '0')],
+      positions: [position('10', '100')],
+      cash: '5000',
+    })
+    const fake = createFakeStream()
+    const store = createAccountStateStore(trading, fake.stream, { reconcileIntervalMs: 0 })
+    await store.start()
+
+    fake.emit(fill('partial_fill', order('order-1', 'partially_filled', '4'), '4', '110', '14'))
+    fake.emit(fill('fill', order('order-1', 'filled', '10'), '6', '120', '20'))
+
+    // (10 * 100 + 4 * 110 + 6 * 120) / 20
+    expect(store.getPosition('AAPL')).toMatchObject({ qty: 20, avgEntryPrice: 108 })
+    expect(store.getCash()).toBe(5000 - 440 - 720)
+    expect(store.getOpenOrders()).toEqual([])
+    store.stop()
+  })
+
+  it('should ignore duplicate fill events', async () => {
+    useSnapshot({ orders: [order('order-1', 'new', '0')] })
+    const fake = createFakeStream()
+    const store = createAccountStateStore(trading, fake.stream, { reconcileIntervalMs: 0 })
+    await store.start()
+
+    const update = fill('fill', order('order-1', 'filled', '10'), '10', '50', '10')
+    fake.emit(update)
+    fake.emit(update)
+
+    expect(store.getPosition('AAPL')?.qty).toBe(10)
+    expect(store.getCash()).toBe(10000 - 500)
+    store.stop()
+  })
+
+  it('should not apply a fill twice when it arrives while seeding', async () => {
+    const fake = createFakeStream()
+    const filled = order('order-1', 'filled', '10')
+    useSnapshot({})
+    server.use(
+      http.get(`${BASE_URL}/v2/positions`, () => {
+        // The order fills while the snapshot is loading; the snapshot already includes it
+        fake.emit(fill('fill', filled, '10', '50', '10'))
+        return HttpResponse.json([position('10', '50')])
+      }),
+      http.get(`${BASE_URL}/v2/account`, () =>
+        HttpResponse.json({ id: 'account-1', cash: '9500' })
+      ),
+      http.get(`${BASE_URL}/v2/orders/order-1`, () => HttpResponse.json(filled))
+    )
+    const store = createAccountStateStore(trading, fake.stream, { reconcileIntervalMs: 0 })
+    await store.start()
+
+    expect(store.getPosition('AAPL')).toMatchObject({ qty: 10, avgEntryPrice: 50 })
+    expect(store.getCash()).toBe(9500)
+    expect(store.getOpenOrders()).toEqual([])
+    expect(await store.reconcile()).toEqual([])
+    store.stop()
+  })
+
+  it('should share the seed with a reconcile made while starting', async () => {
+    const fake = createFakeStream()
+    let accountCalls = 0
+    let reconciled: Promise<StateDrift[]> | undefined
+    useSnapshot({ orders: [order('order-1', 'new', '0')] })
+    const store = createAccountStateStore(trading, fake.stream, { reconcileIntervalMs: 0 })
+    server.use(
+      http.get(`${BASE_URL}/v2/account`, () => {
+        accountCalls++
+        if (!reconciled) {
+          reconciled = store.reconcile()
+          fake.emit(fill('fill', order('order-1', 'filled', '10'), '10', '50', '10'))
+        }
+        return HttpResponse.json({ id: 'account-1', cash: '10000' })
+      })
+    )
+
+    await store.start()
+
+    expect(await reconciled).toEqual([])
+    expect(accountCalls).toBe(1)
+    expect(store.getPosition('AAPL')?.qty).toBe(10)
+    expect(store.getCash()).toBe(10000 - 500)
+    store.stop()
+  })
+
+  it('should close and flip positions on sells', async () => {
+    useSnapshot({ positions: [position('10', '100')] })
+    const fake = createFakeStream()
+    const store = createAccountStateStore(trading, fake.stream, { reconcileIntervalMs: 0 })
+    await store.start()
+
+    fake.emit(
+      fill('fill', order('sell-1', 'filled', '15', { side: 'sell', qty: '15' }), '15', '90', '-5')
+    )
+
+    expect(store.getPosition('AAPL')).toMatchObject({ qty: -5, side: 'short', avgEntryPrice: 90 })
+    expect(store.getCash()).toBe(10000 + 1350)
+
+    fake.emit(fill('fill', order('buy-1', 'filled', '5', { qty: '5' }), '5', '85', '0'))
+    expect(store.getPosition('AAPL')).toBeUndefined()
+    store.stop()
+  })
+
+  it('should trust the position size reported by the stream', async () => {
+    useSnapshot({ positions: [position('10', '100')] })
+    const fake = createFakeStream()
+    const store = createAccountStateStore(trading, fake.stream, { reconcileIntervalMs: 0 })
+    await store.start()
+
+    // Another fill for the symbol was missed; the stream's position_qty includes it
+    fake.emit(fill('fill', order('order-1', 'filled', '10'), '10', '110', '25'))
+
+    expect(store.getPosition('AAPL')).toMatchObject({ qty: 25, avgEntryPrice: 105 })
+    store.stop()
+  })
+
+  it('should track order lifecycle events', async () => {
+    useSnapshot({})
+    const fake = createFakeStream()
+    const store = createAccountStateStore(trading, fake.stream, { reconcileIntervalMs: 0 })
+    let changes = 0
+    store.onChange(() => changes++)
+    await store.start()
+    changes = 0
+
+    fake.emit({ event: 'new', order: order('order-2', 'new', '0') })
+    expect(store.getOrder('order-2')?.status).toBe('new')
+
+    fake.emit({
+      event: 'canceled',
+      order: order('order-2', 'canceled', '0'),
+      timestamp: '2024-01-02T14:31:00Z',
+    })
+    expect(store.getOrder('order-2')).toBeUndefined()
+    expect(changes).toBe(2)
+    store.stop()
+  })
+
+  it('should report drift found by reconciliation and adopt the REST state', async () => {
+    useSnapshot({ positions: [position('10', '100')] })
+    const fake = createFakeStream()
+    const store = createAccountStateStore(trading, fake.stream, { reconcileIntervalMs: 0 })
+    const reported: StateDrift[][] = []
+    store.onDrift((drift) => reported.push(drift))
+    await store.start()
+
+    useSnapshot({ positions: [position('12', '101')], cash: '9800' })
+    const drift = await store.reconcile()
+
+    expect(drift).toEqual([
+      { kind: 'position', key: 'AAPL', field: 'qty', local: 10, remote: 12 },
+      { kind: 'position', key: 'AAPL', field: 'avg_entry_price', local: 100, remote: 101 },
+      { kind: 'cash', key: 'cash', field: 'cash', local: 10000, remote: 9800 },
+    ])
+    expect(reported).toEqual([drift])
+    expect(store.getPosition('AAPL')?.qty).toBe(12)
+    store.stop()
+  })
+
+  it('should reconcile on a schedule and after reconnecting', async () => {
+    let accountCalls = 0
+    useSnapshot({})
+    server.use(
+      http.get(`${BASE_URL}/v2/account`, () => {
+        accountCalls++
+        return HttpResponse.json({ id: 'account-1', cash: '10000' })
+      })
+    )
+    const fake = createFakeStream()
+    const store = createAccountStateStore(trading, fake.stream, { reconcileIntervalMs: 10 })
+    await store.start()
+
+    await new Promise((resolve) => setTimeout(resolve, 35))
+    const scheduled = accountCalls
+    expect(scheduled).toBeGreaterThan(1)
+
+    store.stop()
+    fake.reconnect()
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    expect(accountCalls).toBe(scheduled)
+  })
+
+  it('should reject start when seeding fails', async () => {
+    useSnapshot({})
+    server.use(
+      http.get(`${BASE_URL}/v2/positions`, () =>
+        HttpResponse.json({ code: 50010000, message: 'boom' }, { status: 500 })
+      )
+    )
+    const fake = createFakeStream()
+    const store = createAccountStateStore(trading, fake.stream)
+
+    await expect(store.start()).rejects.toMatchObject({ status: 500 })
+    expect(fake.handlerCount()).toBe(0)
+  })
+})
@@ -836,6 +836,55 @@ describe('createBrokerClient', () => {
     })
   })
 
+  describe('accounts.iterate()', () => {
+    it('should walk created_before windows and skip the boundary account', async () => {
+      const bounds: (string | null)[] = []
+
+      server.use(
+        http.get(`${BASE_URL}/v1/accounts`, ({ request }) => {
+          const before = new URL(request.url).searchParams.get('created_before')
+          bounds.push(before)
+          if (!before) {
+            return HttpResponse.json([
+              { ...mockAccount, id: 'acc-003', created_at: '2024-01-17T10:30:00Z' },
+              { ...mockAccount, id: 'acc-002', created_at: '2024-01-16T10:30:00Z' },
+            ])
+          }
+          if (before === '2024-01-16T10:30:00Z') {
+            return HttpResponse.json([
+              { ...mockAccount, id: 'acc-002', created_at: '2024-01-16T10:30:00Z' },
+              mockAccount,
+            ])
+          }
+          return HttpResponse.json([mockAccount])
+        })
+      )
+
+      const client = createBrokerClient({ keyId: TEST_KEY_ID, secretKey: TEST_SECRET_KEY })
+      const accounts = await client.accounts.iterate().toArray()
+
+      expect(accounts.map((account) => account.id)).toEqual(['acc-003', 'acc-002', 'acc-001'])
+      expect(bounds).toEqual([null, '2024-01-16T10:30:00Z', '2024-01-15T10:30:00Z'])
+    })
+
+    it('should use created_after when sorting ascending', async () => {
+      const bounds: (string | null)[] = []
+
+      server.use(
+        http.get(`${BASE_URL}/v1/accounts`, ({ request }) => {
+          bounds.push(new URL(request.url).searchParams.get('created_after'))
+          return HttpResponse.json([mockAccount])
+        })
+      )
+
+      const client = createBrokerClient({ keyId: TEST_KEY_ID, secretKey: TEST_SECRET_KEY })
+      const accounts = await client.accounts.iterate({ sort: 'asc' }).toArray()
+
+      expect(accounts).toHaveLength(1)
+      expect(bounds).toEqual([null, '2024-01-15T10:30:00Z'])
+    })
+  })
+
   describe('accounts.get()', () => {
     it('should return a single account by ID', async () => {
       const client = createBrokerClient({
@@ -954,6 +1003,35 @@ describe('createBrokerClient', () => {
     })
   })
 
+  describe('activities.iterate()', () => {
+    it('should follow page_token and stop at maxItems', async () => {
+      const pageTokens: (string | null)[] = []
+
+      server.use(
+        http.get(`${BASE_URL}/v1/accounts/activities`, ({ request }) => {
+          const pageToken = new URL(request.url).searchParams.get('page_token')
+          pageTokens.push(pageToken)
+          return HttpResponse.json(
+            pageToken
+              ? [
+                  { ...mockActivity, id: 'act-003' },
+                  { ...mockActivity, id: 'act-004' },
+                ]
+              : mockActivitiesList
+          )
+        })
+      )
+
+      const client = createBrokerClient({ keyId: TEST_KEY_ID, secretKey: TEST_SECRET_KEY })
+      const activities = await client.activities
+        .iterate({ page_size: 2 }, { maxItems: 3 })
+        .toArray()
+
+      expect(activities.map((activity) => activity.id)).toEqual(['act-001', 'act-002', 'act-003'])
+      expect(pageTokens).toEqual([null, 'act-002'])
+    })
+  })
+
   describe('transfers.list()', () => {
     it('should return transfers for account', async () => {
       const client = createBrokerClient({
@@ -1277,6 +1355,50 @@ describe('createBrokerClient', () => {
       const accounts = await client.accounts.list()
       expect(accounts).toEqual([{ id: 'custom-acc-001' }])
     })
+
+    it('should apply configured middleware to requests', async () => {
+      let capturedTraceId: string | null = null
+
+      server.use(
+        http.get(`${BASE_URL}/v1/accounts`, ({ request }) => {
+          capturedTraceId = request.headers.get('x-trace-id')
+          return HttpResponse.json(mockAccountsList)
+        })
+      )
+
+      const client = createBrokerClient({
+        keyId: TEST_KEY_ID,
+        secretKey: TEST_SECRET_KEY,
+        middleware: [
+          {
+            onRequest({ request }) {
+              request.headers.set('x-trace-id', 'broker-trace')
+              return request
+            },
+          },
+        ],
+      })
+
+      await client.accounts.list()
+      expect(capturedTraceId).toBe('broker-trace')
+    })
+
+    it('should expose a Result-returning safe client', async () => {
+      server.use(
+        http.get(`${BASE_URL}/v1/accounts/missing-account`, () => {
+          return HttpResponse.json(
+            { code: 40410000, message: 'account not found' },
+            { status: 404 }
+          )
+        })
+      )
+
+      const client = createBrokerClient({ keyId: TEST_KEY_ID, secretKey: TEST_SECRET_KEY })
+      const result = await client.safe.accounts.get('missing-account')
+
+      expect(result.ok).toBe(false)
+      expect(result.error?.type).toBe('not_found')
+    })
   })
 
   // --------------------------------------------------------------------------
@@ -1788,6 +1910,61 @@ describe('createBrokerClient', () => {
     })
   })
 
+  describe('trading.positions.exercise()', () => {
+    it('should exercise a quantity of contracts', async () => {
+      let capturedBody: unknown
+      server.use(
+        http.post(
+          `${BASE_URL}/v1/trading/accounts/:accountId/positions/:symbol/exercise`,
+          async ({ request, params }) => {
+            expect(params.accountId).toBe('acc-001')
+            expect(params.symbol).toBe('AAPL240119C00150000')
+            capturedBody = await request.json()
+            return HttpResponse.json({ qty_exercised: '1', qty_remaining: '2' })
+          }
+        )
+      )
+
+      const client = createBrokerClient({
+        keyId: TEST_KEY_ID,
+        secretKey: TEST_SECRET_KEY,
+        paper: true,
+      })
+
+      const result = await client.trading.positions.exercise('acc-001', 'AAPL240119C00150000', {
+        qty: '1',
+      })
+
+      expect(capturedBody).toEqual({ qty: '1' })
+      expect(result).toEqual({ qty_exercised: '1', qty_remaining: '2' })
+    })
+  })
+
+  describe('trading.positions.doNotExercise()', () => {
+    it('should submit a do-not-exercise instruction', async () => {
+      let called = false
+      server.use(
+        http.post(
+          `${BASE_URL}/v1/trading/accounts/:accountId/positions/:symbol/do-not-exercise`,
+          () => {
+            called = true
+            return new HttpResponse(null, { status: 200 })
+          }
+        )
+      )
+
+      const client = createBrokerClient({
+        keyId: TEST_KEY_ID,
+        secretKey: TEST_SECRET_KEY,
+        paper: true,
+      })
+
+      await client.trading.positions.doNotExercise('acc-001', 'AAPL240119C00150000')
+
+      expect(called).toBe(true)
+    })
+  })
+
   describe('documents.list()', () => {
     it('should return documents for account', async () => {
       const client = createBrokerClient({
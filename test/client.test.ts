@@ -20,6 +20,7 @@ describe('createAlpacaClient', () => {
     expect(client).toHaveProperty('broker')
     expect(client).toHaveProperty('marketData')
     expect(client).toHaveProperty('streams')
+    expect(typeof client.submitAndTrack).toBe('function')
   })
 
   describe('trading namespace', () => {
@@ -159,6 +160,23 @@ describe('createAlpacaClient', () => {
     })
   })
 
+  describe('OAuth access token', () => {
+    it('should create trading, market data and stream clients', () => {
+      const client = createAlpacaClient({ accessToken: 'oauth-token' })
+
+      expect(client.trading).toHaveProperty('orders')
+      expect(client.marketData).toHaveProperty('stocks')
+      expect(client.streams.tradeUpdates).toHaveProperty('connect')
+    })
+
+    it('should leave the broker client undefined', () => {
+      const client = createAlpacaClient({ accessToken: 'oauth-token' })
+
+      expect(client.broker).toBeUndefined()
+      expect({ ...client }).toHaveProperty('broker', undefined)
+    })
+  })
+
   describe('type checking', () => {
     it('should satisfy AlpacaClient interface', () => {
       const client: AlpacaClient = createAlpacaClient(testConfig)
@@ -6,10 +6,15 @@ import { describe, it, expect } from 'vitest'
 import {
   createApiKeyAuth,
   createBasicAuth,
+  createCredentialsAuth,
   createOAuthAuth,
+  createTradingStreamAuth,
   createWebSocketAuth,
+  createWebSocketCredentialsAuth,
   createWebSocketOAuth,
+  resolveCredentials,
 } from '../../src/core/auth'
+import type { AlpacaCredentials } from '../../src/core/types'
 
 describe('auth', () => {
   describe('createApiKeyAuth', () => {
@@ -208,4 +213,82 @@ describe('auth', () => {
       expect(result.key).toBe('oauth')
     })
   })
+
+  describe('resolveCredentials', () => {
+    it('should return the key pair without other config', () => {
+      const config = { keyId: 'key', secretKey: 'secret', paper: false }
+
+      expect(resolveCredentials(config)).toEqual({ keyId: 'key', secretKey: 'secret' })
+    })
+
+    it('should return the access token', () => {
+      expect(resolveCredentials({ accessToken: 'token' })).toEqual({ accessToken: 'token' })
+    })
+
+    it('should reject a key pair combined with an access token', () => {
+      const config = { keyId: 'key', secretKey: 'secret', accessToken: 'token' }
+
+      expect(() => resolveCredentials(config as unknown as AlpacaCredentials)).toThrow(
+        'Provide either keyId and secretKey or accessToken, not both'
+      )
+    })
+
+    it('should reject configs without credentials', () => {
+      expect(() => resolveCredentials({ keyId: 'key' } as unknown as AlpacaCredentials)).toThrow(
+        'Provide either keyId and secretKey or accessToken'
+      )
+    })
+  })
+
+  describe('createCredentialsAuth', () => {
+    it('should create API key headers for a key pair', () => {
+      expect(createCredentialsAuth({ keyId: 'key', secretKey: 'secret' })).toEqual({
+        'APCA-API-KEY-ID': 'key',
+        'APCA-API-SECRET-KEY': 'secret',
+      })
+    })
+
+    it('should create a Bearer header for an access token', () => {
+      expect(createCredentialsAuth({ accessToken: 'token' })).toEqual({
+        Authorization: 'Bearer token',
+      })
+    })
+  })
+
+  describe('createWebSocketCredentialsAuth', () => {
+    it('should pick the message matching the credentials', () => {
+      expect(createWebSocketCredentialsAuth({ keyId: 'key', secretKey: 'secret' })).toEqual({
+        action: 'auth',
+        key: 'key',
+        secret: 'secret',
+      })
+      expect(createWebSocketCredentialsAuth({ accessToken: 'token' })).toEqual({
+        action: 'auth',
+        key: 'oauth',
+        secret: 'token',
+      })
+    })
+  })
+
+  describe('createTradingStreamAuth', () => {
+    it('should send the key pair as key_id and secret_key', () => {
+      expect(createTradingStreamAuth({ keyId: 'key', secretKey: 'secret' })).toEqual({
+        action: 'authenticate',
+        data: { key_id: 'key', secret_key: 'secret' },
+      })
+    })
+
+    it('should send an access token as oauth_token', () => {
+      expect(createTradingStreamAuth({ accessToken: 'token' })).toEqual({
+        action: 'authenticate',
+        data: { oauth_token: 'token' },
+      })
+    })
+
+    it('should throw error for empty token', () => {
+      expect(() => createTradingStreamAuth({ accessToken: ' ' })).toThrow(
+        'OAuth token cannot be empty'
+      )
+    })
+  })
 })
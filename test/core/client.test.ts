@@ -10,6 +10,8 @@ import {
   fetchWithRetry,
   createHeaders,
   createApiFetch,
+  createAlpacaFetch,
+  createFetchOptions,
   ALPACA_URLS,
 } from '../../src/core/client'
 import {
@@ -18,7 +20,7 @@ import {
   RateLimitError,
   ServerError,
 } from '../../src/core/errors'
-import type { ResolvedAlpacaConfig } from '../../src/core/types'
+import type { AlpacaConfig, ResolvedAlpacaConfig } from '../../src/core/types'
 
 // MSW server setup
 const server = setupServer()
@@ -129,12 +131,40 @@ describe('client', () => {
         expect(result.maxRetries).toBe(5)
       })
 
+      it('should default middleware to an empty array', () => {
+        const result = resolveConfig(baseConfig, 'trading')
+
+        expect(result.middleware).toEqual([])
+      })
+
+      it('should preserve provided middleware', () => {
+        const middleware = { onRequest: () => undefined }
+        const result = resolveConfig({ ...baseConfig, middleware: [middleware] }, 'trading')
+
+        expect(result.middleware).toEqual([middleware])
+      })
+
       it('should preserve keyId and secretKey', () => {
         const result = resolveConfig(baseConfig, 'trading')
 
         expect(result.keyId).toBe('test-key')
         expect(result.secretKey).toBe('test-secret')
       })
+
+      it('should preserve an OAuth access token', () => {
+        const result = resolveConfig({ accessToken: 'oauth-token' }, 'trading')
+
+        expect(result.accessToken).toBe('oauth-token')
+        expect(result).not.toHaveProperty('keyId')
+      })
+
+      it('should reject a key pair combined with an access token', () => {
+        const config = { ...baseConfig, accessToken: 'oauth-token' }
+
+        expect(() => resolveConfig(config as unknown as AlpacaConfig, 'trading')).toThrow(
+          'not both'
+        )
+      })
     })
   })
 
@@ -667,6 +697,31 @@ describe('client', () => {
       expect(capturedAuthHeader).toBe(`Basic ${expectedBase64}`)
     })
 
+    it('should include a Bearer header for an OAuth access token', async () => {
+      let capturedAuthHeader: string | null = null
+
+      server.use(
+        http.get('https://api.test.alpaca.markets/v2/account', ({ request }) => {
+          capturedAuthHeader = request.headers.get('Authorization')
+          return HttpResponse.json({})
+        })
+      )
+
+      const { keyId: _keyId, secretKey: _secretKey, ...options } = testConfig
+      const apiFetch = createApiFetch({ ...options, accessToken: 'oauth-token' })
+      await apiFetch('/v2/account')
+
+      expect(capturedAuthHeader).toBe('Bearer oauth-token')
+    })
+
+    it('should reject Basic auth with an OAuth access token', () => {
+      const { keyId: _keyId, secretKey: _secretKey, ...options } = testConfig
+
+      expect(() => createApiFetch({ ...options, accessToken: 'oauth-token' }, 'basic')).toThrow(
+        'Basic authentication requires keyId and secretKey'
+      )
+    })
+
     it('should include Content-Type header', async () => {
       let capturedContentType: string | null = null
 
@@ -726,6 +781,197 @@ describe('client', () => {
     })
   })
 
+  describe('createAlpacaFetch', () => {
+    const testConfig: ResolvedAlpacaConfig = {
+      keyId: 'api-key-123',
+      secretKey: 'api-secret-456',
+      paper: true,
+      timeout: 5000,
+      maxRetries: 1,
+      baseUrl: 'https://api.test.alpaca.markets',
+    }
+
+    it('should return the final error response instead of throwing', async () => {
+      server.use(
+        http.get('https://api.test.alpaca.markets/v2/missing', () => {
+          return HttpResponse.json({ code: 40410000, message: 'Not found' }, { status: 404 })
+        })
+      )
+
+      const alpacaFetch = createAlpacaFetch(testConfig)
+      const response = await alpacaFetch(new Request('https://api.test.alpaca.markets/v2/missing'))
+
+      expect(response.status).toBe(404)
+      expect(await response.json()).toEqual({ code: 40410000, message: 'Not found' })
+    })
+
+    it('should retry 429 responses for POST requests', async () => {
+      let requestCount = 0
+      const bodies: unknown[] = []
+
+      server.use(
+        http.post('https://api.test.alpaca.markets/v2/orders', async ({ request }) => {
+          requestCount++
+          bodies.push(await request.json())
+          if (requestCount === 1) {
+            return HttpResponse.json(
+              { code: 42900, message: 'Rate limited' },
+              { status: 429, headers: { 'retry-after': '0' } }
+            )
+          }
+          return HttpResponse.json({ id: 'order-1' })
+        })
+      )
+
+      const alpacaFetch = createAlpacaFetch(testConfig)
+      const response = await alpacaFetch(
+        new Request('https://api.test.alpaca.markets/v2/orders', {
+          method: 'POST',
+          body: JSON.stringify({ symbol: 'AAPL' }),
+        })
+      )
+
+      expect(response.status).toBe(200)
+      expect(requestCount).toBe(2)
+      // The body must be replayed on every attempt
+      expect(bodies).toEqual([{ symbol: 'AAPL' }, { symbol: 'AAPL' }])
+    })
+
+    it('should stop waiting for a 429 backoff when the request is aborted', async () => {
+      let requestCount = 0
+
+      server.use(
+        http.get('https://api.test.alpaca.markets/v2/clock', () => {
+          requestCount++
+          return HttpResponse.json(
+            { code: 42900, message: 'Rate limited' },
+            { status: 429, headers: { 'retry-after': '300' } }
+          )
+        })
+      )
+
+      const controller = new AbortController()
+      const reason = new Error('caller gave up')
+      const alpacaFetch = createAlpacaFetch(testConfig)
+      const pending = alpacaFetch(
+        new Request('https://api.test.alpaca.markets/v2/clock', { signal: controller.signal })
+      )
+      setTimeout(() => {
+        controller.abort(reason)
+      }, 50)
+
+      const startedAt = Date.now()
+      await expect(pending).rejects.toBe(reason)
+      expect(Date.now() - startedAt).toBeLessThan(1000)
+      expect(requestCount).toBe(1)
+    })
+
+    it('should not retry 5xx responses for POST requests without an idempotency key', async () => {
+      let requestCount = 0
+
+      server.use(
+        http.post('https://api.test.alpaca.markets/v2/orders', () => {
+          requestCount++
+          return HttpResponse.json({ code: 50000, message: 'Internal error' }, { status: 500 })
+        })
+      )
+
+      const alpacaFetch = createAlpacaFetch(testConfig)
+      const response = await alpacaFetch(
+        new Request('https://api.test.alpaca.markets/v2/orders', { method: 'POST', body: '{}' })
+      )
+
+      expect(response.status).toBe(500)
+      expect(requestCount).toBe(1)
+    })
+
+    it('should retry 5xx responses for POST requests with an idempotency key', async () => {
+      let requestCount = 0
+
+      server.use(
+        http.post('https://api.test.alpaca.markets/v2/orders', () => {
+          requestCount++
+          if (requestCount === 1) {
+            return HttpResponse.json(
+              { code: 50000, message: 'Internal error' },
+              { status: 503, headers: { 'retry-after': '0' } }
+            )
+          }
+          return HttpResponse.json({ id: 'order-1' })
+        })
+      )
+
+      const alpacaFetch = createAlpacaFetch(testConfig)
+      const response = await alpacaFetch(
+        new Request('https://api.test.alpaca.markets/v2/orders', {
+          method: 'POST',
+          body: '{}',
+          headers: { 'Idempotency-Key': 'order-key-1' },
+        })
+      )
+
+      expect(response.status).toBe(200)
+      expect(requestCount).toBe(2)
+    })
+
+    it('should throw a timeout error when the request exceeds the timeout', async () => {
+      server.use(
+        http.get('https://api.test.alpaca.markets/v2/slow', async () => {
+          await delay(1000)
+          return HttpResponse.json({ data: 'slow' })
+        })
+      )
+
+      const alpacaFetch = createAlpacaFetch({ ...testConfig, maxRetries: 0 }, { timeout: 50 })
+
+      await expect(
+        alpacaFetch(new Request('https://api.test.alpaca.markets/v2/slow'))
+      ).rejects.toMatchObject({ message: 'Request timeout', status: 408 })
+    })
+  })
+
+  describe('createFetchOptions', () => {
+    const testConfig: ResolvedAlpacaConfig = {
+      keyId: 'api-key-123',
+      secretKey: 'api-secret-456',
+      paper: true,
+      timeout: 5000,
+      maxRetries: 0,
+      baseUrl: 'https://api.test.alpaca.markets',
+    }
+
+    it('should return no overrides when options are not provided', () => {
+      const fetchOptions = createFetchOptions(testConfig)
+
+      expect(fetchOptions()).toEqual({
+        signal: undefined,
+        headers: undefined,
+        fetch: undefined,
+      })
+    })
+
+    it('should map idempotencyKey to the Idempotency-Key header', () => {
+      const fetchOptions = createFetchOptions(testConfig)
+
+      expect(fetchOptions({ idempotencyKey: 'key-123' }).headers).toEqual({
+        'Idempotency-Key': 'key-123',
+      })
+    })
+
+    it('should pass through the abort signal', () => {
+      const controller = new AbortController()
+      const fetchOptions = createFetchOptions(testConfig)
+
+      expect(fetchOptions({ signal: controller.signal }).signal).toBe(controller.signal)
+    })
+
+    it('should create a dedicated fetch when a timeout is provided', () => {
+      const fetchOptions = createFetchOptions(testConfig)
+
+      expect(fetchOptions({ timeout: 1000 }).fetch).toBeTypeOf('function')
+    })
+  })
+
   describe('ALPACA_URLS', () => {
     it('should have correct trading URLs', () => {
       expect(ALPACA_URLS.trading.paper).toBe('https://paper-api.alpaca.markets')
@@ -15,8 +15,15 @@ import {
   RateLimitError,
   InsufficientFundsError,
   MarketClosedError,
+  PatternDayTraderError,
+  WashTradeError,
+  NotShortableError,
+  PositionNotFoundError,
   ServerError,
   NotImplementedError,
+  // Error code registry
+  classifyError,
+  registerErrorCode,
   // Factory functions
   createAlpacaError,
   createApiError,
@@ -32,6 +39,10 @@ import {
   isValidationError,
   isInsufficientFundsError,
   isMarketClosedError,
+  isPatternDayTraderError,
+  isWashTradeError,
+  isNotShortableError,
+  isPositionNotFoundError,
   isServerError,
 } from '../../src/core/errors'
 import type { ApiError, Result } from '../../src/core/errors'
@@ -46,6 +57,10 @@ describe('errors', () => {
       expect(ErrorType.RateLimit).toBe('rate_limit')
       expect(ErrorType.InsufficientFunds).toBe('insufficient_funds')
       expect(ErrorType.MarketClosed).toBe('market_closed')
+      expect(ErrorType.PatternDayTrader).toBe('pattern_day_trader')
+      expect(ErrorType.WashTrade).toBe('wash_trade')
+      expect(ErrorType.NotShortable).toBe('not_shortable')
+      expect(ErrorType.PositionNotFound).toBe('position_not_found')
       expect(ErrorType.Server).toBe('server')
       expect(ErrorType.Unknown).toBe('unknown')
     })
@@ -278,6 +293,50 @@ describe('errors', () => {
     })
   })
 
+  describe('PatternDayTraderError', () => {
+    it('should create error with status 403 and correct type', () => {
+      const error = new PatternDayTraderError('PDT protection', 40310100, 'req-pdt')
+
+      expect(error.status).toBe(403)
+      expect(error.type).toBe('pattern_day_trader')
+      expect(error.name).toBe('PatternDayTraderError')
+      expect(error).toBeInstanceOf(AlpacaError)
+    })
+  })
+
+  describe('WashTradeError', () => {
+    it('should create error with status 403 and correct type', () => {
+      const error = new WashTradeError('potential wash trade detected', 40310000)
+
+      expect(error.status).toBe(403)
+      expect(error.type).toBe('wash_trade')
+      expect(error.name).toBe('WashTradeError')
+      expect(error).toBeInstanceOf(AlpacaError)
+    })
+  })
+
+  describe('NotShortableError', () => {
+    it('should create error with status 403 and correct type', () => {
+      const error = new NotShortableError('asset is not shortable', 40310000)
+
+      expect(error.status).toBe(403)
+      expect(error.type).toBe('not_shortable')
+      expect(error.name).toBe('NotShortableError')
+      expect(error).toBeInstanceOf(AlpacaError)
+    })
+  })
+
+  describe('PositionNotFoundError', () => {
+    it('should create error with status 404 and correct type', () => {
+      const error = new PositionNotFoundError('position does not exist', 40410000)
+
+      expect(error.status).toBe(404)
+      expect(error.type).toBe('position_not_found')
+      expect(error.name).toBe('PositionNotFoundError')
+      expect(error).toBeInstanceOf(AlpacaError)
+    })
+  })
+
   describe('ServerError', () => {
     it('should create error with custom status >= 500 and correct type', () => {
       const error = new ServerError('Internal server error', 50000, 500)
@@ -463,6 +522,123 @@ describe('errors', () => {
 
       expect(error).toBeInstanceOf(InsufficientFundsError)
     })
+
+    it('should return InsufficientFundsError for code 40310000 with "insufficient" in message', () => {
+      const error = createAlpacaError('insufficient buying power', 40310000, 403)
+
+      expect(error).toBeInstanceOf(InsufficientFundsError)
+      expect(error.code).toBe(40310000)
+    })
+
+    it('should return MarketClosedError for code 40310000 with "market" and "closed" in message', () => {
+      const error = createAlpacaError('The market is currently closed', 40310000, 403)
+
+      expect(error).toBeInstanceOf(MarketClosedError)
+      expect(error.code).toBe(40310000)
+    })
+
+    it('should return ForbiddenError for code 40310000 without special keywords', () => {
+      const error = createAlpacaError('account is restricted', 40310000, 403)
+
+      expect(error).toBeInstanceOf(ForbiddenError)
+    })
+
+    it('should classify 40310000 by code before the message fallback', () => {
+      // Both "insufficient" and "wash trade": the code mapping for wash trades is checked first
+      const error = createAlpacaError('potential wash trade, insufficient qty', 40310000, 403)
+
+      expect(error).toBeInstanceOf(WashTradeError)
+    })
+
+    it('should keep the response status when a code is reused with another status', () => {
+      const error = createAlpacaError('insufficient buying power', 40310000, 422)
+
+      expect(error).toBeInstanceOf(ValidationError)
+      expect(error.status).toBe(422)
+    })
+  })
+
+  describe('classifyError', () => {
+    it('should classify PDT rejections by their dedicated code', () => {
+      expect(
+        classifyError('trade denied due to pattern day trading protection', 40310100, 403)
+      ).toBe('pattern_day_trader')
+    })
+
+    it('should disambiguate shared 40310000 rejections', () => {
+      expect(classifyError('insufficient buying power', 40310000, 403)).toBe('insufficient_funds')
+      expect(
+        classifyError('potential wash trade detected. use complex orders', 40310000, 403)
+      ).toBe('wash_trade')
+      expect(classifyError('asset "XYZ" cannot be sold short', 40310000, 403)).toBe('not_shortable')
+      expect(classifyError('asset XYZ is not easy to borrow', 40310000, 403)).toBe('not_shortable')
+      expect(classifyError('account is restricted', 40310000, 403)).toBe('forbidden')
+    })
+
+    it('should classify missing positions separately from other 404s', () => {
+      expect(classifyError('position does not exist', 40410000, 404)).toBe('position_not_found')
+      expect(classifyError('order not found', 40410000, 404)).toBe('not_found')
+    })
+
+    it('should only apply code mappings to responses with their HTTP status', () => {
+      expect(classifyError('insufficient buying power', 40310000, 400)).toBe('unknown')
+      expect(classifyError('position does not exist', 40410000, 500)).toBe('server')
+      expect(classifyError('trade denied due to pattern day trading', 40310100, 429)).toBe(
+        'rate_limit'
+      )
+    })
+
+    it('should fall back to the HTTP status for unknown codes', () => {
+      expect(classifyError('Unauthorized', 0, 401)).toBe('authentication')
+      expect(classifyError('Bad gateway', 0, 502)).toBe('server')
+      expect(classifyError('Bad request', 0, 400)).toBe('unknown')
+    })
+  })
+
+  describe('registerErrorCode', () => {
+    it('should classify responses with a registered code', () => {
+      const unregister = registerErrorCode({ code: 40310999, type: 'market_closed' })
+
+      try {
+        const error = createAlpacaError('outside of trading hours', 40310999, 403)
+        expect(error).toBeInstanceOf(MarketClosedError)
+      } finally {
+        unregister()
+      }
+    })
+
+    it('should take precedence over built-in mappings', () => {
+      const unregister = registerErrorCode({
+        code: 40310000,
+        type: 'forbidden',
+        message: /insufficient/i,
+      })
+
+      try {
+        expect(classifyError('insufficient buying power', 40310000, 403)).toBe('forbidden')
+      } finally {
+        unregister()
+      }
+    })
+
+    it('should not apply registered codes to responses with another status', () => {
+      const unregister = registerErrorCode({ code: 40010999, type: 'market_closed' })
+
+      try {
+        const error = createAlpacaError('outside of trading hours', 40010999, 400)
+        expect(error).not.toBeInstanceOf(MarketClosedError)
+        expect(error.status).toBe(400)
+      } finally {
+        unregister()
+      }
+    })
+
+    it('should stop matching once unregistered', () => {
+      const unregister = registerErrorCode({ code: 40310999, type: 'wash_trade' })
+      unregister()
+
+      expect(classifyError('Forbidden', 40310999, 403)).toBe('forbidden')
+    })
   })
 
   describe('createApiError', () => {
@@ -528,6 +704,25 @@ describe('errors', () => {
       expect(error.status).toBe(403)
     })
 
+    it('should create MarketClosedApiError for code 40310000 with "market" and "closed" in message', () => {
+      const error = createApiError('Market is closed', 40310000, 403)
+
+      expect(error.type).toBe('market_closed')
+      expect(error.status).toBe(403)
+    })
+
+    it('should classify by Alpaca error code', () => {
+      const error = createApiError('position does not exist', 40410000, 404, 'req-1')
+
+      expect(error).toEqual({
+        type: 'position_not_found',
+        message: 'position does not exist',
+        code: 40410000,
+        status: 404,
+        requestId: 'req-1',
+      })
+    })
+
     it('should create UnknownApiError for other status codes', () => {
       const error = createApiError('Bad request', 40000, 400)
 
@@ -772,6 +967,20 @@ describe('errors', () => {
       expect(isMarketClosedError(authError)).toBe(false)
     })
 
+    it('should identify code-classified errors', () => {
+      const pdt = createApiError('pattern day trading protection', 40310100, 403)
+      const washTrade = createApiError('potential wash trade detected', 40310000, 403)
+      const notShortable = createApiError('asset is not shortable', 40310000, 403)
+      const positionNotFound = createApiError('position does not exist', 40410000, 404)
+
+      expect(isPatternDayTraderError(pdt)).toBe(true)
+      expect(isWashTradeError(washTrade)).toBe(true)
+      expect(isNotShortableError(notShortable)).toBe(true)
+      expect(isPositionNotFoundError(positionNotFound)).toBe(true)
+      expect(isPositionNotFoundError(notFoundError)).toBe(false)
+      expect(isWashTradeError(pdt)).toBe(false)
+    })
+
     it('isServerError should correctly identify server errors', () => {
       expect(isServerError(serverError)).toBe(true)
       expect(isServerError(authError)).toBe(false)
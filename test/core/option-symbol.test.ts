@@ -0,0 +1,109 @@
+/**
+ * Unit tests for OCC option symbol parsing and formatting
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseOptionSymbol, formatOptionSymbol, isOptionSymbol } from '../../src/core/option-symbol'
+
+describe('parseOptionSymbol', () => {
+  it('should parse a standard symbol', () => {
+    expect(parseOptionSymbol('AAPL240119C00190000')).toEqual({
+      root: 'AAPL',
+      underlying: 'AAPL',
+      adjusted: false,
+      expiration: '2024-01-19',
+      type: 'call',
+      strike: 190,
+    })
+  })
+
+  it('should keep decimal strike precision', () => {
+    expect(parseOptionSymbol('SPY240315P00412500').strike).toBe(412.5)
+    expect(parseOptionSymbol('F240621C00012345').strike).toBe(12.345)
+  })
+
+  it('should mark adjusted roots and infer the underlying', () => {
+    expect(parseOptionSymbol('AAPL1240119C00047500')).toMatchObject({
+      root: 'AAPL1',
+      underlying: 'AAPL',
+      adjusted: true,
+    })
+  })
+
+  it('should keep non-standard roots as the underlying', () => {
+    expect(parseOptionSymbol('SPXW240119P04500000')).toMatchObject({
+      root: 'SPXW',
+      underlying: 'SPXW',
+      adjusted: false,
+      strike: 4500,
+    })
+  })
+
+  it('should accept the space-padded OSI form', () => {
+    expect(parseOptionSymbol('AAPL  240119C00190000').root).toBe('AAPL')
+  })
+
+  it('should reject malformed symbols', () => {
+    expect(() => parseOptionSymbol('AAPL')).toThrow('Invalid option symbol "AAPL"')
+    expect(() => parseOptionSymbol('aapl240119C00190000')).toThrow('Invalid option symbol')
+    expect(() => parseOptionSymbol('AAPL240119X00190000')).toThrow('Invalid option symbol')
+    expect(() => parseOptionSymbol('AAPL240119C0019000')).toThrow('Invalid option symbol')
+    expect(() => parseOptionSymbol('TOOLONG240119C00190000')).toThrow('Invalid option symbol')
+  })
+
+  it('should reject impossible expirations and zero strikes', () => {
+    expect(() => parseOptionSymbol('AAPL240230C00190000')).toThrow('2024-02-30 is not a valid date')
+    expect(() => parseOptionSymbol('AAPL240119C00000000')).toThrow(
+      'strike must be greater than zero'
+    )
+  })
+})
+
+describe('isOptionSymbol', () => {
+  it('should report whether a symbol is well formed', () => {
+    expect(isOptionSymbol('AAPL240119C00190000')).toBe(true)
+    expect(isOptionSymbol('AAPL')).toBe(false)
+  })
+})
+
+describe('formatOptionSymbol', () => {
+  it('should format a symbol with a padded strike', () => {
+    expect(
+      formatOptionSymbol({ root: 'AAPL', expiration: '2024-01-19', type: 'call', strike: 190 })
+    ).toBe('AAPL240119C00190000')
+    expect(
+      formatOptionSymbol({ root: 'SPY', expiration: '2024-03-15', type: 'put', strike: 412.5 })
+    ).toBe('SPY240315P00412500')
+  })
+
+  it('should accept a Date expiration', () => {
+    expect(
+      formatOptionSymbol({
+        root: 'AAPL1',
+        expiration: new Date('2024-01-19T00:00:00Z'),
+        type: 'put',
+        strike: 47.5,
+      })
+    ).toBe('AAPL1240119P00047500')
+  })
+
+  it('should round-trip through parseOptionSymbol', () => {
+    const symbol = 'F240621C00012345'
+    expect(formatOptionSymbol(parseOptionSymbol(symbol))).toBe(symbol)
+  })
+
+  it('should reject values the symbol cannot represent', () => {
+    const base = { root: 'AAPL', expiration: '2024-01-19', type: 'call' as const, strike: 190 }
+
+    expect(() => formatOptionSymbol({ ...base, root: 'aapl' })).toThrow('Invalid option root')
+    expect(() => formatOptionSymbol({ ...base, expiration: '2024-13-01' })).toThrow(
+      'Invalid option expiration'
+    )
+    expect(() => formatOptionSymbol({ ...base, expiration: '1999-01-15' })).toThrow(
+      'between 2000 and 2099'
+    )
+    expect(() => formatOptionSymbol({ ...base, strike: 0 })).toThrow('Invalid option strike')
+    expect(() => formatOptionSymbol({ ...base, strike: 100000 })).toThrow('Invalid option strike')
+    expect(() => formatOptionSymbol({ ...base, strike: 1.2345 })).toThrow('at most 3 decimal')
+  })
+})
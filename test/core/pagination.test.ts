@@ -0,0 +1,150 @@
+/**
+ * Unit tests for auto-pagination helpers
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { paginate, paginateByCursor, nextWindowBound } from '../../src/core/pagination'
+
+interface TestPage {
+  items: number[]
+  next_page_token: string | null
+}
+
+const PAGES: Record<string, TestPage> = {
+  first: { items: [1, 2], next_page_token: 'second' },
+  second: { items: [3], next_page_token: 'third' },
+  third: { items: [], next_page_token: null },
+}
+
+function createFetchPage() {
+  return vi.fn((pageToken: string | undefined) => Promise.resolve(PAGES[pageToken ?? 'first']!))
+}
+
+describe('paginate', () => {
+  it('should follow next_page_token until the last page', async () => {
+    const fetchPage = createFetchPage()
+
+    const items = await paginate(fetchPage, (page) => page.items).toArray()
+
+    expect(items).toEqual([1, 2, 3])
+    expect(fetchPage.mock.calls.map(([token]) => token)).toEqual([undefined, 'second', 'third'])
+  })
+
+  it('should yield whole pages from pages()', async () => {
+    const pages: TestPage[] = []
+    for await (const page of paginate(createFetchPage(), (page) => page.items).pages()) {
+      pages.push(page)
+    }
+
+    expect(pages).toEqual([PAGES.first, PAGES.second, PAGES.third])
+  })
+
+  it('should treat an empty token as the last page', async () => {
+    const fetchPage = vi.fn(() => Promise.resolve({ items: [1], next_page_token: '' }))
+
+    await paginate(fetchPage, (page) => page.items).toArray()
+
+    expect(fetchPage).toHaveBeenCalledTimes(1)
+  })
+
+  it('should fetch lazily', async () => {
+    const fetchPage = createFetchPage()
+
+    for await (const item of paginate(fetchPage, (page) => page.items)) {
+      expect(item).toBe(1)
+      break
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not fetch when the signal is already aborted', async () => {
+    const fetchPage = createFetchPage()
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      paginate(fetchPage, (page) => page.items, controller.signal).toArray()
+    ).rejects.toMatchObject({ name: 'AbortError' })
+    expect(fetchPage).not.toHaveBeenCalled()
+  })
+})
+
+describe('paginateByCursor', () => {
+  interface Item {
+    id: string
+  }
+
+  const PAGE_SIZE = 2
+  const getNextCursor = (page: Item[]) =>
+    page.length < PAGE_SIZE ? undefined : page[page.length - 1]?.id
+
+  it('should advance the cursor until a short page', async () => {
+    const pages: Record<string, Item[]> = {
+      '': [{ id: 'a' }, { id: 'b' }],
+      b: [{ id: 'c' }],
+    }
+    const fetchPage = vi.fn((cursor: string | undefined) => Promise.resolve(pages[cursor ?? '']!))
+
+    const items = await paginateByCursor(fetchPage, getNextCursor, (item) => item.id).toArray()
+
+    expect(items.map((item) => item.id)).toEqual(['a', 'b', 'c'])
+    expect(fetchPage).toHaveBeenCalledTimes(2)
+  })
+
+  it('should skip items repeated from the previous page', async () => {
+    const pages: Record<string, Item[]> = {
+      '': [{ id: 'a' }, { id: 'b' }],
+      b: [{ id: 'b' }, { id: 'c' }],
+      c: [{ id: 'c' }],
+    }
+
+    const items = await paginateByCursor(
+      (cursor: string | undefined) => Promise.resolve(pages[cursor ?? '']!),
+      getNextCursor,
+      (item) => item.id
+    ).toArray()
+
+    expect(items.map((item) => item.id)).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should stop when a page adds no new items', async () => {
+    const fetchPage = vi.fn(() => Promise.resolve([{ id: 'a' }, { id: 'b' }]))
+
+    const items = await paginateByCursor(fetchPage, getNextCursor, (item) => item.id).toArray()
+
+    expect(items).toHaveLength(2)
+    expect(fetchPage).toHaveBeenCalledTimes(2)
+  })
+
+  it('should truncate the last page at maxItems', async () => {
+    let next = 0
+    const fetchPage = vi.fn(() => Promise.resolve([{ id: String(next++) }, { id: String(next++) }]))
+
+    const pages: Item[][] = []
+    for await (const page of paginateByCursor(fetchPage, getNextCursor, (item) => item.id, {
+      maxItems: 3,
+    }).pages()) {
+      pages.push(page)
+    }
+
+    expect(pages).toEqual([[{ id: '0' }, { id: '1' }], [{ id: '2' }]])
+    expect(fetchPage).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('nextWindowBound', () => {
+  it('should widen the bound by 1ms in the iteration direction', () => {
+    expect(nextWindowBound('2024-01-15T10:30:00Z', 'desc')).toBe('2024-01-15T10:30:00.001Z')
+    expect(nextWindowBound('2024-01-15T10:30:00Z', 'asc')).toBe('2024-01-15T10:29:59.999Z')
+  })
+
+  it('should keep sub-millisecond timestamps inside the window', () => {
+    expect(nextWindowBound('2024-01-15T10:30:00.123456Z', 'desc')).toBe('2024-01-15T10:30:00.124Z')
+  })
+
+  it('should return undefined for missing or invalid timestamps', () => {
+    expect(nextWindowBound(null, 'desc')).toBeUndefined()
+    expect(nextWindowBound('not a date', 'asc')).toBeUndefined()
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Unit tests for the client-side rate limiter
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createRateLimiter } from '../../src/core/rate-limiter'
+
+function rateLimitResponse(headers: Record<string, string>, status = 200): Response {
+  return new Response(null, { status, headers })
+}
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('acquire', () => {
+    it('should resolve immediately while tokens are available', async () => {
+      const limiter = createRateLimiter({ requestsPerMinute: 60, burst: 2 })
+
+      await limiter.acquire()
+      await limiter.acquire()
+
+      expect(limiter.getMetrics().availableTokens).toBe(0)
+    })
+
+    it('should queue requests once the burst is exhausted', async () => {
+      const limiter = createRateLimiter({ requestsPerMinute: 60, burst: 1 })
+      await limiter.acquire()
+
+      let resolved = false
+      const pending = limiter.acquire().then(() => {
+        resolved = true
+      })
+
+      expect(limiter.getMetrics().queueDepth).toBe(1)
+
+      // 60 requests per minute refills one token per second
+      await vi.advanceTimersByTimeAsync(999)
+      expect(resolved).toBe(false)
+
+      await vi.advanceTimersByTimeAsync(1)
+      await pending
+      expect(resolved).toBe(true)
+      expect(limiter.getMetrics().queueDepth).toBe(0)
+    })
+
+    it('should serve higher priority requests first', async () => {
+      const limiter = createRateLimiter({ requestsPerMinute: 60, burst: 1 })
+      await limiter.acquire()
+
+      const order: string[] = []
+      const low = limiter.acquire('low').then(() => order.push('low'))
+      const normal = limiter.acquire('normal').then(() => order.push('normal'))
+      const high = limiter.acquire('high').then(() => order.push('high'))
+
+      expect(limiter.getMetrics().queueDepthByPriority).toEqual({ high: 1, normal: 1, low: 1 })
+
+      await vi.advanceTimersByTimeAsync(3000)
+      await Promise.all([low, normal, high])
+
+      expect(order).toEqual(['high', 'normal', 'low'])
+    })
+
+    it('should reject and dequeue when the signal aborts', async () => {
+      const limiter = createRateLimiter({ requestsPerMinute: 60, burst: 1 })
+      await limiter.acquire()
+
+      const controller = new AbortController()
+      const pending = limiter.acquire('normal', controller.signal)
+      expect(limiter.getMetrics().queueDepth).toBe(1)
+
+      controller.abort()
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' })
+      expect(limiter.getMetrics().queueDepth).toBe(0)
+    })
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      const limiter = createRateLimiter()
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(limiter.acquire('normal', controller.signal)).rejects.toMatchObject({
+        name: 'AbortError',
+      })
+    })
+  })
+
+  describe('update', () => {
+    it('should adopt the limit from X-RateLimit-Limit', () => {
+      const limiter = createRateLimiter({ requestsPerMinute: 200 })
+
+      limiter.update(rateLimitResponse({ 'x-ratelimit-limit': '1000' }))
+
+      expect(limiter.getMetrics().limit).toBe(1000)
+    })
+
+    it('should lower available tokens to X-RateLimit-Remaining', () => {
+      const limiter = createRateLimiter({ requestsPerMinute: 200 })
+
+      limiter.update(rateLimitResponse({ 'x-ratelimit-remaining': '5' }))
+
+      const metrics = limiter.getMetrics()
+      expect(metrics.availableTokens).toBe(5)
+      expect(metrics.remaining).toBe(5)
+    })
+
+    it('should pause until X-RateLimit-Reset when the budget is exhausted', async () => {
+      const limiter = createRateLimiter({ requestsPerMinute: 6000 })
+      const resetSeconds = Math.floor(Date.now() / 1000) + 10
+
+      limiter.update(
+        rateLimitResponse({
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': String(resetSeconds),
+        })
+      )
+
+      let resolved = false
+      const pending = limiter.acquire().then(() => {
+        resolved = true
+      })
+
+      // Tokens refill quickly, but the server-side reset has not passed yet
+      await vi.advanceTimersByTimeAsync(5000)
+      expect(resolved).toBe(false)
+      expect(limiter.getMetrics().resetAt).toBe(resetSeconds * 1000)
+
+      await vi.advanceTimersByTimeAsync(6000)
+      await pending
+      expect(resolved).toBe(true)
+    })
+
+    it('should pause for retry-after on 429 responses', async () => {
+      const limiter = createRateLimiter({ requestsPerMinute: 6000 })
+
+      limiter.update(rateLimitResponse({ 'retry-after': '2' }, 429))
+
+      let resolved = false
+      const pending = limiter.acquire().then(() => {
+        resolved = true
+      })
+
+      await vi.advanceTimersByTimeAsync(1500)
+      expect(resolved).toBe(false)
+
+      await vi.advanceTimersByTimeAsync(600)
+      await pending
+      expect(resolved).toBe(true)
+    })
+
+    it('should ignore malformed headers', () => {
+      const limiter = createRateLimiter({ requestsPerMinute: 200 })
+
+      limiter.update(
+        rateLimitResponse({ 'x-ratelimit-limit': 'abc', 'x-ratelimit-remaining': 'n/a' })
+      )
+
+      const metrics = limiter.getMetrics()
+      expect(metrics.limit).toBe(200)
+      expect(metrics.remaining).toBeUndefined()
+    })
+  })
+
+  describe('getMetrics', () => {
+    it('should report defaults for a new limiter', () => {
+      const limiter = createRateLimiter()
+
+      expect(limiter.getMetrics()).toEqual({
+        queueDepth: 0,
+        queueDepthByPriority: { high: 0, normal: 0, low: 0 },
+        availableTokens: 200,
+        limit: 200,
+        remaining: undefined,
+        resetAt: undefined,
+      })
+    })
+  })
+})
@@ -3,7 +3,14 @@
  */
 
 import { describe, it, expect } from 'vitest'
-import { unwrap, unwrapList, unwrapOptional } from '../../src/core/response'
+import {
+  unwrap,
+  unwrapList,
+  unwrapOptional,
+  parseRateLimitHeaders,
+  getResponseMeta,
+  withMeta,
+} from '../../src/core/response'
 import type { OpenApiFetchResponse } from '../../src/core/response'
 import {
   AlpacaError,
@@ -292,4 +299,92 @@ describe('response helpers', () => {
       }
     })
   })
+
+  describe('parseRateLimitHeaders', () => {
+    it('should parse X-RateLimit-* headers', () => {
+      const headers = new Headers({
+        'x-ratelimit-limit': '200',
+        'x-ratelimit-remaining': '150',
+        'x-ratelimit-reset': '1705329000',
+      })
+
+      expect(parseRateLimitHeaders(headers)).toEqual({
+        limit: 200,
+        remaining: 150,
+        reset: 1705329000,
+      })
+    })
+
+    it('should leave missing or malformed headers undefined', () => {
+      const headers = new Headers({ 'x-ratelimit-limit': 'unlimited' })
+
+      expect(parseRateLimitHeaders(headers)).toEqual({
+        limit: undefined,
+        remaining: undefined,
+        reset: undefined,
+      })
+    })
+  })
+
+  describe('getResponseMeta', () => {
+    it('should extract request id, status, rate limit and headers', () => {
+      const response = new Response(null, {
+        status: 201,
+        headers: { 'x-request-id': 'req-123', 'x-ratelimit-remaining': '10' },
+      })
+
+      const meta = getResponseMeta(response, 42)
+
+      expect(meta.requestId).toBe('req-123')
+      expect(meta.status).toBe(201)
+      expect(meta.rateLimit.remaining).toBe(10)
+      expect(meta.headers.get('x-request-id')).toBe('req-123')
+      expect(meta.durationMs).toBe(42)
+    })
+
+    it('should leave requestId undefined when the header is missing', () => {
+      const meta = getResponseMeta(new Response(null, { status: 200 }), 0)
+
+      expect(meta.requestId).toBeUndefined()
+    })
+  })
+
+  describe('withMeta', () => {
+    it('should return data together with the recorded metadata', async () => {
+      const response = new Response(null, { status: 200, headers: { 'x-request-id': 'req-1' } })
+
+      const result = await withMeta((options) => {
+        options.onMeta?.(getResponseMeta(response, 5))
+        return Promise.resolve({ id: 'order-1' })
+      })
+
+      expect(result.data).toEqual({ id: 'order-1' })
+      expect(result.meta?.requestId).toBe('req-1')
+    })
+
+    it('should forward metadata to a caller-provided onMeta callback', async () => {
+      const response = new Response(null, { status: 200 })
+      let forwarded = false
+
+      await withMeta(
+        (options) => {
+          options.onMeta?.(getResponseMeta(response, 5))
+          return Promise.resolve(null)
+        },
+        {
+          onMeta: () => {
+            forwarded = true
+          },
+        }
+      )
+
+      expect(forwarded).toBe(true)
+    })
+
+    it('should leave meta undefined when no response was recorded', async () => {
+      const result = await withMeta(() => Promise.resolve('cached'))
+
+      expect(result).toEqual({ data: 'cached', meta: undefined })
+    })
+  })
 })
@@ -0,0 +1,95 @@
+/**
+ * Unit tests for Result-returning client variants
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createSafeClient } from '../../src/core/safe'
+import { NotFoundError, RateLimitError, ErrorType } from '../../src/core/errors'
+
+describe('createSafeClient', () => {
+  const api = {
+    orders: {
+      get(orderId: string) {
+        return Promise.resolve({ id: orderId })
+      },
+      cancel(_orderId: string) {
+        return Promise.reject(new NotFoundError('order not found', 40410000, 'req-1'))
+      },
+    },
+    clock: {
+      get() {
+        return Promise.reject(new RateLimitError('too many requests', 42910000, 'req-2', 30))
+      },
+    },
+    nested: {
+      deeper: {
+        ping() {
+          return Promise.reject(new TypeError('network down'))
+        },
+      },
+    },
+    iterate(): AsyncGenerator<number> {
+      return (async function* () {
+        yield 1
+      })()
+    },
+  }
+
+  it('should wrap successful calls in an ok result', async () => {
+    const safe = createSafeClient(api)
+
+    const result = await safe.orders.get('order-1')
+
+    expect(result).toEqual({ ok: true, data: { id: 'order-1' } })
+  })
+
+  it('should convert thrown AlpacaErrors into ApiError results', async () => {
+    const safe = createSafeClient(api)
+
+    const result = await safe.orders.cancel('order-1')
+
+    expect(result.ok).toBe(false)
+    expect(result.error).toEqual({
+      type: ErrorType.NotFound,
+      message: 'order not found',
+      code: 40410000,
+      status: 404,
+      requestId: 'req-1',
+    })
+  })
+
+  it('should keep subtype-specific fields on the error', async () => {
+    const safe = createSafeClient(api)
+
+    const result = await safe.clock.get()
+
+    if (result.ok) {
+      expect.fail('Expected an error result')
+    }
+    expect(result.error.type).toBe(ErrorType.RateLimit)
+    if (result.error.type === ErrorType.RateLimit) {
+      expect(result.error.retryAfter).toBe(30)
+    }
+  })
+
+  it('should map nested namespaces and non-Alpaca errors', async () => {
+    const safe = createSafeClient(api)
+
+    const result = await safe.nested.deeper.ping()
+
+    expect(result.ok).toBe(false)
+    expect(result.error?.type).toBe(ErrorType.Unknown)
+    expect(result.error?.message).toBe('network down')
+  })
+
+  it('should pass non-promise functions through unchanged', async () => {
+    const safe = createSafeClient(api)
+
+    const values: number[] = []
+    for await (const value of safe.iterate()) {
+      values.push(value)
+    }
+
+    expect(values).toEqual([1])
+  })
+})
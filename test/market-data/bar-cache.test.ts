@@ -0,0 +1,387 @@
+/**
+ * Unit tests for the on-disk bar cache
+ *
+ * Cached days are written to a temporary directory; HTTP calls are mocked with MSW.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, beforeEach, vi } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createMarketDataClient } from '../../src/market-data/client'
+import { getCachedBars, isCacheableBarsQuery } from '../../src/market-data/bar-cache'
+import { createBarCache } from '../../src/market-data/disk-bar-cache'
+import type { BarCache, BarSeriesKey } from '../../src/market-data/bar-cache'
+
+const BASE_URL = 'https://data.alpaca.markets'
+
+const bar = (t: string, c = 100) => ({ t, o: 1, h: 2, l: 0.5, c, v: 100, n: 10, vw: 1.5 })
+
+const AAPL: BarSeriesKey = { market: 'stocks', symbol: 'AAPL', timeframe: '1Day', feed: 'sip' }
+
+const server = setupServer()
+
+describe('bar cache', () => {
+  let dir: string
+
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' })
+  })
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'alpaca-bars-'))
+  })
+
+  afterEach(async () => {
+    server.resetHandlers()
+    vi.useRealTimers()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  describe('createBarCache', () => {
+    it('should read back a written day', async () => {
+      const cache = createBarCache({ directory: dir })
+      const bars = [bar('2024-01-02T05:00:00Z')]
+
+      await cache.write(AAPL, '2024-01-02', bars)
+
+      expect(await cache.read(AAPL, '2024-01-02')).toEqual(bars)
+      expect(await cache.read(AAPL, '2024-01-03')).toBeUndefined()
+    })
+
+    it('should store one bar per line as NDJSON', async () => {
+      const cache = createBarCache({ directory: dir, format: 'ndjson' })
+      const bars = [bar('2024-01-02T14:30:00Z', 1), bar('2024-01-02T14:31:00Z', 2)]
+
+      await cache.write(AAPL, '2024-01-02', bars)
+
+      const file = join(dir, 'stocks', 'sip', 'raw', '1Day', 'AAPL', '2024-01-02.ndjson')
+      expect((await readFile(file, 'utf8')).split('\n')).toHaveLength(3)
+      expect(await cache.read(AAPL, '2024-01-02')).toEqual(bars)
+    })
+
+    it('should keep feeds, adjustments and timeframes apart', async () => {
+      const cache = createBarCache({ directory: dir })
+      await cache.write(AAPL, '2024-01-02', [bar('2024-01-02T05:00:00Z')])
+
+      expect(await cache.read({ ...AAPL, feed: 'iex' }, '2024-01-02')).toBeUndefined()
+      expect(await cache.read({ ...AAPL, adjustment: 'all' }, '2024-01-02')).toBeUndefined()
+      expect(await cache.read({ ...AAPL, timeframe: '1Hour' }, '2024-01-02')).toBeUndefined()
+    })
+
+    it('should encode symbols that contain slashes', async () => {
+      const cache = createBarCache({ directory: dir })
+      const key: BarSeriesKey = { market: 'crypto', symbol: 'BTC/USD', timeframe: '1H', feed: 'us' }
+
+      await cache.write(key, '2024-01-02', [])
+
+      expect(await cache.read(key, '2024-01-02')).toEqual([])
+    })
+
+    it('should invalidate matching days only', async () => {
+      const cache = createBarCache({ directory: dir })
+      const msft = { ...AAPL, symbol: 'MSFT' }
+      for (const day of ['2024-01-02', '2024-01-03', '2024-01-04']) {
+        await cache.write(AAPL, day, [])
+        await cache.write(msft, day, [])
+      }
+
+      expect(await cache.invalidate({ symbol: 'AAPL', from: '2024-01-03' })).toBe(2)
+
+      expect(await cache.read(AAPL, '2024-01-02')).toEqual([])
+      expect(await cache.read(AAPL, '2024-01-03')).toBeUndefined()
+      expect(await cache.read(msft, '2024-01-04')).toEqual([])
+      expect(await cache.invalidate()).toBe(4)
+    })
+
+    it('should clear everything', async () => {
+      const cache = createBarCache({ directory: dir })
+      await cache.write(AAPL, '2024-01-02', [])
+
+      await cache.clear()
+
+      expect(await cache.read(AAPL, '2024-01-02')).toBeUndefined()
+      expect(await cache.invalidate()).toBe(0)
+    })
+  })
+
+  describe('getCachedBars', () => {
+    // Wednesday 2024-01-03, 10:00 in New York
+    const NOW = Date.parse('2024-01-03T15:00:00Z')
+    const request = {
+      market: 'stocks' as const,
+      symbols: ['AAPL'],
+      timeframe: '1Hour',
+      start: '2024-01-01',
+    }
+
+    function createFetchRange(bars: Record<string, ReturnType<typeof bar>[]>) {
+      return vi.fn((symbols: string[], start: string, end: string) =>
+        Promise.resolve(
+          Object.fromEntries(
+            symbols.map((symbol) => [
+              symbol,
+              (bars[symbol] ?? []).filter((b) => b.t >= start && b.t <= end),
+            ])
+          )
+        )
+      )
+    }
+
+    const bars = {
+      AAPL: [
+        bar('2024-01-02T15:00:00Z', 1),
+        bar('2024-01-02T20:00:00Z', 2),
+        bar('2024-01-03T14:00:00Z', 3),
+      ],
+    }
+
+    let cache: BarCache
+    beforeEach(() => {
+      cache = createBarCache({ directory: dir })
+    })
+
+    it('should fetch complete days on New York day boundaries and the session live', async () => {
+      const fetchRange = createFetchRange(bars)
+
+      const result = await getCachedBars(cache, request, fetchRange, NOW)
+
+      expect(result).toEqual(bars)
+      expect(fetchRange.mock.calls).toEqual([
+        [['AAPL'], '2024-01-01T05:00:00.000Z', '2024-01-03T04:59:59.999Z'],
+        [['AAPL'], '2024-01-03T05:00:00.000Z', '2024-01-03T15:00:00.000Z'],
+      ])
+    })
+
+    it('should only fetch the current session once completed days are cached', async () => {
+      await getCachedBars(cache, request, createFetchRange(bars), NOW)
+      const fetchRange = createFetchRange(bars)
+
+      const result = await getCachedBars(cache, request, fetchRange, NOW)
+
+      expect(result).toEqual(bars)
+      expect(fetchRange).toHaveBeenCalledTimes(1)
+      expect(fetchRange.mock.calls[0]?.[1]).toBe('2024-01-03T05:00:00.000Z')
+      // Days without bars are cached too, and the session is never cached
+      expect(
+        await cache.read({ ...AAPL, timeframe: '1Hour', feed: undefined }, '2024-01-01')
+      ).toEqual([])
+      expect(
+        await cache.read({ ...AAPL, timeframe: '1Hour', feed: undefined }, '2024-01-03')
+      ).toBeUndefined()
+    })
+
+    it('should fetch only the missing days of each symbol', async () => {
+      await getCachedBars(cache, { ...request, end: '2024-01-01' }, createFetchRange(bars), NOW)
+      const fetchRange = createFetchRange(bars)
+
+      await getCachedBars(
+        cache,
+        { ...request, symbols: ['AAPL', 'MSFT'], end: '2024-01-02' },
+        fetchRange,
+        NOW
+      )
+
+      expect(fetchRange.mock.calls).toEqual([
+        [['AAPL'], '2024-01-02T05:00:00.000Z', '2024-01-03T04:59:59.999Z'],
+        [['MSFT'], '2024-01-01T05:00:00.000Z', '2024-01-03T04:59:59.999Z'],
+      ])
+    })
+
+    it('should trim cached days to the requested instants', async () => {
+      const fetchRange = createFetchRange(bars)
+
+      const result = await getCachedBars(
+        cache,
+        { ...request, start: '2024-01-02T16:00:00Z', end: '2024-01-02T21:00:00Z' },
+        fetchRange,
+        NOW
+      )
+
+      expect(result).toEqual({ AAPL: [bars.AAPL[1]] })
+      expect(fetchRange).toHaveBeenCalledTimes(1)
+    })
+
+    it('should use UTC days for crypto', async () => {
+      const fetchRange = createFetchRange({})
+
+      await getCachedBars(
+        cache,
+        { ...request, market: 'crypto', symbols: ['BTC/USD'], end: '2024-01-02' },
+        fetchRange,
+        NOW
+      )
+
+      expect(fetchRange.mock.calls).toEqual([
+        [['BTC/USD'], '2024-01-01T00:00:00.000Z', '2024-01-02T23:59:59.999Z'],
+      ])
+    })
+  })
+
+  describe('isCacheableBarsQuery', () => {
+    const query = { symbols: 'AAPL', timeframe: '1Min', start: '2024-01-02' }
+
+    it('should accept ascending ranged requests of intraday and daily bars', () => {
+      expect(isCacheableBarsQuery(query)).toBe(true)
+      expect(isCacheableBarsQuery({ ...query, timeframe: '1Day' })).toBe(true)
+      expect(isCacheableBarsQuery({ ...query, timeframe: '4Hour' })).toBe(true)
+    })
+
+    it('should reject requests the cache cannot reproduce', () => {
+      expect(isCacheableBarsQuery({ ...query, start: undefined })).toBe(false)
+      expect(isCacheableBarsQuery({ ...query, limit: 100 })).toBe(false)
+      expect(isCacheableBarsQuery({ ...query, page_token: 'abc' })).toBe(false)
+      expect(isCacheableBarsQuery({ ...query, sort: 'desc' })).toBe(false)
+      expect(isCacheableBarsQuery({ ...query, asof: '2024-01-02' })).toBe(false)
+      expect(isCacheableBarsQuery({ ...query, currency: 'EUR' })).toBe(false)
+      expect(isCacheableBarsQuery({ ...query, timeframe: '1Week' })).toBe(false)
+    })
+  })
+
+  describe('market data client', () => {
+    function createTestClient(barCache: BarCache) {
+      return createMarketDataClient({
+        keyId: 'test-key-id',
+        secretKey: 'test-secret-key',
+        baseUrl: BASE_URL,
+        maxRetries: 0,
+        barCache,
+      })
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date('2024-01-10T15:00:00Z'))
+    })
+
+    it('should serve repeated stock bar requests from the cache', async () => {
+      const requests: URLSearchParams[] = []
+      server.use(
+        http.get(`${BASE_URL}/v2/stocks/bars`, ({ request }) => {
+          const params = new URL(request.url).searchParams
+          requests.push(params)
+          return HttpResponse.json({
+            bars: { AAPL: [bar('2024-01-02T05:00:00Z', 185)] },
+            next_page_token: null,
+          })
+        })
+      )
+      const client = createTestClient(createBarCache({ directory: dir }))
+      const params = {
+        symbols: 'AAPL',
+        timeframe: '1Day',
+        feed: 'sip' as const,
+        start: '2024-01-02',
+        end: '2024-01-05',
+      }
+
+      const first = await client.stocks.getBars(params)
+      const second = await client.stocks.getBars(params)
+
+      expect(first).toEqual({
+        bars: { AAPL: [bar('2024-01-02T05:00:00Z', 185)] },
+        next_page_token: null,
+      })
+      expect(second).toEqual(first)
+      expect(requests).toHaveLength(1)
+      expect(requests[0]?.get('limit')).toBe('10000')
+      expect(requests[0]?.get('feed')).toBe('sip')
+    })
+
+    it('should serve single-symbol bars from the multi-symbol endpoint', async () => {
+      server.use(
+        http.get(`${BASE_URL}/v2/stocks/bars`, () =>
+          HttpResponse.json({
+            bars: { AAPL: [bar('2024-01-02T05:00:00Z')] },
+            next_page_token: null,
+          })
+        )
+      )
+      const client = createTestClient(createBarCache({ directory: dir }))
+
+      const result = await client.stocks.getSymbolBars('AAPL', {
+        timeframe: '1Day',
+        start: '2024-01-02',
+        end: '2024-01-02',
+      })
+
+      expect(result).toEqual({
+        symbol: 'AAPL',
+        bars: [bar('2024-01-02T05:00:00Z')],
+        next_page_token: null,
+      })
+    })
+
+    it('should key crypto bars by location', async () => {
+      const locations: string[] = []
+      server.use(
+        http.get(`${BASE_URL}/v1beta3/crypto/:loc/bars`, ({ params }) => {
+          locations.push(params.loc as string)
+          return HttpResponse.json({ bars: { 'BTC/USD': [] }, next_page_token: null })
+        })
+      )
+      const client = createTestClient(createBarCache({ directory: dir }))
+      const params = { symbols: 'BTC/USD', timeframe: '1H', start: '2024-01-02', end: '2024-01-02' }
+
+      await client.crypto.getBars('us', params)
+      await client.crypto.getBars('us', params)
+      await client.crypto.getBars('eu-1', params)
+
+      expect(locations).toEqual(['us', 'eu-1'])
+    })
+
+    it('should page limited requests through the API', async () => {
+      const requests: URLSearchParams[] = []
+      server.use(
+        http.get(`${BASE_URL}/v2/stocks/bars`, ({ request }) => {
+          const params = new URL(request.url).searchParams
+          requests.push(params)
+          return HttpResponse.json({
+            bars: { AAPL: [bar('2024-01-02T05:00:00Z')] },
+            next_page_token: 'next',
+          })
+        })
+      )
+      const cache = createBarCache({ directory: dir })
+      const client = createTestClient(cache)
+      const params = { symbols: 'AAPL', timeframe: '1Day', start: '2024-01-02', limit: 1 }
+
+      const result = await client.stocks.getBars(params)
+      await client.stocks.getBars(params)
+
+      expect(result).toEqual({
+        bars: { AAPL: [bar('2024-01-02T05:00:00Z')] },
+        next_page_token: 'next',
+      })
+      expect(requests).toHaveLength(2)
+      expect(requests[0]?.get('limit')).toBe('1')
+      expect(
+        await cache.read({ market: 'stocks', symbol: 'AAPL', timeframe: '1Day' }, '2024-01-02')
+      ).toBeUndefined()
+    })
+
+    it('should bypass the cache for paged requests', async () => {
+      let calls = 0
+      server.use(
+        http.get(`${BASE_URL}/v2/stocks/bars`, () => {
+          calls++
+          return HttpResponse.json({ bars: {}, next_page_token: 'next' })
+        })
+      )
+      const client = createTestClient(createBarCache({ directory: dir }))
+      const params = { symbols: 'AAPL', timeframe: '1Day', start: '2024-01-02', page_token: 'abc' }
+
+      const result = await client.stocks.getBars(params)
+      await client.stocks.getBars(params)
+
+      expect(result.next_page_token).toBe('next')
+      expect(calls).toBe(2)
+    })
+  })
+})
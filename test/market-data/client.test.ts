@@ -9,6 +9,7 @@ import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
 import { setupServer } from 'msw/node'
 import { http, HttpResponse } from 'msw'
 import { createMarketDataClient } from '../../src/market-data/client'
+import type { MarketDataClientConfig } from '../../src/market-data/client'
 
 const BASE_URL = 'https://data.alpaca.markets'
 
@@ -19,11 +20,12 @@ const TEST_SECRET_KEY = 'test-secret-key'
 /**
  * Factory to create a market data client with test configuration
  */
-function createTestClient() {
+function createTestClient(overrides?: Partial<MarketDataClientConfig>) {
   return createMarketDataClient({
     keyId: TEST_KEY_ID,
     secretKey: TEST_SECRET_KEY,
     baseUrl: BASE_URL,
+    ...overrides,
   })
 }
 
@@ -1017,6 +1019,44 @@ describe('Market Data Client', () => {
       expect(typeof client.screener.getMostActives).toBe('function')
       expect(typeof client.screener.getMovers).toBe('function')
     })
+
+    it('should apply configured middleware to requests', async () => {
+      let capturedTraceId: string | null = null
+
+      server.use(
+        http.get(`${BASE_URL}/v2/stocks/bars/latest`, ({ request }) => {
+          capturedTraceId = request.headers.get('x-trace-id')
+          return HttpResponse.json({ bars: {} })
+        })
+      )
+
+      const client = createTestClient({
+        middleware: [
+          {
+            onRequest({ request }) {
+              request.headers.set('x-trace-id', 'data-trace')
+              return request
+            },
+          },
+        ],
+      })
+
+      await client.stocks.getLatestBars({ symbols: 'AAPL' })
+      expect(capturedTraceId).toBe('data-trace')
+    })
+
+    it('should expose a Result-returning safe client', async () => {
+      server.use(
+        http.get(`${BASE_URL}/v2/stocks/bars/latest`, () => {
+          return HttpResponse.json({ bars: {} })
+        })
+      )
+
+      const client = createTestClient()
+      const result = await client.safe.stocks.getLatestBars({ symbols: 'AAPL' })
+
+      expect(result).toEqual({ ok: true, data: { bars: {} } })
+    })
   })
 
   // --------------------------------------------------------------------------
@@ -1647,6 +1687,86 @@ describe('Market Data Client', () => {
     })
   })
 
+  // --------------------------------------------------------------------------
+  // Crypto Perpetual Futures Data Tests
+  // --------------------------------------------------------------------------
+
+  describe('cryptoPerps', () => {
+    const PERP = 'BTC-PERP'
+
+    /** Serve `body` for one latest-data endpoint and record the requested location and symbols */
+    function useLatest(endpoint: string, body: object) {
+      const requests: { loc: string; symbols: string | null }[] = []
+      server.use(
+        http.get(
+          `${BASE_URL}/v1beta1/crypto-perps/:loc/latest/${endpoint}`,
+          ({ request, params }) => {
+            requests.push({
+              loc: params.loc as string,
+              symbols: new URL(request.url).searchParams.get('symbols'),
+            })
+            return HttpResponse.json(body)
+          }
+        )
+      )
+      return requests
+    }
+
+    it('should get latest bars from the global location', async () => {
+      const requests = useLatest('bars', { bars: { [PERP]: mockCryptoBar } })
+
+      const result = await createTestClient().cryptoPerps.getLatestBars({ symbols: PERP })
+
+      expect(result.bars[PERP]).toEqual(mockCryptoBar)
+      expect(requests).toEqual([{ loc: 'global', symbols: PERP }])
+    })
+
+    it('should get latest futures pricing', async () => {
+      const pricing = {
+        t: '2024-01-15T14:30:00Z',
+        ft: '2024-01-15T16:00:00Z',
+        oi: 1250.5,
+        ip: 42500.1,
+        mp: 42510.3,
+        fr: 0.0001,
+      }
+      useLatest('pricing', { pricing: { [PERP]: pricing } })
+
+      const result = await createTestClient().cryptoPerps.getLatestPricing({ symbols: PERP })
+
+      expect(result.pricing[PERP]).toEqual(pricing)
+    })
+
+    it('should get latest orderbooks', async () => {
+      const orderbook = {
+        t: '2024-01-15T14:30:00Z',
+        b: [{ p: 42500, s: 1.5 }],
+        a: [{ p: 42510, s: 2 }],
+      }
+      useLatest('orderbooks', { orderbooks: { [PERP]: orderbook } })
+
+      const result = await createTestClient().cryptoPerps.getLatestOrderbooks({ symbols: PERP })
+
+      expect(result.orderbooks[PERP]).toEqual(orderbook)
+    })
+
+    it('should get latest quotes', async () => {
+      useLatest('quotes', { quotes: { [PERP]: mockCryptoQuote } })
+
+      const result = await createTestClient().cryptoPerps.getLatestQuotes({ symbols: PERP })
+
+      expect(result.quotes[PERP]).toEqual(mockCryptoQuote)
+    })
+
+    it('should get latest trades', async () => {
+      useLatest('trades', { trades: { [PERP]: mockCryptoTrade } })
+
+      const result = await createTestClient().cryptoPerps.getLatestTrades({ symbols: PERP })
+
+      expect(result.trades[PERP]).toEqual(mockCryptoTrade)
+    })
+  })
+
   // --------------------------------------------------------------------------
   // Options Data Tests
   // --------------------------------------------------------------------------
@@ -1673,6 +1793,27 @@ describe('Market Data Client', () => {
     })
   })
 
+  describe('options symbol validation', () => {
+    it('should reject malformed option symbols without calling the API', async () => {
+      const client = createTestClient()
+
+      await expect(
+        client.options.getLatestQuotes({ symbols: 'AAPL240119C00150000,AAPL240119X150' })
+      ).rejects.toThrow('Invalid option symbol "AAPL240119X150"')
+    })
+
+    it('should reject the first page of an iterator with a malformed option symbol', async () => {
+      const client = createTestClient()
+      const bars = client.options.iterateBars({ symbols: 'AAPL', timeframe: '1Day' })
+      const trades = client.options.iterateTrades({ symbols: 'AAPL240119X150' })
+
+      await expect(bars[Symbol.asyncIterator]().next()).rejects.toThrow(
+        'Invalid option symbol "AAPL"'
+      )
+      await expect(trades.toRecord()).rejects.toThrow('Invalid option symbol "AAPL240119X150"')
+    })
+  })
+
   describe('options.getTrades', () => {
     it('should return option trades', async () => {
       const client = createTestClient()
@@ -2119,6 +2260,194 @@ describe('Market Data Client', () => {
     })
   })
 
+  // --------------------------------------------------------------------------
+  // Auto-pagination Tests
+  // --------------------------------------------------------------------------
+
+  describe('auto-pagination', () => {
+    /** Serve `pages` in order, keyed by the page_token query parameter */
+    function pagedHandler(
+      url: string,
+      pages: Record<string, unknown>[],
+      seenTokens: string[] = []
+    ) {
+      return http.get(url, ({ request }) => {
+        const token = new URL(request.url).searchParams.get('page_token')
+        seenTokens.push(token ?? '')
+        const index = token ? Number(token.replace('page-', '')) : 0
+        const next = index + 1 < pages.length ? `page-${String(index + 1)}` : null
+        return HttpResponse.json({ ...pages[index], next_page_token: next })
+      })
+    }
+
+    const barPages = [
+      { bars: { AAPL: [mockStockBar, { ...mockStockBar, t: '2024-01-15T14:31:00Z' }] } },
+      {
+        bars: {
+          AAPL: [{ ...mockStockBar, t: '2024-01-15T14:32:00Z' }],
+          MSFT: [{ ...mockStockBar, c: 375 }],
+        },
+      },
+    ]
+
+    it('should yield stock bars tagged with their symbol across pages', async () => {
+      const seenTokens: string[] = []
+      server.use(pagedHandler(`${BASE_URL}/v2/stocks/bars`, barPages, seenTokens))
+      const client = createTestClient()
+
+      const bars = []
+      for await (const bar of client.stocks.iterateBars({
+        symbols: 'AAPL,MSFT',
+        timeframe: '1Min',
+      })) {
+        bars.push(bar)
+      }
+
+      expect(seenTokens).toEqual(['', 'page-1'])
+      expect(bars.map((bar) => [bar.symbol, bar.t])).toEqual([
+        ['AAPL', '2024-01-15T14:30:00Z'],
+        ['AAPL', '2024-01-15T14:31:00Z'],
+        ['AAPL', '2024-01-15T14:32:00Z'],
+        ['MSFT', '2024-01-15T14:30:00Z'],
+      ])
+    })
+
+    it('should merge a symbol split across pages with toRecord()', async () => {
+      server.use(pagedHandler(`${BASE_URL}/v2/stocks/bars`, barPages))
+      const client = createTestClient()
+
+      const bars = await client.stocks
+        .iterateBars({ symbols: 'AAPL,MSFT', timeframe: '1Min' })
+        .toRecord()
+
+      expect(Object.keys(bars)).toEqual(['AAPL', 'MSFT'])
+      expect(bars.AAPL).toHaveLength(3)
+      expect(bars.MSFT).toEqual([{ ...mockStockBar, c: 375 }])
+    })
+
+    it('should yield raw pages with pages()', async () => {
+      server.use(pagedHandler(`${BASE_URL}/v2/stocks/bars`, barPages))
+      const client = createTestClient()
+
+      const tokens = []
+      for await (const page of client.stocks
+        .iterateBars({ symbols: 'AAPL', timeframe: '1Min' })
+        .pages()) {
+        tokens.push(page.next_page_token)
+      }
+
+      expect(tokens).toEqual(['page-1', null])
+    })
+
+    it('should stop fetching when the loop breaks early', async () => {
+      const seenTokens: string[] = []
+      server.use(pagedHandler(`${BASE_URL}/v2/stocks/bars`, barPages, seenTokens))
+      const client = createTestClient()
+
+      for await (const bar of client.stocks.iterateBars({ symbols: 'AAPL', timeframe: '1Min' })) {
+        expect(bar.symbol).toBe('AAPL')
+        break
+      }
+
+      expect(seenTokens).toEqual([''])
+    })
+
+    it('should stop between pages when the signal aborts', async () => {
+      const seenTokens: string[] = []
+      server.use(
+        pagedHandler(
+          `${BASE_URL}/v2/stocks/trades`,
+          [{ trades: { AAPL: [mockStockTrade] } }, { trades: { AAPL: [mockStockTrade] } }],
+          seenTokens
+        )
+      )
+      const client = createTestClient()
+      const controller = new AbortController()
+
+      const iterate = async () => {
+        for await (const trade of client.stocks.iterateTrades(
+          { symbols: 'AAPL' },
+          { signal: controller.signal }
+        )) {
+          expect(trade.symbol).toBe('AAPL')
+          controller.abort()
+        }
+      }
+
+      await expect(iterate()).rejects.toMatchObject({ name: 'AbortError' })
+      expect(seenTokens).toEqual([''])
+    })
+
+    it('should paginate crypto endpoints for the given location', async () => {
+      server.use(
+        pagedHandler(`${BASE_URL}/v1beta3/crypto/us/quotes`, [
+          { quotes: { 'BTC/USD': [{ t: '2024-01-15T14:30:00Z', bp: 42500 }] } },
+          { quotes: { 'BTC/USD': [{ t: '2024-01-15T14:30:01Z', bp: 42501 }] } },
+        ])
+      )
+      const client = createTestClient()
+
+      const quotes = await client.crypto.iterateQuotes('us', { symbols: 'BTC/USD' }).toArray()
+
+      expect(quotes.map((quote) => quote.bp)).toEqual([42500, 42501])
+      expect(quotes.every((quote) => quote.symbol === 'BTC/USD')).toBe(true)
+    })
+
+    it('should paginate options bars', async () => {
+      const symbol = 'AAPL240119C00150000'
+      server.use(
+        pagedHandler(`${BASE_URL}/v1beta1/options/bars`, [
+          { bars: { [symbol]: [mockOptionBar] } },
+          { bars: { [symbol]: [mockOptionBar] } },
+        ])
+      )
+      const client = createTestClient()
+
+      const bars = await client.options
+        .iterateBars({ symbols: symbol, timeframe: '1Day' })
+        .toRecord()
+
+      expect(bars[symbol]).toHaveLength(2)
+    })
+
+    it('should collect news articles across pages', async () => {
+      const seenTokens: string[] = []
+      server.use(
+        pagedHandler(
+          `${BASE_URL}/v1beta1/news`,
+          [{ news: [mockNewsArticle] }, { news: [{ ...mockNewsArticle, id: 2 }] }],
+          seenTokens
+        )
+      )
+      const client = createTestClient()
+
+      const articles = await client.news.iterate({ symbols: 'AAPL' }).toArray()
+
+      expect(articles.map((article) => article.id)).toEqual([12345678, 2])
+      expect(seenTokens).toEqual(['', 'page-1'])
+    })
+
+    it('should surface API errors from later pages', async () => {
+      server.use(
+        http.get(`${BASE_URL}/v1beta1/news`, ({ request }) => {
+          if (new URL(request.url).searchParams.get('page_token')) {
+            return HttpResponse.json(
+              { message: 'invalid page token', code: 42210000 },
+              { status: 422 }
+            )
+          }
+          return HttpResponse.json({ news: [mockNewsArticle], next_page_token: 'bad' })
+        })
+      )
+      const client = createTestClient()
+
+      await expect(client.news.iterate().toArray()).rejects.toMatchObject({
+        status: 422,
+        message: 'invalid page token',
+      })
+    })
+  })
+
   // --------------------------------------------------------------------------
   // Error Handling Tests
   // --------------------------------------------------------------------------
@@ -2176,7 +2505,7 @@ describe('Market Data Client', () => {
     })
 
     it('should throw error on 500 server error response', async () => {
-      const client = createTestClient()
+      const client = createTestClient({ maxRetries: 0 })
 
       server.use(
         http.get(`${BASE_URL}/v2/stocks/bars`, () => {
@@ -2187,7 +2516,7 @@ describe('Market Data Client', () => {
         })
       )
 
-      // Server errors trigger retries, so we expect this to eventually throw
+      // Retries are disabled so the error surfaces immediately
       await expect(
         client.stocks.getBars({ symbols: 'AAPL', timeframe: '1Day' })
       ).rejects.toMatchObject({
@@ -2246,6 +2575,23 @@ describe('Market Data Client', () => {
       expect(capturedHeaders?.get('APCA-API-KEY-ID')).toBe(TEST_KEY_ID)
       expect(capturedHeaders?.get('APCA-API-SECRET-KEY')).toBe(TEST_SECRET_KEY)
     })
+
+    it('should send a Bearer token when created with an OAuth access token', async () => {
+      let capturedHeaders: Headers | undefined
+
+      server.use(
+        http.get(`${BASE_URL}/v2/stocks/bars`, ({ request }) => {
+          capturedHeaders = request.headers
+          return HttpResponse.json({ bars: { AAPL: [mockStockBar] }, next_page_token: null })
+        })
+      )
+
+      const client = createMarketDataClient({ accessToken: 'oauth-token', maxRetries: 0 })
+      await client.stocks.getBars({ symbols: 'AAPL', timeframe: '1Day' })
+
+      expect(capturedHeaders?.get('Authorization')).toBe('Bearer oauth-token')
+      expect(capturedHeaders?.has('APCA-API-KEY-ID')).toBe(false)
+    })
   })
 
   // --------------------------------------------------------------------------
@@ -3014,7 +3360,7 @@ describe('Market Data Client', () => {
           })
         )
 
-        const client = createTestClient()
+        const client = createTestClient({ maxRetries: 0 })
 
         await expect(client.screener.getMovers('stocks')).rejects.toMatchObject({
           message: 'Internal server error',
@@ -3133,7 +3479,7 @@ describe('Market Data Client', () => {
           })
         )
 
-        const client = createTestClient()
+        const client = createTestClient({ maxRetries: 0 })
 
         await expect(client.options.getExchanges()).rejects.toMatchObject({
           message: 'Internal server error',
@@ -3150,7 +3496,7 @@ describe('Market Data Client', () => {
           })
         )
 
-        const client = createTestClient()
+        const client = createTestClient({ maxRetries: 0 })
 
         await expect(client.options.getConditions('trade')).rejects.toMatchObject({
           message: 'Internal server error',
@@ -3167,7 +3513,7 @@ describe('Market Data Client', () => {
           })
         )
 
-        const client = createTestClient()
+        const client = createTestClient({ maxRetries: 0 })
 
         await expect(client.news.get()).rejects.toMatchObject({
           message: 'Internal server error',
@@ -3184,7 +3530,7 @@ describe('Market Data Client', () => {
           })
         )
 
-        const client = createTestClient()
+        const client = createTestClient({ maxRetries: 0 })
 
         await expect(client.screener.getMostActives()).rejects.toMatchObject({
           message: 'Internal server error',
@@ -3475,7 +3821,7 @@ describe('Market Data Client', () => {
           })
         )
 
-        const client = createTestClient()
+        const client = createTestClient({ maxRetries: 0 })
 
         await expect(client.stocks.getExchanges()).rejects.toMatchObject({
           message: 'Internal server error',
@@ -3492,7 +3838,7 @@ describe('Market Data Client', () => {
           })
         )
 
-        const client = createTestClient()
+        const client = createTestClient({ maxRetries: 0 })
 
         await expect(client.stocks.getConditions('trade', { tape: 'A' })).rejects.toMatchObject({
           message: 'Internal server error',
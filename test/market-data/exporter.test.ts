@@ -0,0 +1,335 @@
+/**
+ * Unit tests for the historical market data exporter
+ *
+ * HTTP calls are mocked with MSW; checkpoints are written to a temporary directory.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, beforeEach } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Writable } from 'node:stream'
+import { finished } from 'node:stream/promises'
+import { createMarketDataClient } from '../../src/market-data/client'
+import { exportMarketData } from '../../src/market-data/exporter'
+
+const BASE_URL = 'https://data.alpaca.markets'
+
+function createTestClient() {
+  return createMarketDataClient({
+    keyId: 'test-key-id',
+    secretKey: 'test-secret-key',
+    baseUrl: BASE_URL,
+    maxRetries: 0,
+  })
+}
+
+/**
+ * Writable that collects everything written to it. `text()` ends the stream
+ * and resolves once every buffered chunk has been processed.
+ */
+function createOutput(highWaterMark?: number) {
+  const chunks: string[] = []
+  const output = new Writable({
+    highWaterMark,
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk.toString())
+      setImmediate(callback)
+    },
+  })
+  const text = async () => {
+    output.end()
+    await finished(output)
+    return chunks.join('')
+  }
+  return { output, text }
+}
+
+const bar = (t: string, c: number) => ({ t, o: 1, h: 2, l: 0.5, c, v: 100, n: 10, vw: 1.5 })
+
+const server = setupServer()
+
+describe('exportMarketData', () => {
+  let dir: string
+
+  beforeAll(() => {
+    server.listen({ onUnhandledRequest: 'error' })
+  })
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'alpaca-export-'))
+  })
+
+  afterEach(async () => {
+    server.resetHandlers()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  afterAll(() => {
+    server.close()
+  })
+
+  /** Two pages of stock bars; the second page fails while `failSecondPage` is set */
+  function useBarPages(options: { failSecondPage?: boolean; pageTokens?: (string | null)[] } = {}) {
+    server.use(
+      http.get(`${BASE_URL}/v2/stocks/bars`, ({ request }) => {
+        const pageToken = new URL(request.url).searchParams.get('page_token')
+        options.pageTokens?.push(pageToken)
+        if (!pageToken) {
+          return HttpResponse.json({
+            bars: { AAPL: [bar('2024-01-02T14:30:00Z', 185)] },
+            next_page_token: 'page-2',
+          })
+        }
+        if (options.failSecondPage) {
+          return HttpResponse.json({ message: 'boom', code: 50010000 }, { status: 500 })
+        }
+        return HttpResponse.json({
+          bars: {
+            AAPL: [bar('2024-01-02T14:31:00Z', 186)],
+            MSFT: [bar('2024-01-02T14:30:00Z', 370)],
+          },
+          next_page_token: null,
+        })
+      })
+    )
+  }
+
+  it('should write CSV rows across pages with a header', async () => {
+    useBarPages()
+    const { output, text } = createOutput()
+
+    const result = await exportMarketData(createTestClient(), output, {
+      symbols: ['AAPL', 'MSFT'],
+      timeframe: '1Min',
+      start: '2024-01-02',
+    })
+
+    expect(result).toEqual({ rows: 3, pages: 2, resumed: false })
+    expect((await text()).split('\n')).toEqual([
+      'symbol,t,o,h,l,c,v,n,vw',
+      'AAPL,2024-01-02T14:30:00Z,1,2,0.5,185,100,10,1.5',
+      'AAPL,2024-01-02T14:31:00Z,1,2,0.5,186,100,10,1.5',
+      'MSFT,2024-01-02T14:30:00Z,1,2,0.5,370,100,10,1.5',
+      '',
+    ])
+  })
+
+  it('should write one JSON object per line as NDJSON', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v1beta3/crypto/us/trades`, () =>
+        HttpResponse.json({
+          trades: { 'BTC/USD': [{ t: '2024-01-02T00:00:00Z', p: 42000, s: 0.5, i: 1, tks: 'B' }] },
+          next_page_token: null,
+        })
+      )
+    )
+    const { output, text } = createOutput()
+
+    await exportMarketData(createTestClient(), output, {
+      symbols: ['BTC/USD'],
+      assetClass: 'crypto',
+      dataType: 'trades',
+      format: 'ndjson',
+      start: '2024-01-02',
+    })
+
+    expect(JSON.parse((await text()).trim())).toEqual({
+      symbol: 'BTC/USD',
+      t: '2024-01-02T00:00:00Z',
+      p: 42000,
+      s: 0.5,
+      i: 1,
+      tks: 'B',
+    })
+  })
+
+  it('should join condition arrays and escape commas in CSV', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/stocks/trades`, () =>
+        HttpResponse.json({
+          trades: {
+            AAPL: [{ t: '2024-01-02T14:30:00Z', x: 'V', p: 185, s: 100, c: ['@', 'I'], z: 'C,D' }],
+          },
+          next_page_token: null,
+        })
+      )
+    )
+    const { output, text } = createOutput()
+
+    await exportMarketData(createTestClient(), output, {
+      symbols: ['AAPL'],
+      dataType: 'trades',
+      start: '2024-01-02',
+    })
+
+    expect((await text()).split('\n')[1]).toBe('AAPL,2024-01-02T14:30:00Z,V,185,100,@ I,,"C,D",')
+  })
+
+  it('should batch symbols into separate requests', async () => {
+    const requested: string[] = []
+    server.use(
+      http.get(`${BASE_URL}/v2/stocks/bars`, ({ request }) => {
+        requested.push(new URL(request.url).searchParams.get('symbols') ?? '')
+        return HttpResponse.json({ bars: {}, next_page_token: null })
+      })
+    )
+    const { output } = createOutput()
+
+    await exportMarketData(createTestClient(), output, {
+      symbols: ['AAPL', 'MSFT', 'GOOGL'],
+      timeframe: '1Day',
+      start: '2024-01-02',
+      symbolsPerRequest: 2,
+    })
+
+    expect(requested).toEqual(['AAPL,MSFT', 'GOOGL'])
+  })
+
+  it('should wait for the output to drain', async () => {
+    useBarPages()
+    const { output, text } = createOutput(1)
+
+    const result = await exportMarketData(createTestClient(), output, {
+      symbols: ['AAPL', 'MSFT'],
+      timeframe: '1Min',
+      start: '2024-01-02',
+    })
+
+    expect(result.rows).toBe(3)
+    expect((await text()).split('\n')).toHaveLength(5)
+  })
+
+  describe('checkpoints', () => {
+    const exportOptions = (checkpointFile: string) => ({
+      symbols: ['AAPL', 'MSFT'],
+      timeframe: '1Min',
+      start: '2024-01-02',
+      checkpointFile,
+    })
+
+    it('should resume from the last written page', async () => {
+      const checkpointFile = join(dir, 'bars.checkpoint.json')
+      const first = createOutput()
+
+      useBarPages({ failSecondPage: true })
+      await expect(
+        exportMarketData(createTestClient(), first.output, exportOptions(checkpointFile))
+      ).rejects.toMatchObject({ status: 500 })
+
+      const pageTokens: (string | null)[] = []
+      useBarPages({ pageTokens })
+      const second = createOutput()
+      const result = await exportMarketData(
+        createTestClient(),
+        second.output,
+        exportOptions(checkpointFile)
+      )
+
+      expect(pageTokens).toEqual(['page-2'])
+      expect(result).toEqual({ rows: 3, pages: 1, resumed: true })
+      // No second header when resuming
+      const secondText = await second.text()
+      expect(secondText.startsWith('AAPL,2024-01-02T14:31:00Z')).toBe(true)
+      expect((await first.text()) + secondText).toMatch(/^symbol,t,/)
+    })
+
+    it('should write the header once when the first page fails', async () => {
+      const checkpointFile = join(dir, 'bars.checkpoint.json')
+      const first = createOutput()
+
+      server.use(
+        http.get(`${BASE_URL}/v2/stocks/bars`, () =>
+          HttpResponse.json({ message: 'boom', code: 50010000 }, { status: 500 })
+        )
+      )
+      await expect(
+        exportMarketData(createTestClient(), first.output, exportOptions(checkpointFile))
+      ).rejects.toMatchObject({ status: 500 })
+
+      server.resetHandlers()
+      useBarPages()
+      const second = createOutput()
+      await exportMarketData(createTestClient(), second.output, exportOptions(checkpointFile))
+
+      const lines = ((await first.text()) + (await second.text())).split('\n')
+      expect(lines.filter((line) => line.startsWith('symbol,'))).toHaveLength(1)
+      expect(lines[0]).toBe('symbol,t,o,h,l,c,v,n,vw')
+    })
+
+    it('should not export again once complete', async () => {
+      const checkpointFile = join(dir, 'bars.checkpoint.json')
+      useBarPages()
+      await exportMarketData(
+        createTestClient(),
+        createOutput().output,
+        exportOptions(checkpointFile)
+      )
+
+      const checkpoint = JSON.parse(await readFile(checkpointFile, 'utf8')) as { complete: boolean }
+      expect(checkpoint.complete).toBe(true)
+
+      server.resetHandlers()
+      const { output, text } = createOutput()
+      const result = await exportMarketData(
+        createTestClient(),
+        output,
+        exportOptions(checkpointFile)
+      )
+
+      expect(result).toEqual({ rows: 3, pages: 0, resumed: true })
+      expect(await text()).toBe('')
+    })
+
+    it('should reject a checkpoint written for a different export', async () => {
+      const checkpointFile = join(dir, 'bars.checkpoint.json')
+      await writeFile(
+        checkpointFile,
+        JSON.stringify({ version: 1, fingerprint: 'other', batch: 0, pageToken: null, rows: 0 })
+      )
+
+      await expect(
+        exportMarketData(createTestClient(), createOutput().output, exportOptions(checkpointFile))
+      ).rejects.toThrow('belongs to a different export')
+    })
+
+    it('should reject a checkpoint written with a different page size', async () => {
+      const checkpointFile = join(dir, 'bars.checkpoint.json')
+      useBarPages({ failSecondPage: true })
+      await expect(
+        exportMarketData(createTestClient(), createOutput().output, exportOptions(checkpointFile))
+      ).rejects.toMatchObject({ status: 500 })
+
+      await expect(
+        exportMarketData(createTestClient(), createOutput().output, {
+          ...exportOptions(checkpointFile),
+          pageSize: 500,
+        })
+      ).rejects.toThrow('belongs to a different export')
+    })
+  })
+
+  describe('validation', () => {
+    it('should require a timeframe for bars', async () => {
+      await expect(
+        exportMarketData(createTestClient(), createOutput().output, {
+          symbols: ['AAPL'],
+          start: '2024-01-02',
+        })
+      ).rejects.toThrow('timeframe is required')
+    })
+
+    it('should reject historical option quotes', async () => {
+      await expect(
+        exportMarketData(createTestClient(), createOutput().output, {
+          symbols: ['AAPL240119C00150000'],
+          assetClass: 'options',
+          dataType: 'quotes',
+          start: '2024-01-02',
+        })
+      ).rejects.toThrow('not available for options')
+    })
+  })
+})
@@ -0,0 +1,287 @@
+/**
+ * Unit tests for the order lifecycle tracker
+ *
+ * REST calls are mocked with MSW; the trade updates stream is a hand-driven fake.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { createTradingClient } from '../src/trading/client'
+import { submitAndTrack } from '../src/order-tracker'
+import type { TradeUpdate, TradeUpdatesStream } from '../src/streaming'
+
+const BASE_URL = 'https://paper-api.alpaca.markets'
+
+const TEST_CONFIG = {
+  keyId: 'test-key-id',
+  secretKey: 'test-secret-key',
+  paper: true,
+  maxRetries: 0,
+}
+
+const ORDER_REQUEST = {
+  symbol: 'AAPL',
+  qty: '10',
+  side: 'buy' as const,
+  type: 'market' as const,
+  time_in_force: 'day' as const,
+}
+
+const order = (status: string, filledQty = '0', updatedAt = '2024-01-02T14:30:00Z') => ({
+  id: 'order-1',
+  symbol: 'AAPL',
+  qty: '10',
+  status,
+  filled_qty: filledQty,
+  updated_at: updatedAt,
+})
+
+function addHandler<T>(handlers: Set<T>, handler: T): () => void {
+  handlers.add(handler)
+  return () => {
+    handlers.delete(handler)
+  }
+}
+
+/** Fake stream whose connection state and events are driven by the test */
+function createFakeStream() {
+  const updateHandlers = new Set<(update: TradeUpdate) => void>()
+  const connectHandlers = new Set<() => void>()
+  let connected = true
+
+  const stream: TradeUpdatesStream = {
+    connect: () => {},
+    disconnect: () => {},
+    isConnected: () => connected,
+    subscribe: () => {},
+    unsubscribe: () => {},
+    listen: () => {},
+    unlisten: () => {},
+    onTradeUpdate: (handler) => addHandler(updateHandlers, handler),
+    onFill: () => () => {},
+    onCanceled: () => () => {},
+    onStreamMessage: () => () => {},
+    onConnect: (handler) => addHandler(connectHandlers, handler),
+    onDisconnect: () => () => {},
+    onError: () => () => {},
+    onStateChange: () => () => {},
+  }
+
+  return {
+    stream,
+    /** Number of trade update and connect handlers still registered */
+    handlerCount: () => updateHandlers.size + connectHandlers.size,
+    emit(event: string, payload: unknown) {
+      for (const handler of updateHandlers) handler({ event, order: payload })
+    },
+    setConnected(value: boolean) {
+      connected = value
+      if (value) for (const handler of connectHandlers) handler()
+    },
+  }
+}
+
+const server = setupServer()
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' })
+})
+
+afterEach(() => {
+  server.resetHandlers()
+})
+
+afterAll(() => {
+  server.close()
+})
+
+describe('submitAndTrack', () => {
+  const trading = createTradingClient(TEST_CONFIG)
+
+  function useCreatedOrder() {
+    server.use(http.post(`${BASE_URL}/v2/orders`, () => HttpResponse.json(order('new'))))
+  }
+
+  it('should resolve awaitTerminal from stream updates', async () => {
+    useCreatedOrder()
+    const fake = createFakeStream()
+
+    const tracked = await submitAndTrack(trading, fake.stream, ORDER_REQUEST)
+    const partialFills: string[] = []
+    tracked.onPartialFill((o) => partialFills.push(o.filled_qty ?? ''))
+
+    expect(tracked.id).toBe('order-1')
+    expect(tracked.getOrder().status).toBe('new')
+
+    fake.emit('partial_fill', order('partially_filled', '4', '2024-01-02T14:30:01Z'))
+    fake.emit('fill', order('filled', '10', '2024-01-02T14:30:02Z'))
+
+    const result = await tracked.awaitTerminal({ timeout: 1000 })
+    expect(result.status).toBe('filled')
+    expect(tracked.isTerminal()).toBe(true)
+    expect(partialFills).toEqual(['4'])
+    // Handlers are removed from the stream once the order is terminal
+    expect(fake.handlerCount()).toBe(0)
+  })
+
+  it('should ignore updates for other orders and stale states', async () => {
+    useCreatedOrder()
+    const fake = createFakeStream()
+
+    const tracked = await submitAndTrack(trading, fake.stream, ORDER_REQUEST)
+    fake.emit('fill', { ...order('filled', '10'), id: 'order-2' })
+    fake.emit('partial_fill', order('partially_filled', '6', '2024-01-02T14:30:02Z'))
+    fake.emit('partial_fill', order('partially_filled', '4', '2024-01-02T14:30:01Z'))
+
+    expect(tracked.getOrder().filled_qty).toBe('6')
+    tracked.stop()
+  })
+
+  it('should apply a fill that arrives before the create response', async () => {
+    const fake = createFakeStream()
+    server.use(
+      http.post(`${BASE_URL}/v2/orders`, () => {
+        fake.emit('fill', order('filled', '10', '2024-01-02T14:30:02Z'))
+        return HttpResponse.json(order('new'))
+      })
+    )
+
+    const tracked = await submitAndTrack(trading, fake.stream, ORDER_REQUEST)
+
+    expect(tracked.isTerminal()).toBe(true)
+    expect((await tracked.awaitTerminal()).status).toBe('filled')
+  })
+
+  it('should follow a replaced order to its replacement', async () => {
+    useCreatedOrder()
+    const replacement = (status: string, filledQty = '0', updatedAt = '2024-01-02T14:30:01Z') => ({
+      ...order(status, filledQty, updatedAt),
+      id: 'order-2',
+      replaces: 'order-1',
+    })
+    server.use(
+      http.get(`${BASE_URL}/v2/orders/order-2`, () => HttpResponse.json(replacement('new')))
+    )
+    const fake = createFakeStream()
+
+    const tracked = await submitAndTrack(trading, fake.stream, ORDER_REQUEST)
+    const partialFills: string[] = []
+    tracked.onPartialFill((o) => partialFills.push(o.filled_qty ?? ''))
+    fake.emit('replaced', {
+      ...order('replaced', '0', '2024-01-02T14:30:01Z'),
+      replaced_by: 'order-2',
+    })
+
+    expect(tracked.id).toBe('order-2')
+    expect(tracked.isTerminal()).toBe(false)
+    await expect.poll(() => tracked.getOrder().id).toBe('order-2')
+
+    fake.emit('partial_fill', replacement('partially_filled', '4', '2024-01-02T14:30:02Z'))
+    fake.emit('fill', replacement('filled', '10', '2024-01-02T14:30:03Z'))
+
+    const result = await tracked.awaitTerminal({ timeout: 1000 })
+    expect(result).toMatchObject({ id: 'order-2', status: 'filled' })
+    expect(partialFills).toEqual(['4'])
+  })
+
+  it('should use a replacement update that arrives before the replaced event', async () => {
+    useCreatedOrder()
+    const fake = createFakeStream()
+
+    const tracked = await submitAndTrack(trading, fake.stream, ORDER_REQUEST)
+    fake.emit('new', {
+      ...order('new', '0', '2024-01-02T14:30:01Z'),
+      id: 'order-2',
+      replaces: 'order-1',
+    })
+    fake.emit('replaced', {
+      ...order('replaced', '0', '2024-01-02T14:30:01Z'),
+      replaced_by: 'order-2',
+    })
+
+    // No REST fetch: the unhandled request would fail the test
+    expect(tracked.getOrder()).toMatchObject({ id: 'order-2', status: 'new' })
+    tracked.stop()
+  })
+
+  it('should poll over REST while the stream is disconnected', async () => {
+    useCreatedOrder()
+    let polls = 0
+    server.use(
+      http.get(`${BASE_URL}/v2/orders/order-1`, () => {
+        polls++
+        return HttpResponse.json(
+          polls < 2 ? order('new') : order('canceled', '0', '2024-01-02T14:31:00Z')
+        )
+      })
+    )
+    const fake = createFakeStream()
+    fake.setConnected(false)
+
+    const tracked = await submitAndTrack(trading, fake.stream, ORDER_REQUEST, {
+      pollIntervalMs: 5,
+    })
+    const result = await tracked.awaitTerminal({ timeout: 1000 })
+
+    expect(result.status).toBe('canceled')
+    expect(polls).toBe(2)
+  })
+
+  it('should reconcile with REST after the stream reconnects', async () => {
+    useCreatedOrder()
+    server.use(
+      http.get(`${BASE_URL}/v2/orders/order-1`, () =>
+        HttpResponse.json(order('filled', '10', '2024-01-02T14:31:00Z'))
+      )
+    )
+    const fake = createFakeStream()
+
+    const tracked = await submitAndTrack(trading, fake.stream, ORDER_REQUEST, {
+      pollIntervalMs: 60_000,
+    })
+    // The fill happened while the connection was down; only the reconnect reveals it
+    fake.setConnected(false)
+    fake.setConnected(true)
+
+    expect((await tracked.awaitTerminal({ timeout: 1000 })).status).toBe('filled')
+  })
+
+  it('should reject awaitTerminal after the timeout', async () => {
+    useCreatedOrder()
+    const fake = createFakeStream()
+
+    const tracked = await submitAndTrack(trading, fake.stream, ORDER_REQUEST)
+
+    await expect(tracked.awaitTerminal({ timeout: 10 })).rejects.toThrow(
+      'Order order-1 did not reach a terminal state within 10ms'
+    )
+    tracked.stop()
+  })
+
+  it('should reject awaitTerminal when aborted', async () => {
+    useCreatedOrder()
+    const fake = createFakeStream()
+    const controller = new AbortController()
+
+    const tracked = await submitAndTrack(trading, fake.stream, ORDER_REQUEST)
+    const pending = tracked.awaitTerminal({ signal: controller.signal })
+    controller.abort(new Error('stop waiting'))
+
+    await expect(pending).rejects.toThrow('stop waiting')
+    tracked.stop()
+  })
+
+  it('should propagate order creation errors', async () => {
+    server.use(
+      http.post(`${BASE_URL}/v2/orders`, () =>
+        HttpResponse.json({ code: 40310000, message: 'insufficient buying power' }, { status: 403 })
+      )
+    )
+    const fake = createFakeStream()
+
+    await expect(submitAndTrack(trading, fake.stream, ORDER_REQUEST)).rejects.toMatchObject({
+      status: 403,
+    })
+  })
+})
@@ -9,7 +9,12 @@ import WebSocket from 'ws'
 import { createStockStream } from '../../src/streaming/stock-stream'
 import { createCryptoStream } from '../../src/streaming/crypto-stream'
 import { createTradeUpdatesStream } from '../../src/streaming/trade-updates-stream'
-import type { StockStreamConfig, CryptoStreamConfig, StreamConfig } from '../../src/streaming/types'
+import type {
+  StockStreamConfig,
+  CryptoStreamConfig,
+  StreamConfig,
+  OAuthStreamConfig,
+} from '../../src/streaming/types'
 
 /** Mock WebSocket instance interface */
 interface MockWebSocketInstance {
@@ -476,7 +481,13 @@ describe('streaming', () => {
       expect(stream).toHaveProperty('isConnected')
       expect(stream).toHaveProperty('subscribe')
       expect(stream).toHaveProperty('unsubscribe')
+      expect(stream).toHaveProperty('listen')
+      expect(stream).toHaveProperty('unlisten')
       expect(stream).toHaveProperty('onTradeUpdate')
+      expect(stream).toHaveProperty('onFill')
+      expect(stream).toHaveProperty('onCanceled')
+      expect(stream).toHaveProperty('onStreamMessage')
+      expect(stream).toHaveProperty('onStateChange')
       expect(stream).toHaveProperty('onConnect')
       expect(stream).toHaveProperty('onDisconnect')
       expect(stream).toHaveProperty('onError')
@@ -566,6 +577,69 @@ describe('streaming', () => {
       )
     })
 
+    it('should route fill and canceled events to typed handlers', () => {
+      const stream = createTradeUpdatesStream(testConfig)
+      const fillHandler = vi.fn()
+      const canceledHandler = vi.fn()
+
+      stream.onFill(fillHandler)
+      stream.onCanceled(canceledHandler)
+      stream.connect()
+
+      const ws = getMockWebSocket()
+
+      simulateOpen(ws)
+      simulateMessage(ws, {
+        stream: 'authorization',
+        data: { status: 'authorized', action: 'authenticate' },
+      })
+
+      const update = (event: string, extra: object = {}) => ({
+        stream: 'trade_updates',
+        data: { event, order: { id: '123', symbol: 'AAPL' }, ...extra },
+      })
+      const fill = { price: '150.25', qty: '4', position_qty: '4' }
+      simulateMessage(ws, update('new'))
+      simulateMessage(ws, update('partial_fill', fill))
+      simulateMessage(ws, update('fill', fill))
+      simulateMessage(ws, update('canceled', { timestamp: '2024-01-15T10:31:00Z' }))
+
+      expect(fillHandler.mock.calls.map((call) => call[0].event)).toEqual(['partial_fill', 'fill'])
+      expect(fillHandler).toHaveBeenCalledWith(expect.objectContaining({ position_qty: '4' }))
+      expect(canceledHandler).toHaveBeenCalledTimes(1)
+      expect(canceledHandler).toHaveBeenCalledWith(expect.objectContaining({ event: 'canceled' }))
+    })
+
+    it('should stop calling a handler once it is removed', () => {
+      const stream = createTradeUpdatesStream(testConfig)
+      const handler = vi.fn()
+      const fillHandler = vi.fn()
+
+      const removeHandler = stream.onTradeUpdate(handler)
+      const removeFillHandler = stream.onFill(fillHandler)
+      stream.connect()
+
+      const ws = getMockWebSocket()
+
+      simulateOpen(ws)
+      simulateMessage(ws, {
+        stream: 'authorization',
+        data: { status: 'authorized', action: 'authenticate' },
+      })
+
+      const fill = {
+        stream: 'trade_updates',
+        data: { event: 'fill', order: { id: '123' }, price: '1', qty: '1', position_qty: '1' },
+      }
+      simulateMessage(ws, fill)
+      removeHandler()
+      removeFillHandler()
+      simulateMessage(ws, fill)
+
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(fillHandler).toHaveBeenCalledTimes(1)
+    })
+
     it('should send listen message when subscribing', () => {
       const stream = createTradeUpdatesStream(testConfig)
       stream.connect()
@@ -1264,6 +1338,235 @@ describe('streaming', () => {
     })
   })
 
+  describe('TradeUpdatesStream connection management', () => {
+    beforeEach(() => {
+      vi.useFakeTimers()
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    const authorize = (ws: MockWebSocketInstance | null) => {
+      simulateOpen(ws)
+      simulateMessage(ws, {
+        stream: 'authorization',
+        data: { status: 'authorized', action: 'authenticate' },
+      })
+    }
+
+    const listenCalls = (ws: MockWebSocketInstance) =>
+      ws.send.mock.calls
+        .map((call: string[]) => JSON.parse(call[0]) as { action: string; data: object })
+        .filter((message) => message.action === 'listen')
+        .map((message) => message.data)
+
+    it('should emit state changes through the connection lifecycle', () => {
+      const stream = createTradeUpdatesStream(testConfig)
+      const states: string[] = []
+
+      stream.onStateChange((state) => states.push(state))
+      stream.connect()
+      authorize(getMockWebSocket())
+      stream.disconnect()
+
+      expect(states).toEqual(['connecting', 'authenticating', 'connected', 'disconnected'])
+    })
+
+    it('should emit error on connection timeout', () => {
+      const stream = createTradeUpdatesStream(testConfig)
+      const errorHandler = vi.fn()
+
+      stream.onError(errorHandler)
+      stream.connect()
+
+      const ws = getMockWebSocket()
+
+      // Socket opens but the server never answers the authenticate message
+      simulateOpen(ws)
+      vi.advanceTimersByTime(30000)
+
+      expect(errorHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Connection timeout' })
+      )
+      expect(ws.close).toHaveBeenCalled()
+    })
+
+    it('should not reconnect after authentication failure', () => {
+      const stream = createTradeUpdatesStream(testConfig)
+      stream.onError(vi.fn())
+      stream.connect()
+
+      const MockWS = WebSocket as unknown as ReturnType<typeof vi.fn>
+      const ws = getMockWebSocket()
+
+      simulateOpen(ws)
+      simulateMessage(ws, {
+        stream: 'authorization',
+        data: { status: 'unauthorized', action: 'authenticate' },
+      })
+      vi.advanceTimersByTime(30000)
+
+      expect(MockWS).toHaveBeenCalledTimes(1)
+      expect(stream.isConnected()).toBe(false)
+    })
+
+    it('should restore listened streams after reconnect', () => {
+      const stream = createTradeUpdatesStream(testConfig)
+      stream.connect()
+
+      let ws = getMockWebSocket()
+      authorize(ws)
+      stream.subscribe()
+
+      if (ws?.onclose) ws.onclose()
+      vi.advanceTimersByTime(1000)
+
+      ws = getMockWebSocket()
+      authorize(ws)
+
+      expect(listenCalls(ws)).toEqual([{ streams: ['trade_updates'] }])
+    })
+
+    it('should listen again after a manual disconnect and connect', () => {
+      const stream = createTradeUpdatesStream(testConfig)
+      stream.connect()
+
+      let ws = getMockWebSocket()
+      authorize(ws)
+      stream.subscribe()
+      expect(listenCalls(ws)).toEqual([{ streams: ['trade_updates'] }])
+
+      stream.disconnect()
+      stream.connect()
+      ws = getMockWebSocket()
+      authorize(ws)
+      stream.subscribe()
+
+      expect(listenCalls(ws)).toEqual([{ streams: ['trade_updates'] }])
+    })
+
+    it('should apply listen changes made while reconnecting', () => {
+      const stream = createTradeUpdatesStream(testConfig)
+      stream.connect()
+
+      let ws = getMockWebSocket()
+      authorize(ws)
+      stream.subscribe()
+
+      if (ws?.onclose) ws.onclose()
+      stream.unsubscribe()
+      stream.listen(['account_updates'])
+      vi.advanceTimersByTime(1000)
+
+      ws = getMockWebSocket()
+      authorize(ws)
+
+      expect(listenCalls(ws)).toEqual([{ streams: ['account_updates'] }])
+    })
+
+    it('should listen to streams added between a disconnect and the next connect', () => {
+      const stream = createTradeUpdatesStream(testConfig)
+      stream.connect()
+
+      let ws = getMockWebSocket()
+      authorize(ws)
+      stream.subscribe()
+
+      stream.disconnect()
+      stream.listen(['account_updates'])
+      stream.connect()
+      ws = getMockWebSocket()
+      authorize(ws)
+
+      expect(listenCalls(ws)).toEqual([{ streams: ['trade_updates', 'account_updates'] }])
+    })
+
+    it('should keep streams listened to before a connect that was cut short', () => {
+      const stream = createTradeUpdatesStream(testConfig)
+      stream.subscribe()
+      stream.connect()
+      stream.disconnect()
+
+      stream.connect()
+      const ws = getMockWebSocket()
+      authorize(ws)
+
+      expect(listenCalls(ws)).toEqual([{ streams: ['trade_updates'] }])
+    })
+
+    it('should listen to additional streams and deliver their messages', () => {
+      const stream = createTradeUpdatesStream(testConfig)
+      const tradeUpdateHandler = vi.fn()
+      const messageHandler = vi.fn()
+
+      stream.onTradeUpdate(tradeUpdateHandler)
+      stream.onStreamMessage(messageHandler)
+      stream.connect()
+
+      const ws = getMockWebSocket()
+      authorize(ws)
+      stream.subscribe()
+      stream.listen(['account_updates'])
+      stream.listen(['account_updates'])
+
+      expect(listenCalls(ws)).toEqual([
+        { streams: ['trade_updates'] },
+        { streams: ['trade_updates', 'account_updates'] },
+      ])
+
+      simulateMessage(ws, { stream: 'account_updates', data: { status: 'ACTIVE' } })
+
+      expect(messageHandler).toHaveBeenCalledWith({
+        stream: 'account_updates',
+        data: { status: 'ACTIVE' },
+      })
+      expect(tradeUpdateHandler).not.toHaveBeenCalled()
+
+      stream.unlisten(['trade_updates'])
+      expect(listenCalls(ws).at(-1)).toEqual({ streams: ['account_updates'] })
+    })
+  })
+
+  describe('OAuth authentication', () => {
+    const oauthConfig: OAuthStreamConfig = { accessToken: 'oauth-token', paper: true }
+
+    it('should authenticate market data streams with the oauth key', () => {
+      for (const stream of [createStockStream(oauthConfig), createCryptoStream(oauthConfig)]) {
+        stream.connect()
+
+        const ws = getMockWebSocket()
+
+        simulateOpen(ws)
+        simulateMessage(ws, [{ T: 'success', msg: 'connected' }])
+
+        expect(ws.send).toHaveBeenCalledWith(
+          JSON.stringify({ action: 'auth', key: 'oauth', secret: 'oauth-token' })
+        )
+      }
+    })
+
+    it('should authenticate the trade updates stream with oauth_token', () => {
+      const stream = createTradeUpdatesStream(oauthConfig)
+      stream.connect()
+
+      const ws = getMockWebSocket()
+
+      simulateOpen(ws)
+
+      expect(ws.send).toHaveBeenCalledWith(
+        JSON.stringify({ action: 'authenticate', data: { oauth_token: 'oauth-token' } })
+      )
+    })
+
+    it('should reject an empty access token when the stream is created', () => {
+      expect(() => createTradeUpdatesStream({ accessToken: '' })).toThrow(
+        'OAuth token cannot be empty'
+      )
+      expect(() => createStockStream({ accessToken: '' })).toThrow('OAuth token cannot be empty')
+    })
+  })
+
   describe('Connection behavior', () => {
     it('should not create new connection if already connecting', () => {
       const stream = createStockStream(testConfig)
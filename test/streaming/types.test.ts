@@ -3,8 +3,9 @@
  */
 
 import { describe, it, expect } from 'vitest'
-import { isTrade, isQuote, isBar } from '../../src/streaming/types'
-import type { Trade, Quote, Bar } from '../../src/streaming/types'
+import { isTrade, isQuote, isBar, isFillUpdate } from '../../src/streaming/types'
+import type { Trade, Quote, Bar, FillTradeUpdate } from '../../src/streaming/types'
+import type { Order } from '../../src/trading'
 
 describe('streaming type guards', () => {
   describe('isTrade', () => {
@@ -241,4 +242,29 @@ describe('streaming type guards', () => {
       expect(isBar({ T: 'b' })).toBe(false)
     })
   })
+
+  describe('isFillUpdate', () => {
+    const order = { id: '123', symbol: 'AAPL' } as Order
+
+    it('should return true for fill and partial_fill events', () => {
+      const fill: FillTradeUpdate = {
+        event: 'fill',
+        order,
+        price: '150.25',
+        qty: '10',
+        position_qty: '10',
+        timestamp: '2024-01-15T10:30:00Z',
+      }
+
+      expect(isFillUpdate(fill)).toBe(true)
+      expect(isFillUpdate({ ...fill, event: 'partial_fill' })).toBe(true)
+    })
+
+    it('should return false for other events', () => {
+      expect(isFillUpdate({ event: 'new', order })).toBe(false)
+      expect(isFillUpdate({ event: 'canceled', order, timestamp: '2024-01-15T10:30:00Z' })).toBe(
+        false
+      )
+    })
+  })
 })
@@ -0,0 +1,62 @@
+/**
+ * Unit tests for account activity type guards
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  isActivityOfType,
+  isFillActivity,
+  isNonTradeActivity,
+  isDividendActivity,
+  isInterestActivity,
+  isFeeActivity,
+  isCashTransferActivity,
+} from '../../src/trading/activities'
+import type { AccountActivity } from '../../src/trading/activities'
+
+const fill: AccountActivity = { id: 'f-1', activity_type: 'FILL', symbol: 'AAPL', qty: '10' }
+const dividend: AccountActivity = { id: 'd-1', activity_type: 'DIV', net_amount: '12.5' }
+const withholding: AccountActivity = { id: 'd-2', activity_type: 'DIVNRA', net_amount: '-1.8' }
+const interest: AccountActivity = { id: 'i-1', activity_type: 'INTTW', net_amount: '-0.2' }
+const fee: AccountActivity = { id: 'c-1', activity_type: 'CFEE', net_amount: '-0.01' }
+const deposit: AccountActivity = { id: 't-1', activity_type: 'CSD', net_amount: '1000' }
+const untyped: AccountActivity = { id: 'u-1' }
+
+describe('account activity type guards', () => {
+  it('should match fills only with isFillActivity', () => {
+    expect(isFillActivity(fill)).toBe(true)
+    expect(isFillActivity(dividend)).toBe(false)
+    expect(isFillActivity(untyped)).toBe(false)
+  })
+
+  it('should treat every typed non-fill activity as non-trade', () => {
+    expect(isNonTradeActivity(dividend)).toBe(true)
+    expect(isNonTradeActivity(deposit)).toBe(true)
+    expect(isNonTradeActivity(fill)).toBe(false)
+    expect(isNonTradeActivity(untyped)).toBe(false)
+  })
+
+  it('should match all DIV* types with isDividendActivity', () => {
+    expect(isDividendActivity(dividend)).toBe(true)
+    expect(isDividendActivity(withholding)).toBe(true)
+    expect(isDividendActivity(interest)).toBe(false)
+    expect(isDividendActivity(untyped)).toBe(false)
+  })
+
+  it('should match interest, fee and cash transfer groups', () => {
+    expect(isInterestActivity(interest)).toBe(true)
+    expect(isInterestActivity(dividend)).toBe(false)
+    expect(isFeeActivity(fee)).toBe(true)
+    expect(isFeeActivity(withholding)).toBe(false)
+    expect(isCashTransferActivity(deposit)).toBe(true)
+    expect(isCashTransferActivity(fee)).toBe(false)
+  })
+
+  it('should narrow to an exact type with isActivityOfType', () => {
+    const activities = [fill, dividend, withholding, deposit]
+    const divs = activities.filter((a) => isActivityOfType(a, 'DIV'))
+
+    expect(divs).toEqual([dividend])
+    expect(isActivityOfType(deposit, 'CSW')).toBe(false)
+  })
+})
@@ -5,11 +5,15 @@
  * requests with MSW (Mock Service Worker). No actual API calls are made.
  */
 
-import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest'
 import { setupServer } from 'msw/node'
-import { http, HttpResponse } from 'msw'
+import { http, HttpResponse, delay } from 'msw'
 import { createTradingClient } from '../../src/trading/client'
-import type { Account, Order, Position, Clock } from '../../src/trading/client'
+import type { Account, Order, Position, Clock, OptionContract } from '../../src/trading/client'
+import { createRateLimiter } from '../../src/core/rate-limiter'
+import { withMeta } from '../../src/core/response'
+import type { ResponseMeta } from '../../src/core/response'
+import type { RateLimiter } from '../../src/core/rate-limiter'
 
 // Paper trading base URL
 const BASE_URL = 'https://paper-api.alpaca.markets'
@@ -111,6 +115,23 @@ const mockAsset = {
   fractionable: true,
 }
 
+const mockOptionContract: OptionContract = {
+  id: 'contract-123',
+  symbol: 'AAPL240119C00150000',
+  name: 'AAPL Jan 19 2024 150 Call',
+  status: 'active',
+  tradable: true,
+  expiration_date: '2024-01-19',
+  root_symbol: 'AAPL',
+  underlying_symbol: 'AAPL',
+  underlying_asset_id: 'asset-123',
+  type: 'call',
+  style: 'american',
+  strike_price: '150',
+  multiplier: '100',
+  size: '100',
+}
+
 // MSW server setup
 const server = setupServer()
 
@@ -221,6 +242,23 @@ describe('account.get()', () => {
     expect(capturedHeaders!.get('APCA-API-KEY-ID')).toBe('test-key-id')
     expect(capturedHeaders!.get('APCA-API-SECRET-KEY')).toBe('test-secret-key')
   })
+
+  it('should send a Bearer token when created with an OAuth access token', async () => {
+    let capturedHeaders: Headers | null = null
+
+    server.use(
+      http.get(`${BASE_URL}/v2/account`, ({ request }) => {
+        capturedHeaders = request.headers
+        return HttpResponse.json(mockAccount)
+      })
+    )
+
+    const client = createTradingClient({ accessToken: 'oauth-token', maxRetries: 0 })
+    await client.account.get()
+
+    expect(capturedHeaders!.get('Authorization')).toBe('Bearer oauth-token')
+    expect(capturedHeaders!.has('APCA-API-KEY-ID')).toBe(false)
+  })
 })
 
 describe('orders.list()', () => {
@@ -274,6 +312,171 @@ describe('orders.list()', () => {
   })
 })
 
+describe('orders.iterate()', () => {
+  const order = (id: string, submittedAt: string) => ({
+    ...mockOrder,
+    id,
+    submitted_at: submittedAt,
+  })
+
+  it('should walk the until window backwards and skip boundary duplicates', async () => {
+    const requests: URLSearchParams[] = []
+
+    server.use(
+      http.get(`${BASE_URL}/v2/orders`, ({ request }) => {
+        const params = new URL(request.url).searchParams
+        requests.push(params)
+        if (!params.get('until')) {
+          return HttpResponse.json([
+            order('o-3', '2024-01-15T10:30:02Z'),
+            order('o-2', '2024-01-15T10:30:01Z'),
+          ])
+        }
+        // The window is widened by 1ms, so o-2 comes back again
+        return HttpResponse.json([
+          order('o-2', '2024-01-15T10:30:01Z'),
+          order('o-1', '2024-01-15T10:30:01Z'),
+        ])
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const orders = await client.orders.iterate({ status: 'all', limit: 2 }).toArray()
+
+    expect(orders.map((o) => o.id)).toEqual(['o-3', 'o-2', 'o-1'])
+    expect(requests[1]!.get('until')).toBe('2024-01-15T10:30:01.001Z')
+    expect(requests[1]!.get('status')).toBe('all')
+    // The last page adds only o-1, so a third request asks for anything older
+    expect(requests).toHaveLength(3)
+  })
+
+  it('should move the after bound forward when direction is asc', async () => {
+    const afterParams: (string | null)[] = []
+
+    server.use(
+      http.get(`${BASE_URL}/v2/orders`, ({ request }) => {
+        const after = new URL(request.url).searchParams.get('after')
+        afterParams.push(after)
+        return HttpResponse.json(
+          after === '2024-01-01T00:00:00Z' ? [order('o-1', '2024-01-15T10:30:00Z')] : []
+        )
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const orders = await client.orders
+      .iterate({ direction: 'asc', after: '2024-01-01T00:00:00Z', limit: 1 })
+      .toArray()
+
+    expect(orders).toHaveLength(1)
+    expect(afterParams).toEqual(['2024-01-01T00:00:00Z', '2024-01-15T10:29:59.999Z'])
+  })
+
+  it('should stop after maxItems', async () => {
+    let calls = 0
+
+    server.use(
+      http.get(`${BASE_URL}/v2/orders`, () => {
+        calls++
+        return HttpResponse.json([
+          order(`o-${String(calls)}a`, `2024-01-1${String(calls)}T10:00:00Z`),
+          order(`o-${String(calls)}b`, `2024-01-1${String(calls)}T09:00:00Z`),
+        ])
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const orders = await client.orders.iterate({ limit: 2 }, { maxItems: 3 }).toArray()
+
+    expect(orders.map((o) => o.id)).toEqual(['o-1a', 'o-1b', 'o-2a'])
+    expect(calls).toBe(2)
+  })
+})
+
+describe('account.iterateActivities()', () => {
+  it('should follow page_token using the last activity id', async () => {
+    const pageTokens: (string | null)[] = []
+    const fill = (id: string) => ({ id, activity_type: 'FILL' })
+
+    server.use(
+      http.get(`${BASE_URL}/v2/account/activities`, ({ request }) => {
+        const params = new URL(request.url).searchParams
+        pageTokens.push(params.get('page_token'))
+        return HttpResponse.json(
+          params.get('page_token') ? [fill('a-3')] : [fill('a-1'), fill('a-2')]
+        )
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const activities = await client.account
+      .iterateActivities({ activity_types: ['FILL'], page_size: 2 })
+      .toArray()
+
+    expect(activities.map((a) => a.id)).toEqual(['a-1', 'a-2', 'a-3'])
+    expect(pageTokens).toEqual([null, 'a-2'])
+  })
+
+  it('should default page_size to 100', async () => {
+    let pageSize: string | null = null
+
+    server.use(
+      http.get(`${BASE_URL}/v2/account/activities`, ({ request }) => {
+        pageSize = new URL(request.url).searchParams.get('page_size')
+        return HttpResponse.json([])
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const activities = await client.account.iterateActivities().toArray()
+
+    expect(activities).toEqual([])
+    expect(pageSize).toBe('100')
+  })
+})
+
+describe('account.getActivitiesByType()', () => {
+  it('should request the activity type path with query params', async () => {
+    let capturedUrl: URL | null = null
+
+    server.use(
+      http.get(`${BASE_URL}/v2/account/activities/:activityType`, ({ request }) => {
+        capturedUrl = new URL(request.url)
+        return HttpResponse.json([
+          { id: 'a-1', activity_type: 'DIV', symbol: 'AAPL', net_amount: '12.5' },
+        ])
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const dividends = await client.account.getActivitiesByType('DIV', {
+      after: '2024-01-01',
+      direction: 'asc',
+    })
+
+    expect(capturedUrl!.pathname).toBe('/v2/account/activities/DIV')
+    expect(capturedUrl!.searchParams.get('after')).toBe('2024-01-01')
+    expect(capturedUrl!.searchParams.get('direction')).toBe('asc')
+    expect(dividends[0]?.net_amount).toBe('12.5')
+  })
+
+  it('should return fills as trading activities', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/account/activities/FILL`, () =>
+        HttpResponse.json([
+          { id: 'f-1', activity_type: 'FILL', symbol: 'AAPL', qty: '10', price: '185.5' },
+        ])
+      )
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const fills = await client.account.getActivitiesByType('FILL')
+
+    expect(fills).toHaveLength(1)
+    expect(fills[0]?.price).toBe('185.5')
+  })
+})
+
 describe('orders.create()', () => {
   it('should send correct request body for market order', async () => {
     let capturedBody: unknown = null
@@ -463,6 +666,145 @@ describe('positions.get()', () => {
   })
 })
 
+describe('positions.exercise()', () => {
+  it('should post an exercise instruction', async () => {
+    let exercised: string | undefined
+    server.use(
+      http.post(`${BASE_URL}/v2/positions/:symbol/exercise`, ({ params }) => {
+        exercised = params.symbol as string
+        return new HttpResponse(null, { status: 200 })
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    await client.positions.exercise('AAPL240119C00150000')
+
+    expect(exercised).toBe('AAPL240119C00150000')
+  })
+
+  it('should surface rejections outside exercise hours', async () => {
+    server.use(
+      http.post(`${BASE_URL}/v2/positions/:symbol/exercise`, () =>
+        HttpResponse.json({ code: 42210000, message: 'exercise not allowed' }, { status: 422 })
+      )
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+
+    await expect(client.positions.exercise('AAPL240119C00150000')).rejects.toMatchObject({
+      status: 422,
+    })
+  })
+})
+
+describe('positions.doNotExercise()', () => {
+  it('should post a do-not-exercise instruction', async () => {
+    let symbol: string | undefined
+    server.use(
+      http.post(`${BASE_URL}/v2/positions/:symbol/do-not-exercise`, ({ params }) => {
+        symbol = params.symbol as string
+        return new HttpResponse(null, { status: 200 })
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    await client.positions.doNotExercise('AAPL240119P00150000')
+
+    expect(symbol).toBe('AAPL240119P00150000')
+  })
+})
+
+describe('positions.listExpiringInTheMoney()', () => {
+  const optionPosition = (symbol: string, side = 'long'): Position => ({
+    ...mockPosition,
+    symbol,
+    asset_class: 'us_option',
+    side,
+  })
+
+  const contracts: Record<string, OptionContract> = {
+    AAPL240119C00150000: mockOptionContract,
+    AAPL240119P00150000: {
+      ...mockOptionContract,
+      symbol: 'AAPL240119P00150000',
+      type: 'put',
+    },
+    AAPL240119C00170000: {
+      ...mockOptionContract,
+      symbol: 'AAPL240119C00170000',
+      strike_price: '170',
+    },
+    AAPL240126C00150000: {
+      ...mockOptionContract,
+      symbol: 'AAPL240126C00150000',
+      expiration_date: '2024-01-26',
+    },
+  }
+
+  function usePositions(positions: Position[]) {
+    server.use(
+      http.get(`${BASE_URL}/v2/positions`, () => HttpResponse.json(positions)),
+      http.get(`${BASE_URL}/v2/options/contracts/:symbolOrId`, ({ params }) =>
+        HttpResponse.json(contracts[params.symbolOrId as string])
+      )
+    )
+  }
+
+  it('should return long contracts expiring on the date that are in the money', async () => {
+    usePositions([
+      mockPosition,
+      optionPosition('AAPL240119C00150000'),
+      optionPosition('AAPL240119P00150000'),
+      optionPosition('AAPL240119C00170000'),
+      optionPosition('AAPL240126C00150000'),
+    ])
+    const underlyingPrices = vi.fn(() => ({ AAPL: 160 }))
+
+    const client = createTradingClient(TEST_CONFIG)
+    const expiring = await client.positions.listExpiringInTheMoney({
+      underlyingPrices,
+      date: '2024-01-19',
+    })
+
+    expect(underlyingPrices).toHaveBeenCalledWith(['AAPL'])
+    expect(expiring).toEqual([
+      {
+        position: optionPosition('AAPL240119C00150000'),
+        contract: mockOptionContract,
+        underlyingPrice: 160,
+        intrinsicValue: 10,
+      },
+    ])
+  })
+
+  it('should ignore short positions and skip pricing when nothing expires', async () => {
+    usePositions([optionPosition('AAPL240119C00150000', 'short')])
+    const underlyingPrices = vi.fn(() => ({}))
+
+    const client = createTradingClient(TEST_CONFIG)
+    const expiring = await client.positions.listExpiringInTheMoney({
+      underlyingPrices,
+      date: '2024-01-19',
+    })
+
+    expect(expiring).toEqual([])
+    expect(underlyingPrices).not.toHaveBeenCalled()
+  })
+
+  it('should throw when an underlying price is missing', async () => {
+    usePositions([optionPosition('AAPL240119P00150000')])
+
+    const client = createTradingClient(TEST_CONFIG)
+
+    await expect(
+      client.positions.listExpiringInTheMoney({
+        underlyingPrices: () => Promise.resolve({}),
+        date: '2024-01-19',
+      })
+    ).rejects.toThrow('No price for underlying AAPL')
+  })
+})
+
 describe('assets.list()', () => {
   it('should return an array of assets', async () => {
     const mockAssets = [
@@ -518,6 +860,91 @@ describe('assets.list()', () => {
   })
 })
 
+describe('options.listContracts()', () => {
+  it('should return a page of contracts', async () => {
+    let capturedUrl: URL | null = null
+
+    server.use(
+      http.get(`${BASE_URL}/v2/options/contracts`, ({ request }) => {
+        capturedUrl = new URL(request.url)
+        return HttpResponse.json({
+          option_contracts: [mockOptionContract],
+          next_page_token: 'next',
+        })
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const page = await client.options.listContracts({
+      underlying_symbols: 'AAPL',
+      type: 'call',
+      strike_price_gte: 140,
+    })
+
+    expect(page.option_contracts).toEqual([mockOptionContract])
+    expect(page.next_page_token).toBe('next')
+    expect(capturedUrl!.searchParams.get('underlying_symbols')).toBe('AAPL')
+    expect(capturedUrl!.searchParams.get('strike_price_gte')).toBe('140')
+  })
+})
+
+describe('options.iterateContracts()', () => {
+  it('should follow next_page_token across pages', async () => {
+    const pageTokens: (string | null)[] = []
+
+    server.use(
+      http.get(`${BASE_URL}/v2/options/contracts`, ({ request }) => {
+        const url = new URL(request.url)
+        const pageToken = url.searchParams.get('page_token')
+        pageTokens.push(pageToken)
+        expect(url.searchParams.get('underlying_symbols')).toBe('AAPL')
+        return pageToken
+          ? HttpResponse.json({
+              option_contracts: [{ ...mockOptionContract, id: 'contract-456' }],
+              next_page_token: null,
+            })
+          : HttpResponse.json({ option_contracts: [mockOptionContract], next_page_token: 'page-2' })
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const contracts = await client.options
+      .iterateContracts({ underlying_symbols: 'AAPL' })
+      .toArray()
+
+    expect(contracts.map((contract) => contract.id)).toEqual(['contract-123', 'contract-456'])
+    expect(pageTokens).toEqual([null, 'page-2'])
+  })
+})
+
+describe('options.getContract()', () => {
+  it('should get a contract by symbol', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/options/contracts/:symbolOrId`, ({ params }) => {
+        expect(params.symbolOrId).toBe('AAPL240119C00150000')
+        return HttpResponse.json(mockOptionContract)
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const contract = await client.options.getContract('AAPL240119C00150000')
+
+    expect(contract.strike_price).toBe('150')
+  })
+
+  it('should reject for an unknown contract', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/options/contracts/:symbolOrId`, () =>
+        HttpResponse.json({ code: 40410000, message: 'contract not found' }, { status: 404 })
+      )
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+
+    await expect(client.options.getContract('UNKNOWN')).rejects.toMatchObject({ status: 404 })
+  })
+})
+
 describe('clock.get()', () => {
   it('should return market clock data', async () => {
     server.use(
@@ -900,6 +1327,9 @@ describe('additional endpoint coverage', () => {
 })
 
 describe('watchlists', () => {
+  // `:by_name` is literal, so match with a RegExp rather than an MSW path pattern
+  const BY_NAME_URL = /\/v2\/watchlists:by_name$/
+
   const mockWatchlist = {
     id: 'wl-123',
     account_id: 'account-123',
@@ -1351,59 +1781,619 @@ describe('watchlists', () => {
       })
     })
   })
-})
 
-describe('options parameter branch coverage', () => {
-  it('account.get() should accept options with signal', async () => {
-    server.use(
-      http.get(`${BASE_URL}/v2/account`, () => {
-        return HttpResponse.json(mockAccount)
-      })
-    )
+  describe('by name', () => {
+    it('should get a watchlist by name', async () => {
+      let capturedName: string | null = null
 
-    const client = createTradingClient(TEST_CONFIG)
-    const controller = new AbortController()
-    const account = await client.account.get({ signal: controller.signal })
+      server.use(
+        http.get(BY_NAME_URL, ({ request }) => {
+          capturedName = new URL(request.url).searchParams.get('name')
+          return HttpResponse.json(mockWatchlist)
+        })
+      )
 
-    expect(account.id).toBe('account-123')
-  })
+      const client = createTradingClient(TEST_CONFIG)
+      const watchlist = await client.watchlists.getByName('Tech Stocks')
 
-  it('account.getConfigurations() should accept options with signal', async () => {
-    server.use(
-      http.get(`${BASE_URL}/v2/account/configurations`, () => {
-        return HttpResponse.json({ dtbp_check: 'entry' })
-      })
-    )
+      expect(capturedName).toBe('Tech Stocks')
+      expect(watchlist.id).toBe('wl-123')
+    })
 
-    const client = createTradingClient(TEST_CONFIG)
-    const controller = new AbortController()
-    const configs = await client.account.getConfigurations({ signal: controller.signal })
+    it('should keep the name when updating by name', async () => {
+      let capturedBody: unknown = null
 
-    expect(configs.dtbp_check).toBe('entry')
-  })
+      server.use(
+        http.put(BY_NAME_URL, async ({ request }) => {
+          capturedBody = await request.json()
+          return HttpResponse.json(mockWatchlist)
+        })
+      )
 
-  it('account.updateConfigurations() should accept options with signal', async () => {
-    server.use(
-      http.patch(`${BASE_URL}/v2/account/configurations`, () => {
-        return HttpResponse.json({ no_shorting: true })
-      })
-    )
+      const client = createTradingClient(TEST_CONFIG)
+      await client.watchlists.updateByName('Tech Stocks', { symbols: ['AAPL'] })
 
-    const client = createTradingClient(TEST_CONFIG)
-    const controller = new AbortController()
-    await client.account.updateConfigurations({ no_shorting: true }, { signal: controller.signal })
-  })
+      expect(capturedBody).toEqual({ name: 'Tech Stocks', symbols: ['AAPL'] })
+    })
 
-  it('account.getActivities() should accept options with signal', async () => {
-    server.use(
-      http.get(`${BASE_URL}/v2/account/activities`, () => {
-        return HttpResponse.json([])
-      })
-    )
+    it('should keep the symbols when only renaming by name', async () => {
+      let capturedBody: unknown = null
 
-    const client = createTradingClient(TEST_CONFIG)
-    const controller = new AbortController()
-    const activities = await client.account.getActivities({}, { signal: controller.signal })
+      server.use(
+        http.get(BY_NAME_URL, () => HttpResponse.json(mockWatchlist)),
+        http.put(BY_NAME_URL, async ({ request }) => {
+          capturedBody = await request.json()
+          return HttpResponse.json({ ...mockWatchlist, name: 'Big Tech' })
+        })
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+      await client.watchlists.updateByName('Tech Stocks', { name: 'Big Tech' })
+
+      expect(capturedBody).toEqual({ name: 'Big Tech', symbols: ['AAPL', 'MSFT'] })
+    })
+
+    it('should add a symbol by name', async () => {
+      let capturedBody: unknown = null
+
+      server.use(
+        http.post(BY_NAME_URL, async ({ request }) => {
+          capturedBody = await request.json()
+          return HttpResponse.json(mockWatchlist)
+        })
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+      await client.watchlists.addSymbolByName('Tech Stocks', 'MSFT')
+
+      expect(capturedBody).toEqual({ symbol: 'MSFT' })
+    })
+
+    it('should delete by name', async () => {
+      let capturedName: string | null = null
+
+      server.use(
+        http.delete(BY_NAME_URL, ({ request }) => {
+          capturedName = new URL(request.url).searchParams.get('name')
+          return new HttpResponse(null, { status: 204 })
+        })
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+
+      await expect(client.watchlists.deleteByName('Tech Stocks')).resolves.toBeUndefined()
+      expect(capturedName).toBe('Tech Stocks')
+    })
+  })
+
+  describe('watchlists.upsert()', () => {
+    it('should replace the symbols of an existing watchlist', async () => {
+      let capturedBody: unknown = null
+
+      server.use(
+        http.put(BY_NAME_URL, async ({ request }) => {
+          capturedBody = await request.json()
+          return HttpResponse.json(mockWatchlist)
+        })
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+      const watchlist = await client.watchlists.upsert('Tech Stocks', ['AAPL', 'MSFT'])
+
+      expect(watchlist.id).toBe('wl-123')
+      expect(capturedBody).toEqual({ name: 'Tech Stocks', symbols: ['AAPL', 'MSFT'] })
+    })
+
+    it('should create the watchlist when none has that name', async () => {
+      let createdBody: unknown = null
+
+      server.use(
+        http.put(BY_NAME_URL, () =>
+          HttpResponse.json({ code: 40410000, message: 'watchlist not found' }, { status: 404 })
+        ),
+        http.post(`${BASE_URL}/v2/watchlists`, async ({ request }) => {
+          createdBody = await request.json()
+          return HttpResponse.json(mockWatchlist)
+        })
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+      const watchlist = await client.watchlists.upsert('Tech Stocks', ['AAPL'])
+
+      expect(watchlist.id).toBe('wl-123')
+      expect(createdBody).toEqual({ name: 'Tech Stocks', symbols: ['AAPL'] })
+    })
+
+    it('should throw other errors', async () => {
+      server.use(
+        http.put(BY_NAME_URL, () =>
+          HttpResponse.json({ code: 42210000, message: 'invalid symbol' }, { status: 422 })
+        )
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+
+      await expect(client.watchlists.upsert('Tech Stocks', ['???'])).rejects.toMatchObject({
+        status: 422,
+      })
+    })
+  })
+})
+
+describe('corporateActions', () => {
+  const mockAnnouncement = {
+    id: 'ca-123',
+    ca_type: 'dividend',
+    ca_sub_type: 'cash',
+    initiating_symbol: 'AAPL',
+    record_date: '2024-02-12',
+    payable_date: '2024-02-15',
+    cash: '0.24',
+  }
+
+  it('should fetch a short range in one request', async () => {
+    const ranges: [string | null, string | null][] = []
+    server.use(
+      http.get(`${BASE_URL}/v2/corporate_actions/announcements`, ({ request }) => {
+        const url = new URL(request.url)
+        ranges.push([url.searchParams.get('since'), url.searchParams.get('until')])
+        expect(url.searchParams.get('ca_types')).toBe('dividend')
+        return HttpResponse.json([mockAnnouncement])
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const announcements = await client.corporateActions.list({
+      ca_types: 'dividend',
+      since: '2024-01-01',
+      until: '2024-03-30',
+    })
+
+    expect(announcements).toEqual([mockAnnouncement])
+    expect(ranges).toEqual([['2024-01-01', '2024-03-30']])
+  })
+
+  it('should split long ranges into 90-day windows', async () => {
+    const ranges: [string | null, string | null][] = []
+    server.use(
+      http.get(`${BASE_URL}/v2/corporate_actions/announcements`, ({ request }) => {
+        const url = new URL(request.url)
+        const since = url.searchParams.get('since')
+        ranges.push([since, url.searchParams.get('until')])
+        return HttpResponse.json([{ ...mockAnnouncement, id: `ca-${String(since)}` }])
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const announcements = await client.corporateActions.list({
+      ca_types: 'dividend',
+      since: '2024-01-01',
+      until: '2024-07-01',
+    })
+
+    expect(ranges).toEqual([
+      ['2024-01-01', '2024-03-30'],
+      ['2024-03-31', '2024-06-28'],
+      ['2024-06-29', '2024-07-01'],
+    ])
+    expect(announcements.map((announcement) => announcement.id)).toEqual([
+      'ca-2024-01-01',
+      'ca-2024-03-31',
+      'ca-2024-06-29',
+    ])
+  })
+
+  it('should reject inverted ranges without a request', async () => {
+    const client = createTradingClient(TEST_CONFIG)
+
+    await expect(
+      client.corporateActions.list({ ca_types: 'split', since: '2024-02-01', until: '2024-01-01' })
+    ).rejects.toThrow('must not be after until')
+  })
+
+  it('should get an announcement by ID', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/corporate_actions/announcements/:id`, ({ params }) => {
+        expect(params.id).toBe('ca-123')
+        return HttpResponse.json(mockAnnouncement)
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const announcement = await client.corporateActions.get('ca-123')
+
+    expect(announcement.cash).toBe('0.24')
+  })
+})
+
+describe('fixedIncome', () => {
+  it('should list treasuries with filters', async () => {
+    let capturedUrl: URL | null = null
+    server.use(
+      http.get(`${BASE_URL}/v2/assets/fixed_income/us_treasuries`, ({ request }) => {
+        capturedUrl = new URL(request.url)
+        return HttpResponse.json({ us_treasuries: [{ cusip: '912797GK7', isin: 'US912797GK74' }] })
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const result = await client.fixedIncome.getTreasuries({
+      subtype: 'bill',
+      bond_status: 'outstanding',
+    })
+
+    expect(result.us_treasuries[0]?.cusip).toBe('912797GK7')
+    expect(capturedUrl!.searchParams.get('subtype')).toBe('bill')
+    expect(capturedUrl!.searchParams.get('bond_status')).toBe('outstanding')
+  })
+
+  it('should list corporate bonds by ticker', async () => {
+    let capturedUrl: URL | null = null
+    server.use(
+      http.get(`${BASE_URL}/v2/assets/fixed_income/us_corporates`, ({ request }) => {
+        capturedUrl = new URL(request.url)
+        return HttpResponse.json({ us_corporates: [] })
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const result = await client.fixedIncome.getCorporates({ tickers: 'AAPL' })
+
+    expect(result.us_corporates).toEqual([])
+    expect(capturedUrl!.searchParams.get('tickers')).toBe('AAPL')
+  })
+})
+
+describe('wallets', () => {
+  const mockTransfer = {
+    id: 'transfer-123',
+    direction: 'OUTGOING',
+    status: 'PROCESSING',
+    amount: '100',
+    asset: 'USDC',
+    to_address: '0xabc',
+    created_at: '2024-01-15T10:30:00Z',
+  }
+
+  describe('wallets.getDepositAddress()', () => {
+    it('should look up the wallet of an asset', async () => {
+      let capturedUrl: URL | null = null
+      server.use(
+        http.get(`${BASE_URL}/v2/wallets`, ({ request }) => {
+          capturedUrl = new URL(request.url)
+          return HttpResponse.json({ chain: 'ETH', address: '0xdeposit' })
+        })
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+      const wallet = await client.wallets.getDepositAddress({ asset: 'USDC', network: 'ethereum' })
+
+      expect(wallet.address).toBe('0xdeposit')
+      expect(capturedUrl!.searchParams.get('asset')).toBe('USDC')
+      expect(capturedUrl!.searchParams.get('network')).toBe('ethereum')
+    })
+  })
+
+  describe('wallets.listTransfers()', () => {
+    it('should return an array of transfers', async () => {
+      server.use(
+        http.get(`${BASE_URL}/v2/wallets/transfers`, () => HttpResponse.json([mockTransfer]))
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+
+      expect(await client.wallets.listTransfers()).toEqual([mockTransfer])
+    })
+
+    it('should wrap a single transfer object in an array', async () => {
+      server.use(
+        http.get(`${BASE_URL}/v2/wallets/transfers`, () => HttpResponse.json(mockTransfer))
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+
+      expect(await client.wallets.listTransfers()).toEqual([mockTransfer])
+    })
+  })
+
+  describe('wallets.withdraw()', () => {
+    it('should post the withdrawal', async () => {
+      let capturedBody: unknown = null
+      server.use(
+        http.post(`${BASE_URL}/v2/wallets/transfers`, async ({ request }) => {
+          capturedBody = await request.json()
+          return HttpResponse.json(mockTransfer)
+        })
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+      const transfer = await client.wallets.withdraw({
+        asset: 'USDC',
+        amount: '100',
+        address: '0xabc',
+      })
+
+      expect(transfer.id).toBe('transfer-123')
+      expect(capturedBody).toEqual({ asset: 'USDC', amount: '100', address: '0xabc' })
+    })
+  })
+
+  describe('wallets.waitForTransfer()', () => {
+    it('should poll until the transfer completes', async () => {
+      const statuses = ['PROCESSING', 'PROCESSING', 'COMPLETE']
+      let polls = 0
+      server.use(
+        http.get(`${BASE_URL}/v2/wallets/transfers/:transferId`, ({ params }) => {
+          expect(params.transferId).toBe('transfer-123')
+          return HttpResponse.json({ ...mockTransfer, status: statuses[polls++] })
+        })
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+      const transfer = await client.wallets.waitForTransfer('transfer-123', { intervalMs: 1 })
+
+      expect(transfer.status).toBe('COMPLETE')
+      expect(polls).toBe(3)
+    })
+
+    it('should return failed transfers', async () => {
+      server.use(
+        http.get(`${BASE_URL}/v2/wallets/transfers/:transferId`, () =>
+          HttpResponse.json({ ...mockTransfer, status: 'FAILED' })
+        )
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+      const transfer = await client.wallets.waitForTransfer('transfer-123')
+
+      expect(transfer.status).toBe('FAILED')
+    })
+
+    it('should give up after the timeout', async () => {
+      server.use(
+        http.get(`${BASE_URL}/v2/wallets/transfers/:transferId`, () =>
+          HttpResponse.json(mockTransfer)
+        )
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+
+      await expect(
+        client.wallets.waitForTransfer('transfer-123', { intervalMs: 20, timeoutMs: 30 })
+      ).rejects.toThrow('Transfer transfer-123 did not settle within 30ms')
+    })
+
+    it('should stop polling when aborted', async () => {
+      server.use(
+        http.get(`${BASE_URL}/v2/wallets/transfers/:transferId`, () =>
+          HttpResponse.json(mockTransfer)
+        )
+      )
+      const controller = new AbortController()
+
+      const client = createTradingClient(TEST_CONFIG)
+      const waiting = client.wallets.waitForTransfer('transfer-123', {
+        intervalMs: 60_000,
+        signal: controller.signal,
+      })
+      setTimeout(() => controller.abort(), 10)
+
+      await expect(waiting).rejects.toMatchObject({ name: 'AbortError' })
+    })
+  })
+
+  describe('whitelists', () => {
+    const mockAddress = { id: 'wl-addr-1', asset: 'USDC', address: '0xabc', status: 'PENDING' }
+
+    it('should list whitelisted addresses', async () => {
+      server.use(
+        http.get(`${BASE_URL}/v2/wallets/whitelists`, () => HttpResponse.json([mockAddress]))
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+
+      expect(await client.wallets.listWhitelistedAddresses()).toEqual([mockAddress])
+    })
+
+    it('should whitelist an address', async () => {
+      let capturedBody: unknown = null
+      server.use(
+        http.post(`${BASE_URL}/v2/wallets/whitelists`, async ({ request }) => {
+          capturedBody = await request.json()
+          return HttpResponse.json(mockAddress)
+        })
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+      const address = await client.wallets.whitelistAddress({ address: '0xabc', asset: 'USDC' })
+
+      expect(address.status).toBe('PENDING')
+      expect(capturedBody).toEqual({ address: '0xabc', asset: 'USDC' })
+    })
+
+    it('should remove a whitelisted address', async () => {
+      let removedId: string | undefined
+      server.use(
+        http.delete(`${BASE_URL}/v2/wallets/whitelists/:id`, ({ params }) => {
+          removedId = params.id as string
+          return new HttpResponse(null, { status: 200 })
+        })
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+      await client.wallets.removeWhitelistedAddress('wl-addr-1')
+
+      expect(removedId).toBe('wl-addr-1')
+    })
+  })
+
+  describe('wallets.estimateFee()', () => {
+    it('should return the estimated fee', async () => {
+      let capturedUrl: URL | null = null
+      server.use(
+        http.get(`${BASE_URL}/v2/wallets/fees/estimate`, ({ request }) => {
+          capturedUrl = new URL(request.url)
+          return HttpResponse.json({ fee: '0.52' })
+        })
+      )
+
+      const client = createTradingClient(TEST_CONFIG)
+      const estimate = await client.wallets.estimateFee({ asset: 'USDC', amount: '100' })
+
+      expect(estimate.fee).toBe('0.52')
+      expect(capturedUrl!.searchParams.get('amount')).toBe('100')
+    })
+  })
+})
+
+describe('perpetuals', () => {
+  it('should get the leverage of a symbol', async () => {
+    let capturedUrl: URL | null = null
+    server.use(
+      http.get(`${BASE_URL}/v2/perpetuals/leverage`, ({ request }) => {
+        capturedUrl = new URL(request.url)
+        return HttpResponse.json({ symbol: 'BTC-PERP', leverage: 5 })
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const leverage = await client.perpetuals.getLeverage({ symbol: 'BTC-PERP' })
+
+    expect(leverage).toEqual({ symbol: 'BTC-PERP', leverage: 5 })
+    expect(capturedUrl!.searchParams.get('symbol')).toBe('BTC-PERP')
+  })
+
+  it('should set leverage through query parameters', async () => {
+    let capturedUrl: URL | null = null
+    server.use(
+      http.post(`${BASE_URL}/v2/perpetuals/leverage`, ({ request }) => {
+        capturedUrl = new URL(request.url)
+        return HttpResponse.json({ symbol: 'BTC-PERP', leverage: 10 })
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const leverage = await client.perpetuals.setLeverage({ symbol: 'BTC-PERP', leverage: 10 })
+
+    expect(leverage.leverage).toBe(10)
+    expect(capturedUrl!.searchParams.get('leverage')).toBe('10')
+  })
+
+  it('should get account vitals', async () => {
+    const vitals = {
+      maintenance_margin: 120.5,
+      collateral_balance: 5000,
+      total_collateral: 5100,
+      profit_loss: 100,
+    }
+    server.use(
+      http.get(`${BASE_URL}/v2/perpetuals/account_vitals`, () => HttpResponse.json(vitals))
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+
+    expect(await client.perpetuals.getAccountVitals()).toEqual(vitals)
+  })
+
+  it('should use the perpetuals wallet routes', async () => {
+    const paths: string[] = []
+    const transfer = { id: 'perp-transfer-1', status: 'COMPLETE', asset: 'USDC', amount: '50' }
+    server.use(
+      http.get(`${BASE_URL}/v2/perpetuals/wallets`, ({ request }) => {
+        paths.push(new URL(request.url).pathname)
+        return HttpResponse.json({ chain: 'ETH', address: '0xperp' })
+      }),
+      http.post(`${BASE_URL}/v2/perpetuals/wallets/transfers`, ({ request }) => {
+        paths.push(new URL(request.url).pathname)
+        return HttpResponse.json({ ...transfer, status: 'PROCESSING' })
+      }),
+      http.get(`${BASE_URL}/v2/perpetuals/wallets/transfers/:transferId`, ({ request }) => {
+        paths.push(new URL(request.url).pathname)
+        return HttpResponse.json(transfer)
+      }),
+      http.get(`${BASE_URL}/v2/perpetuals/wallets/whitelists`, ({ request }) => {
+        paths.push(new URL(request.url).pathname)
+        return HttpResponse.json([])
+      }),
+      http.get(`${BASE_URL}/v2/perpetuals/wallets/fees/estimate`, ({ request }) => {
+        paths.push(new URL(request.url).pathname)
+        return HttpResponse.json({ fee: '0.1' })
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    await client.perpetuals.getDepositAddress({ asset: 'USDC' })
+    const withdrawal = await client.perpetuals.withdraw({
+      asset: 'USDC',
+      amount: '50',
+      address: '0xabc',
+    })
+    const settled = await client.perpetuals.waitForTransfer(withdrawal.id!, { intervalMs: 1 })
+    await client.perpetuals.listWhitelistedAddresses()
+    await client.perpetuals.estimateFee({ asset: 'USDC', amount: '50' })
+
+    expect(settled.status).toBe('COMPLETE')
+    expect(paths).toEqual([
+      '/v2/perpetuals/wallets',
+      '/v2/perpetuals/wallets/transfers',
+      '/v2/perpetuals/wallets/transfers/perp-transfer-1',
+      '/v2/perpetuals/wallets/whitelists',
+      '/v2/perpetuals/wallets/fees/estimate',
+    ])
+  })
+})
+
+describe('options parameter branch coverage', () => {
+  it('account.get() should accept options with signal', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/account`, () => {
+        return HttpResponse.json(mockAccount)
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const controller = new AbortController()
+    const account = await client.account.get({ signal: controller.signal })
+
+    expect(account.id).toBe('account-123')
+  })
+
+  it('account.getConfigurations() should accept options with signal', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/account/configurations`, () => {
+        return HttpResponse.json({ dtbp_check: 'entry' })
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const controller = new AbortController()
+    const configs = await client.account.getConfigurations({ signal: controller.signal })
+
+    expect(configs.dtbp_check).toBe('entry')
+  })
+
+  it('account.updateConfigurations() should accept options with signal', async () => {
+    server.use(
+      http.patch(`${BASE_URL}/v2/account/configurations`, () => {
+        return HttpResponse.json({ no_shorting: true })
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const controller = new AbortController()
+    await client.account.updateConfigurations({ no_shorting: true }, { signal: controller.signal })
+  })
+
+  it('account.getActivities() should accept options with signal', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/account/activities`, () => {
+        return HttpResponse.json([])
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const controller = new AbortController()
+    const activities = await client.account.getActivities({}, { signal: controller.signal })
 
     expect(activities).toEqual([])
   })
@@ -2174,3 +3164,427 @@ describe('options parameter branch coverage', () => {
     await expect(client.positions.list()).rejects.toBeDefined()
   })
 })
+
+describe('request options', () => {
+  it('should send the idempotency key as a header', async () => {
+    let capturedKey: string | null = null
+
+    server.use(
+      http.post(`${BASE_URL}/v2/orders`, ({ request }) => {
+        capturedKey = request.headers.get('Idempotency-Key')
+        return HttpResponse.json(mockOrder)
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    await client.orders.create(
+      { symbol: 'AAPL', qty: '10', side: 'buy', type: 'market', time_in_force: 'day' },
+      { idempotencyKey: 'order-key-123' }
+    )
+
+    expect(capturedKey).toBe('order-key-123')
+  })
+
+  it('should apply the per-request timeout', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/account`, async () => {
+        await delay(1000)
+        return HttpResponse.json(mockAccount)
+      })
+    )
+
+    const client = createTradingClient({ ...TEST_CONFIG, maxRetries: 0 })
+
+    await expect(client.account.get({ timeout: 50 })).rejects.toMatchObject({
+      message: 'Request timeout',
+      status: 408,
+    })
+  })
+
+  it('should apply the client-level timeout', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/clock`, async () => {
+        await delay(1000)
+        return HttpResponse.json(mockClock)
+      })
+    )
+
+    const client = createTradingClient({ ...TEST_CONFIG, timeout: 50, maxRetries: 0 })
+
+    await expect(client.clock.get()).rejects.toMatchObject({ status: 408 })
+  })
+
+  it('should retry rate-limited requests up to maxRetries', async () => {
+    let requestCount = 0
+
+    server.use(
+      http.get(`${BASE_URL}/v2/positions`, () => {
+        requestCount++
+        if (requestCount === 1) {
+          return HttpResponse.json(
+            { code: 42910000, message: 'rate limit exceeded' },
+            { status: 429, headers: { 'retry-after': '0' } }
+          )
+        }
+        return HttpResponse.json([mockPosition])
+      })
+    )
+
+    const client = createTradingClient({ ...TEST_CONFIG, maxRetries: 1 })
+    const positions = await client.positions.list()
+
+    expect(requestCount).toBe(2)
+    expect(positions).toHaveLength(1)
+  })
+
+  it('should retry requests made through the raw client', async () => {
+    let requestCount = 0
+
+    server.use(
+      http.get(`${BASE_URL}/v2/account`, () => {
+        requestCount++
+        if (requestCount === 1) {
+          return HttpResponse.json(
+            { code: 50010000, message: 'internal error' },
+            { status: 500, headers: { 'retry-after': '0' } }
+          )
+        }
+        return HttpResponse.json(mockAccount)
+      })
+    )
+
+    const client = createTradingClient({ ...TEST_CONFIG, maxRetries: 1 })
+    const { data } = await client.raw.GET('/v2/account')
+
+    expect(requestCount).toBe(2)
+    expect(data?.id).toBe('account-123')
+  })
+})
+
+describe('middleware', () => {
+  it('should let middleware modify outgoing requests', async () => {
+    let capturedTraceId: string | null = null
+
+    server.use(
+      http.get(`${BASE_URL}/v2/account`, ({ request }) => {
+        capturedTraceId = request.headers.get('x-trace-id')
+        return HttpResponse.json(mockAccount)
+      })
+    )
+
+    const client = createTradingClient({
+      ...TEST_CONFIG,
+      middleware: [
+        {
+          onRequest({ request }) {
+            request.headers.set('x-trace-id', 'trace-123')
+            return request
+          },
+        },
+      ],
+    })
+    await client.account.get()
+
+    expect(capturedTraceId).toBe('trace-123')
+  })
+
+  it('should run onRequest in order and onResponse in reverse order', async () => {
+    const calls: string[] = []
+
+    server.use(
+      http.get(`${BASE_URL}/v2/clock`, () => {
+        return HttpResponse.json(mockClock)
+      })
+    )
+
+    const client = createTradingClient({
+      ...TEST_CONFIG,
+      middleware: [
+        {
+          onRequest() {
+            calls.push('first:request')
+          },
+          onResponse() {
+            calls.push('first:response')
+          },
+        },
+        {
+          onRequest() {
+            calls.push('second:request')
+          },
+          onResponse() {
+            calls.push('second:response')
+          },
+        },
+      ],
+    })
+    await client.clock.get()
+
+    expect(calls).toEqual(['first:request', 'second:request', 'second:response', 'first:response'])
+  })
+
+  it('should short-circuit the request when onRequest returns a response', async () => {
+    let requestCount = 0
+
+    server.use(
+      http.get(`${BASE_URL}/v2/clock`, () => {
+        requestCount++
+        return HttpResponse.json(mockClock)
+      })
+    )
+
+    const cachedClock = { ...mockClock, is_open: false }
+    const client = createTradingClient({
+      ...TEST_CONFIG,
+      middleware: [
+        {
+          onRequest() {
+            return Response.json(cachedClock)
+          },
+        },
+      ],
+    })
+    const clock = await client.clock.get()
+
+    expect(requestCount).toBe(0)
+    expect(clock.is_open).toBe(false)
+  })
+
+  it('should let middleware replace incoming responses', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/positions`, () => {
+        return HttpResponse.json([mockPosition])
+      })
+    )
+
+    const client = createTradingClient({
+      ...TEST_CONFIG,
+      middleware: [
+        {
+          onResponse() {
+            return Response.json([])
+          },
+        },
+      ],
+    })
+    const positions = await client.positions.list()
+
+    expect(positions).toEqual([])
+  })
+
+  it('should apply middleware to the raw client', async () => {
+    let capturedTraceId: string | null = null
+
+    server.use(
+      http.get(`${BASE_URL}/v2/account`, ({ request }) => {
+        capturedTraceId = request.headers.get('x-trace-id')
+        return HttpResponse.json(mockAccount)
+      })
+    )
+
+    const client = createTradingClient({
+      ...TEST_CONFIG,
+      middleware: [
+        {
+          onRequest({ request }) {
+            request.headers.set('x-trace-id', 'raw-trace')
+            return request
+          },
+        },
+      ],
+    })
+    await client.raw.GET('/v2/account')
+
+    expect(capturedTraceId).toBe('raw-trace')
+  })
+})
+
+describe('rate limiter', () => {
+  function createRecordingLimiter() {
+    const acquired: string[] = []
+    const updates: (string | null)[] = []
+    const rateLimiter: RateLimiter = {
+      acquire: (priority) => {
+        acquired.push(priority ?? 'normal')
+        return Promise.resolve()
+      },
+      update: (response) => {
+        updates.push(response.headers.get('x-ratelimit-remaining'))
+      },
+      getMetrics: () => createRateLimiter().getMetrics(),
+    }
+    return { rateLimiter, acquired, updates }
+  }
+
+  it('should pass every request through the limiter and report headers', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/account`, () => {
+        return HttpResponse.json(mockAccount, { headers: { 'x-ratelimit-remaining': '199' } })
+      })
+    )
+
+    const { rateLimiter, acquired, updates } = createRecordingLimiter()
+    const client = createTradingClient({ ...TEST_CONFIG, rateLimiter })
+    await client.account.get()
+    await client.raw.GET('/v2/account')
+
+    expect(acquired).toEqual(['normal', 'normal'])
+    expect(updates).toEqual(['199', '199'])
+  })
+
+  it('should give order submission high priority by default', async () => {
+    server.use(
+      http.post(`${BASE_URL}/v2/orders`, () => {
+        return HttpResponse.json(mockOrder)
+      })
+    )
+
+    const { rateLimiter, acquired } = createRecordingLimiter()
+    const client = createTradingClient({ ...TEST_CONFIG, rateLimiter })
+    await client.orders.create({
+      symbol: 'AAPL',
+      qty: '10',
+      side: 'buy',
+      type: 'market',
+      time_in_force: 'day',
+    })
+
+    expect(acquired).toEqual(['high'])
+  })
+
+  it('should use the priority from request options', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/assets`, () => {
+        return HttpResponse.json([mockAsset])
+      })
+    )
+
+    const { rateLimiter, acquired } = createRecordingLimiter()
+    const client = createTradingClient({ ...TEST_CONFIG, rateLimiter })
+    await client.assets.list({}, { priority: 'low' })
+
+    expect(acquired).toEqual(['low'])
+  })
+})
+
+describe('response metadata', () => {
+  it('should report metadata for successful calls through onMeta', async () => {
+    server.use(
+      http.post(`${BASE_URL}/v2/orders`, () => {
+        return HttpResponse.json(mockOrder, {
+          headers: {
+            'x-request-id': 'req-order-1',
+            'x-ratelimit-limit': '200',
+            'x-ratelimit-remaining': '198',
+            'x-ratelimit-reset': '1705329000',
+          },
+        })
+      })
+    )
+
+    const received: ResponseMeta[] = []
+    const client = createTradingClient(TEST_CONFIG)
+    const order = await client.orders.create(
+      { symbol: 'AAPL', qty: '10', side: 'buy', type: 'market', time_in_force: 'day' },
+      { onMeta: (meta) => received.push(meta) }
+    )
+
+    expect(order.id).toBe('order-123')
+    expect(received).toHaveLength(1)
+    expect(received[0]!.requestId).toBe('req-order-1')
+    expect(received[0]!.status).toBe(200)
+    expect(received[0]!.rateLimit).toEqual({ limit: 200, remaining: 198, reset: 1705329000 })
+    expect(received[0]!.durationMs).toBeGreaterThanOrEqual(0)
+  })
+
+  it('should return data and metadata with withMeta()', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/orders/order-123`, () => {
+        return HttpResponse.json(mockOrder, { headers: { 'x-request-id': 'req-get-1' } })
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const { data, meta } = await withMeta((options) => client.orders.get('order-123', options))
+
+    expect(data.id).toBe('order-123')
+    expect(meta?.requestId).toBe('req-get-1')
+  })
+
+  it('should report metadata only for the final attempt after retries', async () => {
+    let requestCount = 0
+
+    server.use(
+      http.get(`${BASE_URL}/v2/clock`, () => {
+        requestCount++
+        if (requestCount === 1) {
+          return HttpResponse.json(
+            { code: 42910000, message: 'rate limit exceeded' },
+            { status: 429, headers: { 'retry-after': '0' } }
+          )
+        }
+        return HttpResponse.json(mockClock, { headers: { 'x-request-id': 'req-clock-2' } })
+      })
+    )
+
+    const received: ResponseMeta[] = []
+    const client = createTradingClient({ ...TEST_CONFIG, maxRetries: 1 })
+    await client.clock.get({ onMeta: (meta) => received.push(meta) })
+
+    expect(received).toHaveLength(1)
+    expect(received[0]!.requestId).toBe('req-clock-2')
+  })
+})
+
+describe('safe client', () => {
+  it('should expose Result-returning twins of every namespace', () => {
+    const client = createTradingClient(TEST_CONFIG)
+
+    expect(typeof client.safe.account.get).toBe('function')
+    expect(typeof client.safe.orders.create).toBe('function')
+    expect(typeof client.safe.watchlists.delete).toBe('function')
+    expect('raw' in client.safe).toBe(false)
+  })
+
+  it('should return an ok result on success', async () => {
+    server.use(
+      http.get(`${BASE_URL}/v2/orders/order-123`, () => {
+        return HttpResponse.json(mockOrder)
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const result = await client.safe.orders.get('order-123')
+
+    expect(result.ok).toBe(true)
+    expect(result.data?.id).toBe('order-123')
+  })
+
+  it('should return a typed error result instead of throwing', async () => {
+    server.use(
+      http.post(`${BASE_URL}/v2/orders`, () => {
+        return HttpResponse.json(
+          { code: 40310000, message: 'insufficient buying power' },
+          { status: 403, headers: { 'x-request-id': 'req-safe-1' } }
+        )
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    const result = await client.safe.orders.create({
+      symbol: 'AAPL',
+      qty: '10',
+      side: 'buy',
+      type: 'market',
+      time_in_force: 'day',
+    })
+
+    expect(result.ok).toBe(false)
+    expect(result.error).toMatchObject({
+      type: 'insufficient_funds',
+      status: 403,
+      code: 40310000,
+      requestId: 'req-safe-1',
+    })
+  })
+})
@@ -0,0 +1,224 @@
+/**
+ * Unit tests for multi-leg options strategies
+ *
+ * Option quotes are mocked with MSW.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { createMarketDataClient } from '../../src/market-data/client'
+import { OptionStrategy, buildMultiLegOrder, getMultiLegQuote } from '../../src/trading/multi-leg'
+
+const DATA_URL = 'https://data.alpaca.markets'
+
+const CALL_190 = 'AAPL240621C00190000'
+const CALL_195 = 'AAPL240621C00195000'
+const CALL_200 = 'AAPL240621C00200000'
+const CALL_210 = 'AAPL240621C00210000'
+const PUT_170 = 'AAPL240621P00170000'
+const PUT_180 = 'AAPL240621P00180000'
+const PUT_190 = 'AAPL240621P00190000'
+const CALL_190_JULY = 'AAPL240719C00190000'
+
+const quote = (bp: number, ap: number) => ({
+  t: '2024-06-03T14:30:00Z',
+  bx: 'C',
+  bp,
+  bs: 10,
+  ax: 'C',
+  ap,
+  as: 10,
+  c: 'A',
+})
+
+const server = setupServer()
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' })
+})
+
+afterEach(() => {
+  server.resetHandlers()
+})
+
+afterAll(() => {
+  server.close()
+})
+
+describe('OptionStrategy', () => {
+  it('should build a vertical spread with opening intents', () => {
+    expect(OptionStrategy.vertical({ long: CALL_190, short: CALL_200 })).toEqual([
+      { symbol: CALL_190, side: 'buy', ratio_qty: '1', position_intent: 'buy_to_open' },
+      { symbol: CALL_200, side: 'sell', ratio_qty: '1', position_intent: 'sell_to_open' },
+    ])
+  })
+
+  it('should flip sides when closing', () => {
+    expect(OptionStrategy.vertical({ long: CALL_190, short: CALL_200, intent: 'close' })).toEqual([
+      { symbol: CALL_190, side: 'sell', ratio_qty: '1', position_intent: 'sell_to_close' },
+      { symbol: CALL_200, side: 'buy', ratio_qty: '1', position_intent: 'buy_to_close' },
+    ])
+  })
+
+  it('should reject verticals across expirations or option types', () => {
+    expect(() => OptionStrategy.vertical({ long: CALL_190, short: CALL_190_JULY })).toThrow(
+      'must share the same expiration'
+    )
+    expect(() => OptionStrategy.vertical({ long: CALL_190, short: PUT_180 })).toThrow(
+      'must share the same type'
+    )
+  })
+
+  it('should build straddles and strangles', () => {
+    const straddle = OptionStrategy.straddle({ call: CALL_190, put: PUT_190, side: 'sell' })
+    expect(straddle.map((leg) => leg.position_intent)).toEqual(['sell_to_open', 'sell_to_open'])
+
+    expect(() => OptionStrategy.straddle({ call: CALL_200, put: PUT_190, side: 'buy' })).toThrow(
+      'must share the same strike'
+    )
+    expect(() => OptionStrategy.strangle({ call: CALL_190, put: PUT_190, side: 'buy' })).toThrow(
+      'call strike must be above the put strike'
+    )
+  })
+
+  it('should build an iron condor with ordered strikes', () => {
+    const legs = OptionStrategy.ironCondor({
+      longPut: PUT_170,
+      shortPut: PUT_180,
+      shortCall: CALL_200,
+      longCall: CALL_210,
+    })
+    expect(legs.map((leg) => leg.side)).toEqual(['buy', 'sell', 'sell', 'buy'])
+
+    expect(() =>
+      OptionStrategy.ironCondor({
+        longPut: PUT_180,
+        shortPut: PUT_170,
+        shortCall: CALL_200,
+        longCall: CALL_210,
+      })
+    ).toThrow('longPut < shortPut <= shortCall < longCall')
+  })
+
+  it('should build a butterfly with a 1:2:1 ratio', () => {
+    const legs = OptionStrategy.butterfly({ lower: CALL_190, middle: CALL_195, upper: CALL_200 })
+    expect(legs.map((leg) => [leg.side, leg.ratio_qty])).toEqual([
+      ['buy', '1'],
+      ['sell', '2'],
+      ['buy', '1'],
+    ])
+
+    expect(() =>
+      OptionStrategy.butterfly({ lower: CALL_190, middle: CALL_195, upper: CALL_210 })
+    ).toThrow('equally spaced')
+  })
+
+  it('should build a calendar spread selling the near expiration', () => {
+    expect(
+      OptionStrategy.calendar({ near: CALL_190, far: CALL_190_JULY }).map((leg) => leg.side)
+    ).toEqual(['sell', 'buy'])
+    expect(() => OptionStrategy.calendar({ near: CALL_190_JULY, far: CALL_190 })).toThrow(
+      'must expire before the far leg'
+    )
+  })
+
+  it('should reject symbols that are not OCC contracts', () => {
+    expect(() => OptionStrategy.vertical({ long: 'AAPL', short: CALL_200 })).toThrow(
+      'Invalid option symbol "AAPL"'
+    )
+  })
+})
+
+describe('buildMultiLegOrder()', () => {
+  const legs = OptionStrategy.vertical({ long: CALL_190, short: CALL_200 })
+
+  it('should build a limit mleg order', () => {
+    expect(buildMultiLegOrder({ legs, qty: 2, limitPrice: 3.15 })).toEqual({
+      order_class: 'mleg',
+      type: 'limit',
+      time_in_force: 'day',
+      qty: '2',
+      limit_price: '3.15',
+      legs,
+    })
+  })
+
+  it('should build a market mleg order without a limit price', () => {
+    expect(buildMultiLegOrder({ legs, qty: 1 }).type).toBe('market')
+  })
+
+  it('should reject too few legs', () => {
+    expect(() => buildMultiLegOrder({ legs: legs.slice(0, 1), qty: 1 })).toThrow(
+      'require 2 to 4 legs'
+    )
+  })
+
+  it('should reject ratios that are not in simplest form', () => {
+    const doubled = legs.map((leg) => ({ ...leg, ratio_qty: '2' }))
+    expect(() => buildMultiLegOrder({ legs: doubled, qty: 1 })).toThrow('simplest form')
+  })
+
+  it('should reject the same contract in two legs', () => {
+    expect(() => buildMultiLegOrder({ legs: [legs[0]!, legs[0]!], qty: 1 })).toThrow(
+      'in more than one leg'
+    )
+  })
+})
+
+describe('getMultiLegQuote()', () => {
+  const marketData = createMarketDataClient({
+    keyId: 'test-key-id',
+    secretKey: 'test-secret-key',
+    maxRetries: 0,
+  })
+
+  it('should compute the net debit from leg quotes and ratios', async () => {
+    let symbols: string | null = null
+    server.use(
+      http.get(`${DATA_URL}/v1beta1/options/quotes/latest`, ({ request }) => {
+        symbols = new URL(request.url).searchParams.get('symbols')
+        return HttpResponse.json({
+          quotes: {
+            [CALL_190]: quote(5.1, 5.3),
+            [CALL_195]: quote(3.0, 3.2),
+            [CALL_200]: quote(1.4, 1.5),
+          },
+        })
+      })
+    )
+
+    const legs = OptionStrategy.butterfly({ lower: CALL_190, middle: CALL_195, upper: CALL_200 })
+    const result = await getMultiLegQuote(marketData, legs)
+
+    expect(symbols).toBe(`${CALL_190},${CALL_195},${CALL_200}`)
+    // bid: 5.1 + 1.4 - 2 * 3.2, ask: 5.3 + 1.5 - 2 * 3.0
+    expect(result).toEqual({ bid: 0.1, ask: 0.8, mid: 0.45, kind: 'debit' })
+  })
+
+  it('should report a credit when sold legs are worth more', async () => {
+    server.use(
+      http.get(`${DATA_URL}/v1beta1/options/quotes/latest`, () =>
+        HttpResponse.json({
+          quotes: { [CALL_190]: quote(5.1, 5.3), [CALL_200]: quote(1.4, 1.5) },
+        })
+      )
+    )
+
+    const legs = OptionStrategy.vertical({ long: CALL_200, short: CALL_190 })
+    const result = await getMultiLegQuote(marketData, legs)
+
+    expect(result).toEqual({ bid: -3.9, ask: -3.6, mid: -3.75, kind: 'credit' })
+  })
+
+  it('should throw when a leg has no quote', async () => {
+    server.use(
+      http.get(`${DATA_URL}/v1beta1/options/quotes/latest`, () =>
+        HttpResponse.json({ quotes: { [CALL_190]: quote(5.1, 5.3) } })
+      )
+    )
+
+    const legs = OptionStrategy.vertical({ long: CALL_190, short: CALL_200 })
+    await expect(getMultiLegQuote(marketData, legs)).rejects.toThrow(`No quote for ${CALL_200}`)
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Unit tests for the order builder and client-side order validation
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { setupServer } from 'msw/node'
+import { http, HttpResponse } from 'msw'
+import { createTradingClient } from '../../src/trading/client'
+import { OrderBuilder, validateOrderRequest } from '../../src/trading/order-builder'
+
+const BASE_URL = 'https://paper-api.alpaca.markets'
+
+const TEST_CONFIG = {
+  keyId: 'test-key-id',
+  secretKey: 'test-secret-key',
+  paper: true,
+}
+
+const server = setupServer()
+
+beforeAll(() => {
+  server.listen({ onUnhandledRequest: 'error' })
+})
+
+afterEach(() => {
+  server.resetHandlers()
+})
+
+afterAll(() => {
+  server.close()
+})
+
+describe('OrderBuilder', () => {
+  it('should build a bracket limit order', () => {
+    const order = OrderBuilder.limit('AAPL')
+      .buy(10)
+      .at('187.50')
+      .bracket({ takeProfit: 200, stopLoss: { stopPrice: '180', limitPrice: '179.5' } })
+      .gtc()
+      .build()
+
+    expect(order).toEqual({
+      symbol: 'AAPL',
+      type: 'limit',
+      side: 'buy',
+      qty: '10',
+      limit_price: '187.50',
+      time_in_force: 'gtc',
+      order_class: 'bracket',
+      take_profit: { limit_price: '200' },
+      stop_loss: { stop_price: '180', limit_price: '179.5' },
+    })
+  })
+
+  it('should build a notional market order with day time in force by default', () => {
+    expect(OrderBuilder.market('AAPL').buy().notional(500).build()).toEqual({
+      symbol: 'AAPL',
+      type: 'market',
+      side: 'buy',
+      notional: '500',
+      time_in_force: 'day',
+    })
+  })
+
+  it('should build trailing stop, OCO and OTO orders', () => {
+    expect(OrderBuilder.trailingStop('AAPL').sell(5).trailPercent(2.5).build()).toMatchObject({
+      type: 'trailing_stop',
+      trail_percent: '2.5',
+    })
+    expect(
+      OrderBuilder.limit('AAPL').sell(5).oco({ takeProfit: '210', stopLoss: '175' }).build()
+    ).toMatchObject({ order_class: 'oco', take_profit: { limit_price: '210' } })
+    expect(OrderBuilder.market('AAPL').buy(5).oto({ stopLoss: '175' }).build()).toMatchObject({
+      order_class: 'oto',
+      stop_loss: { stop_price: '175' },
+    })
+  })
+
+  it('should reject a market order with a limit price', () => {
+    expect(() => OrderBuilder.market('AAPL').buy(1).at(100).build()).toThrow(
+      'market orders cannot have limit_price'
+    )
+  })
+
+  it('should require prices for limit and stop orders', () => {
+    expect(() => OrderBuilder.limit('AAPL').buy(1).build()).toThrow(
+      'limit orders require limit_price'
+    )
+    expect(() => OrderBuilder.stopLimit('AAPL').sell(1).at(99).build()).toThrow(
+      'stop_limit orders require stop_price'
+    )
+  })
+
+  it('should reject both trail_price and trail_percent', () => {
+    expect(() =>
+      OrderBuilder.trailingStop('AAPL').sell(1).trailPrice(1).trailPercent(2).build()
+    ).toThrow('cannot specify both trail_price and trail_percent')
+  })
+
+  it('should reject qty together with notional', () => {
+    expect(() => OrderBuilder.market('AAPL').buy(1).notional(100).build()).toThrow(
+      'cannot specify both qty and notional'
+    )
+  })
+
+  it('should reject bracket exits on the wrong side of each other', () => {
+    expect(() =>
+      OrderBuilder.market('AAPL').buy(1).bracket({ takeProfit: 180, stopLoss: 190 }).build()
+    ).toThrow('must be above stop_loss.stop_price')
+  })
+
+  it('should reject extended hours outside a day limit order', () => {
+    expect(() => OrderBuilder.limit('AAPL').buy(1).at(100).gtc().extendedHours().build()).toThrow(
+      'extended_hours requires a limit order'
+    )
+  })
+
+  it('should reject non-positive quantities', () => {
+    expect(() => OrderBuilder.market('AAPL').buy(0).build()).toThrow(
+      'qty must be a positive number'
+    )
+  })
+})
+
+describe('validateOrderRequest()', () => {
+  it('should reject take_profit without a bracket, OCO or OTO order class', () => {
+    expect(() =>
+      validateOrderRequest({
+        symbol: 'AAPL',
+        side: 'buy',
+        qty: '1',
+        type: 'market',
+        time_in_force: 'day',
+        take_profit: { limit_price: '200' },
+      })
+    ).toThrow("take_profit and stop_loss require order_class 'bracket', 'oco' or 'oto'")
+  })
+
+  it('should require both exit legs for brackets', () => {
+    expect(() =>
+      validateOrderRequest({
+        symbol: 'AAPL',
+        side: 'buy',
+        qty: '1',
+        type: 'market',
+        time_in_force: 'day',
+        order_class: 'bracket',
+        take_profit: { limit_price: '200' },
+      })
+    ).toThrow('bracket orders require both take_profit and stop_loss')
+  })
+
+  it('should require a side and quantity', () => {
+    expect(() =>
+      validateOrderRequest({ symbol: 'AAPL', qty: '1', type: 'market', time_in_force: 'day' })
+    ).toThrow('Order requires a side')
+    expect(() =>
+      validateOrderRequest({ symbol: 'AAPL', side: 'buy', type: 'market', time_in_force: 'day' })
+    ).toThrow('Order requires either qty or notional')
+  })
+})
+
+describe('orders.create() with a builder', () => {
+  it('should send the built order', async () => {
+    let capturedBody: unknown = null
+
+    server.use(
+      http.post(`${BASE_URL}/v2/orders`, async ({ request }) => {
+        capturedBody = await request.json()
+        return HttpResponse.json({ id: 'order-1', symbol: 'AAPL' })
+      })
+    )
+
+    const client = createTradingClient(TEST_CONFIG)
+    await client.orders.create(OrderBuilder.limit('AAPL').buy(10).at('187.50'))
+
+    expect(capturedBody).toEqual({
+      symbol: 'AAPL',
+      type: 'limit',
+      side: 'buy',
+      qty: '10',
+      limit_price: '187.50',
+      time_in_force: 'day',
+    })
+  })
+
+  it('should not send an invalid order', async () => {
+    const client = createTradingClient(TEST_CONFIG)
+
+    await expect(
+      client.orders.create(OrderBuilder.market('AAPL').buy(1).stopAt(90))
+    ).rejects.toThrow('market orders cannot have stop_price')
+  })
+})